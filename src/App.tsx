@@ -1,12 +1,49 @@
 import React, { useState, ChangeEvent, KeyboardEvent, FocusEvent, useRef, useCallback, useEffect } from 'react';
 import * as THREE from 'three'; // Import THREE
 import './App.css'
-import { WorkspaceData, AtomicNodeDefinition, CanvasNodeInstance, WireConnection, DrawingWireState, NodeOrBoundaryId, PortIndexOrId, BoundaryPort, DefinitionDefinition, ExternalPort } from './types'; // Import WireConnection
+import { WorkspaceData, AtomicNodeDefinition, CanvasNodeInstance, WireConnection, DrawingWireState, NodeOrBoundaryId, PortIndexOrId, BoundaryPort, DefinitionDefinition, AxiomDefinition, TheoremDefinition, SidebarTab, NodePhysicsData } from './types'; // Import WireConnection
 import LeftSidebar from './components/LeftSidebar'; // Import new component
 import CanvasArea from './components/CanvasArea'; // Import new component
 import DefinitionForm from './components/DefinitionForm.tsx'; // Import form
 import Modal from './components/Modal'; // Import modal
 import { getPortBoundaryLocalOffset } from './utils/geometry'; // Import utility
+import { findDanglingPorts, inferExternalPorts } from './utils/boundaryInterface';
+import { expandInstance, findNestingCycle } from './utils/definitionExpansion';
+import { Net, NetInvariantError, connect, createNet, removeBoundaryPort, removeNode } from './net/netModel';
+import { useAxiomEditor } from './hooks/useAxiomEditor';
+import AxiomEditorPanel from './components/AxiomEditorPanel';
+import AxiomOptionForm from './components/AxiomOptionForm';
+import { useTheoremEditor } from './hooks/useTheoremEditor';
+import TheoremEditorPanel from './components/TheoremEditorPanel';
+import { useProofWorkspace } from './hooks/useProofWorkspace';
+import ProofWorkspace from './components/ProofWorkspace';
+import { captureNodePositions } from './utils/nodePositions';
+import { useNetComparison } from './hooks/useNetComparison';
+import { areNetsIsomorphic } from './utils/netEquality';
+import NetComparisonPanel from './components/NetComparisonPanel';
+import { verifyTheoremProofs } from './utils/proofReplay';
+import { LibraryChangeResolution, PendingLibraryChange, useLibraryChanges } from './hooks/useLibraryChanges';
+import LibraryChangeForm from './components/LibraryChangeForm';
+import { Library, LibraryItemRef, describeMisfitWires, findChangedPorts } from './utils/libraryDependencies';
+import { useAxiomRewriting } from './hooks/useAxiomRewriting';
+import { useTheoremRewriting } from './hooks/useTheoremRewriting';
+import { useDefinitionFolding } from './hooks/useDefinitionFolding';
+import { useDefinitionEditor } from './hooks/useDefinitionEditor';
+import DefinitionEditorPanel from './components/DefinitionEditorPanel';
+import RewriteChooserForm from './components/RewriteChooserForm';
+import { useNormalizer } from './hooks/useNormalizer';
+import ReductionControls from './components/ReductionControls';
+import ReductionPanel from './components/ReductionPanel';
+import { useReductionTrace } from './hooks/useReductionTrace';
+import TraceTimeline from './components/TraceTimeline';
+import AnalysisPanel from './components/AnalysisPanel';
+import TemplateMenu from './components/TemplateMenu';
+import { WORKSPACE_TEMPLATES, WorkspaceTemplate } from './templates/workspaceTemplates';
+import { WorkspaceValidation, validateWorkspace } from './utils/workspaceValidation';
+import { CURRENT_FORMAT_VERSION, WorkspaceFormatError, migrateWorkspace } from './utils/workspaceMigrations';
+import ImportReportForm from './components/ImportReportForm';
+import { useEditHistory } from './hooks/useEditHistory';
+import HistoryPanel from './components/HistoryPanel';
 
 function App() {
   const [title, setTitle] = useState<string>('Untitled');
@@ -14,6 +51,7 @@ function App() {
   const [canvasNodes, setCanvasNodes] = useState<CanvasNodeInstance[]>([]); // State for canvas nodes
   const [isEditingTitle, setIsEditingTitle] = useState<boolean>(false);
   const fileInputRef = useRef<HTMLInputElement>(null); // Ref for the hidden file input
+  const compareInputRef = useRef<HTMLInputElement>(null); // Hidden input for "Compare with File"
   const [wires, setWires] = useState<WireConnection[]>([]); // State for wires
   const [drawingWire, setDrawingWire] = useState<DrawingWireState | null>(null); // State for temporary wire
   const isFinishingWire = useRef(false); // Add ref to prevent double execution
@@ -21,14 +59,22 @@ function App() {
   const [boundaryPorts, setBoundaryPorts] = useState<BoundaryPort[]>([]);
   // --- New State ---
   const [definitions, setDefinitions] = useState<DefinitionDefinition[]>([]);
-  const [activeSidebarTab, setActiveSidebarTab] = useState<'atomic' | 'definitions'>('atomic');
+  const [axioms, setAxioms] = useState<AxiomDefinition[]>([]);
+  const [theorems, setTheorems] = useState<TheoremDefinition[]>([]);
+  const [activeSidebarTab, setActiveSidebarTab] = useState<SidebarTab>('atomic');
+  const [isReductionPanelOpen, setIsReductionPanelOpen] = useState<boolean>(false);
+  const [isAnalysisPanelOpen, setIsAnalysisPanelOpen] = useState<boolean>(false);
+  const [isHistoryPanelOpen, setIsHistoryPanelOpen] = useState<boolean>(false);
   const [isDefinitionModalOpen, setIsDefinitionModalOpen] = useState<boolean>(false);
+  const [pendingImport, setPendingImport] = useState<WorkspaceValidation | null>(null); // A file with problems, awaiting the user's decision
   // Store canvas state at the time "Add Definition" was clicked
   const [definitionCandidate, setDefinitionCandidate] = useState<{ nodes: CanvasNodeInstance[], wires: WireConnection[], ports: BoundaryPort[] } | null>(null);
 
   // Ref to store node positions/rotations for length calculation
   // We might need a more robust way if nodes aren't rendered immediately
-  const nodePhysicsData = useRef<Map<string, { position: THREE.Vector3, rotation: THREE.Quaternion }>>(new Map());
+  const nodePhysicsData = useRef<NodePhysicsData>(new Map());
+  // Nodes picked with Ctrl+click, in selection order
+  const [selectedNodeIds, setSelectedNodeIds] = useState<string[]>([]);
 
   // Callback passed to PhysicsNode to update its data
   // This is a bit complex, ideally physics state lives closer to physics components
@@ -36,6 +82,14 @@ function App() {
       nodePhysicsData.current.set(instanceId, { position, rotation });
   }, []);
 
+  // --- Edit History ---
+  const editHistory = useEditHistory({
+    atomicNodes, canvasNodes, wires, boundaryPorts, isBoundaryActive, definitions, axioms, theorems, nodePhysicsData,
+    setAtomicNodes, setCanvasNodes, setWires, setBoundaryPorts, setIsBoundaryActive, setDefinitions, setAxioms, setTheorems,
+    setSelectedNodeIds,
+  });
+  const { recordEdit } = editHistory;
+
   const handleTitleChange = (event: ChangeEvent<HTMLInputElement>) => {
     setTitle(event.target.value);
   };
@@ -66,18 +120,21 @@ function App() {
 
   // --- Atomic Node Handling ---
   const addAtomicNode = useCallback((newNode: AtomicNodeDefinition) => {
+    recordEdit(`Add atomic node ${newNode.name}`);
     setAtomicNodes((prevNodes) => [...prevNodes, newNode]);
-  }, []);
+  }, [recordEdit]);
 
-  const deleteAtomicNode = useCallback((definitionIdToDelete: string) => {
-    setAtomicNodes((prevNodes) =>
-      prevNodes.filter((node) => node.id !== definitionIdToDelete)
-    );
-    setCanvasNodes((prevCanvasNodes) =>
-        prevCanvasNodes.filter((instance) => instance.definitionId !== definitionIdToDelete)
+  // --- Selection Handling ---
+  const toggleNodeSelection = useCallback((instanceId: string) => {
+    setSelectedNodeIds(prev =>
+      prev.includes(instanceId) ? prev.filter(id => id !== instanceId) : [...prev, instanceId]
     );
   }, []);
 
+  const clearSelection = useCallback(() => {
+    setSelectedNodeIds([]);
+  }, []);
+
   // --- Canvas Node Handling ---
   const addNodeToCanvas = useCallback((definitionOrAtomicId: string, x: number, y: number) => {
     let isDefinition = false;
@@ -108,19 +165,20 @@ function App() {
       metadataVisibility: {}, // Initialize metadata visibility
       ...(isDefinition && { isDefinitionInstance: true }) // Add flag if it's a definition
     };
+    recordEdit('Add node');
     setCanvasNodes((prevCanvasNodes) => [...prevCanvasNodes, newNodeInstance]);
-  }, [definitions, atomicNodes]); // Add definitions and atomicNodes as dependencies
+  }, [definitions, atomicNodes, recordEdit]); // Add definitions and atomicNodes as dependencies
 
   const deleteCanvasNode = useCallback((instanceIdToDelete: string) => {
+    recordEdit('Delete node');
     // Delete the node instance
     setCanvasNodes((prevCanvasNodes) =>
       prevCanvasNodes.filter((instance) => instance.instanceId !== instanceIdToDelete)
     );
+    setSelectedNodeIds(prev => prev.filter(id => id !== instanceIdToDelete));
     // Also delete any wires connected to this node
-    setWires((prevWires) =>
-      prevWires.filter(w => w.sourceNodeId !== instanceIdToDelete && w.targetNodeId !== instanceIdToDelete)
-    );
-  }, [setCanvasNodes, setWires]); // Add setWires as dependency
+    setWires((prevWires) => removeNode(createNet([], prevWires), instanceIdToDelete).wires);
+  }, [setCanvasNodes, setWires, recordEdit]); // Add setWires as dependency
 
   // --- Wire Handling (Updated for Boundary Source) ---
   // startWire now accepts boundary source types
@@ -161,88 +219,76 @@ function App() {
     const { sourceNodeId, sourcePortIndex } = currentDrawingWire;
     console.log(`Finish wire. Source: ${sourceNodeId}:${sourcePortIndex}, Target: ${targetNodeId}:${targetPortIndex}`);
 
-    // --- Rule out invalid combinations --- 
     if (targetNodeId === null || targetPortIndex === null) {
         console.log("Wire cancelled: No valid target.");
-    } else if (sourceNodeId === targetNodeId && sourcePortIndex === targetPortIndex) {
-        console.log("Wire connection failed: Cannot connect port to itself.");
     } else {
-        // --- Check Port Occupancy --- 
-        const isSourceOccupied = wires.some(w =>
-            (w.sourceNodeId === sourceNodeId && w.sourcePortIndex === sourcePortIndex) ||
-            (w.targetNodeId === sourceNodeId && w.targetPortIndex === sourcePortIndex)
-        );
-        const isTargetOccupied = wires.some(w =>
-            (w.sourceNodeId === targetNodeId && w.sourcePortIndex === targetPortIndex) ||
-            (w.targetNodeId === targetNodeId && w.targetPortIndex === targetPortIndex)
-        );
-
-        if (isSourceOccupied) {
-            console.log("Wire connection failed: Source port already connected.");
-        } else if (isTargetOccupied) {
-            console.log("Wire connection failed: Target port already connected.");
-        } else {
-            // --- Create Wire (Validation passed) --- 
-            let initialLength: number | null = null;
-            // Calculate length ONLY for node-to-node connections
-            if (sourceNodeId !== 'BOUNDARY' && targetNodeId !== 'BOUNDARY') {
-                const sourceNodeDef = atomicNodes.find(def => canvasNodes.find(cn => cn.instanceId === sourceNodeId)?.definitionId === def.id);
-                const targetNodeDef = atomicNodes.find(def => canvasNodes.find(cn => cn.instanceId === targetNodeId)?.definitionId === def.id);
-                const sourcePhysData = nodePhysicsData.current.get(sourceNodeId as string); // Cast safe
-                const targetPhysData = nodePhysicsData.current.get(targetNodeId as string); // Cast safe
-
-                if (sourceNodeDef && targetNodeDef && sourcePhysData && targetPhysData) {
-                    const sourceLocalOffset = getPortBoundaryLocalOffset(sourceNodeDef, sourcePortIndex as number); // Cast safe
-                    const targetLocalOffset = getPortBoundaryLocalOffset(targetNodeDef, targetPortIndex as number); // Cast safe
-                    const sourcePos = sourcePhysData.position.clone().add(sourceLocalOffset.clone().applyQuaternion(sourcePhysData.rotation));
-                    const targetPos = targetPhysData.position.clone().add(targetLocalOffset.clone().applyQuaternion(targetPhysData.rotation));
-                    initialLength = sourcePos.distanceTo(targetPos);
-                    console.log("Calculated node-to-node wire length:", initialLength);
-                }
+        let initialLength: number | null = null;
+        // Calculate length ONLY for node-to-node connections
+        if (sourceNodeId !== 'BOUNDARY' && targetNodeId !== 'BOUNDARY') {
+            const sourceNodeDef = atomicNodes.find(def => canvasNodes.find(cn => cn.instanceId === sourceNodeId)?.definitionId === def.id);
+            const targetNodeDef = atomicNodes.find(def => canvasNodes.find(cn => cn.instanceId === targetNodeId)?.definitionId === def.id);
+            const sourcePhysData = nodePhysicsData.current.get(sourceNodeId as string); // Cast safe
+            const targetPhysData = nodePhysicsData.current.get(targetNodeId as string); // Cast safe
+
+            if (sourceNodeDef && targetNodeDef && sourcePhysData && targetPhysData) {
+                const sourceLocalOffset = getPortBoundaryLocalOffset(sourceNodeDef, sourcePortIndex as number); // Cast safe
+                const targetLocalOffset = getPortBoundaryLocalOffset(targetNodeDef, targetPortIndex as number); // Cast safe
+                const sourcePos = sourcePhysData.position.clone().add(sourceLocalOffset.clone().applyQuaternion(sourcePhysData.rotation));
+                const targetPos = targetPhysData.position.clone().add(targetLocalOffset.clone().applyQuaternion(targetPhysData.rotation));
+                initialLength = sourcePos.distanceTo(targetPos);
+                console.log("Calculated node-to-node wire length:", initialLength);
             }
+        }
 
-            const newWire: WireConnection = {
-                id: `wire_${Date.now()}_${Math.random().toString(16).slice(2)}`,
-                sourceNodeId: sourceNodeId,
-                sourcePortIndex: sourcePortIndex,
-                targetNodeId: targetNodeId,
-                targetPortIndex: targetPortIndex,
-                targetLength: initialLength,
-            };
-            console.log("Wire created:", newWire);
-            setWires(currentWires => [...currentWires, newWire]);
+        // The net model rejects self-connections, missing endpoints and occupied ports
+        try {
+            const { wire } = connect(
+                createNet(canvasNodes, wires, boundaryPorts),
+                { nodeId: sourceNodeId, port: sourcePortIndex },
+                { nodeId: targetNodeId, port: targetPortIndex },
+                initialLength
+            );
+            console.log("Wire created:", wire);
+            recordEdit('Add wire');
+            setWires(currentWires => [...currentWires, wire]);
+        } catch (error) {
+            if (!(error instanceof NetInvariantError)) throw error;
+            console.log(`Wire connection failed: ${error.message}`);
         }
     }
 
     // Reset the re-entry flag
     setTimeout(() => { isFinishingWire.current = false; }, 0);
 
-  }, [drawingWire, wires, setWires, atomicNodes, canvasNodes]); // Removed setDrawingWire (handled internally)
+  }, [drawingWire, wires, boundaryPorts, setWires, atomicNodes, canvasNodes, recordEdit]); // Removed setDrawingWire (handled internally)
 
-  // deleteWire depends only on setWires (stable)
   const deleteWire = useCallback((wireIdToDelete: string) => {
     console.log(`Deleting wire ${wireIdToDelete}`);
+    recordEdit('Delete wire');
     setWires(prev => prev.filter(w => w.id !== wireIdToDelete));
-  }, [setWires]);
+  }, [setWires, recordEdit]);
 
   // --- Update Instance Metadata & Visibility --- 
-  const updateInstanceMetadata = useCallback((instanceId: string, newValues: Record<string, string | number | boolean>, newVisibility: Record<string, boolean>) => {
+  const updateInstanceMetadata = useCallback((instanceId: string, newValues: Record<string, string | number | boolean>, newVisibility: Record<string, boolean>, newExpressions: Record<string, string> = {}) => {
+    recordEdit('Edit metadata');
     setCanvasNodes(prevNodes => 
       prevNodes.map(node => 
         node.instanceId === instanceId 
           ? { 
               ...node, 
               metadataValues: newValues, // Update values
-              metadataVisibility: newVisibility // Update visibility
+              metadataVisibility: newVisibility, // Update visibility
+              metadataExpressions: Object.keys(newExpressions).length > 0 ? newExpressions : undefined,
             } 
           : node
       )
     );
-    console.log(`Updated metadata for ${instanceId}:`, newValues, newVisibility);
-  }, [setCanvasNodes]);
+    console.log(`Updated metadata for ${instanceId}:`, newValues, newVisibility, newExpressions);
+  }, [setCanvasNodes, recordEdit]);
 
   // --- Add Wire Length Update Handler ---
   const handleUpdateWireLength = useCallback((wireId: string, newLength: number) => {
+      recordEdit('Change wire length', `wire-length:${wireId}`);
       setWires(currentWires =>
           currentWires.map(wire =>
               wire.id === wireId
@@ -250,17 +296,20 @@ function App() {
                   : wire
           )
       );
-  }, [setWires]);
+  }, [setWires, recordEdit]);
   // --- End Wire Handling ---
 
   // --- Import/Export Handlers ---
   const handleExport = () => {
     const data: WorkspaceData = {
+      formatVersion: CURRENT_FORMAT_VERSION, // Always written in the latest format
       title: title,
       atomicNodes: atomicNodes,
       canvasNodes: canvasNodes,
       wires: wires, // Include wires
       definitions: definitions, // Include definitions
+      axioms: axioms,
+      theorems: theorems,
     };
 
     const jsonString = JSON.stringify(data, null, 2); // Pretty print JSON
@@ -276,10 +325,117 @@ function App() {
     URL.revokeObjectURL(url);
   };
 
+  // Replaces the whole workspace, falling back to empty collections for missing fields
+  const loadWorkspace = (jsonData: WorkspaceData) => {
+    // The boundary is not saved, and the layout, selection and reduction state belong to the canvas being replaced
+    nodePhysicsData.current.clear();
+    setSelectedNodeIds([]);
+    setBoundaryPorts([]);
+    setIsBoundaryActive(false);
+    normalizer.discardReduction();
+    normalizer.setRootPortId(null);
+    reductionTrace.clearTrace();
+    netComparison.clearComparison();
+
+    // --- Title Update ---
+    if (typeof jsonData.title === 'string') {
+      setTitle(jsonData.title || 'Untitled');
+    } else {
+      console.warn('Imported JSON missing or invalid title. Using default.');
+      setTitle('Untitled');
+    }
+
+    // --- Atomic Nodes Update ---
+    if (Array.isArray(jsonData.atomicNodes)) {
+      // Add more robust validation later if needed
+      setAtomicNodes(jsonData.atomicNodes);
+    } else {
+      console.warn('Imported JSON missing or invalid atomicNodes array. Resetting library.');
+      setAtomicNodes([]);
+    }
+
+    // --- Canvas Nodes Update ---
+    if (Array.isArray(jsonData.canvasNodes)) {
+      // Add more robust validation later
+      setCanvasNodes(jsonData.canvasNodes);
+    } else {
+      console.warn('Imported JSON missing or invalid canvasNodes array. Resetting canvas.');
+      setCanvasNodes([]);
+    }
+
+    // --- Wires Update ---
+    if (Array.isArray(jsonData.wires)) {
+        // Add more robust validation later
+        setWires(jsonData.wires);
+    } else {
+        console.warn('Imported JSON missing or invalid wires array. Clearing wires.');
+        setWires([]);
+    }
+
+    // --- Definitions Update --- 
+    if (Array.isArray(jsonData.definitions)) {
+        // Add more robust validation later if needed
+        setDefinitions(jsonData.definitions);
+        console.log('Imported definitions:', jsonData.definitions.length);
+    } else {
+         console.warn('Imported JSON missing or invalid definitions array. Clearing definitions.');
+         setDefinitions([]);
+    }
+
+    // --- Axioms Update ---
+    if (Array.isArray(jsonData.axioms)) {
+        setAxioms(jsonData.axioms);
+        console.log('Imported axioms:', jsonData.axioms.length);
+    } else {
+        console.warn('Imported JSON missing or invalid axioms array. Clearing axioms.');
+        setAxioms([]);
+    }
+
+    // --- Theorems Update ---
+    if (Array.isArray(jsonData.theorems)) {
+        setTheorems(jsonData.theorems);
+        console.log('Imported theorems:', jsonData.theorems.length);
+    } else {
+        console.warn('Imported JSON missing or invalid theorems array. Clearing theorems.');
+        setTheorems([]);
+    }
+  };
+
+  const handleLoadTemplate = (template: WorkspaceTemplate) => {
+    const isEmpty = atomicNodes.length === 0 && canvasNodes.length === 0 && definitions.length === 0 && axioms.length === 0 && theorems.length === 0;
+    if (!isEmpty && !window.confirm(`Replace the current workspace with "${template.name}"?`)) return;
+    recordEdit(`Load template ${template.name}`);
+    loadWorkspace(template.create());
+    console.log('Loaded workspace template:', template.id);
+  };
+
   const handleImportClick = () => {
     fileInputRef.current?.click(); // Trigger the hidden file input
   };
 
+  // Loads a file that passed validation, or the repaired part of one
+  const loadImportedWorkspace = (jsonData: WorkspaceData) => {
+    // Proofs are replayed against the file's own rules; a file's claim of "proved" is not trusted
+    const theorems = verifyTheoremProofs(jsonData.theorems, {
+      atomicNodes: jsonData.atomicNodes,
+      definitions: jsonData.definitions,
+      axioms: jsonData.axioms,
+    });
+    recordEdit('Import workspace');
+    loadWorkspace({ ...jsonData, theorems });
+    const failedTheoremNames = theorems.filter(theorem => theorem.proofFailure).map(theorem => `${theorem.name}: ${theorem.proofFailure}`);
+    if (failedTheoremNames.length > 0) {
+      alert(`Warning: These theorem proofs no longer check and were marked unproved:\n - ${failedTheoremNames.join('\n - ')}`);
+    }
+  };
+
+  const loadRepairedImport = () => {
+    if (!pendingImport) return;
+    setPendingImport(null);
+    loadImportedWorkspace(pendingImport.repaired);
+    console.log(`Loaded repaired workspace despite ${pendingImport.problems.length} problems.`);
+  };
+
   const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -291,51 +447,18 @@ function App() {
         if (typeof text !== 'string') {
           throw new Error('Failed to read file content.');
         }
-        const jsonData: WorkspaceData = JSON.parse(text);
-
-        // --- Title Update ---
-        if (typeof jsonData.title === 'string') {
-          setTitle(jsonData.title || 'Untitled');
-        } else {
-          console.warn('Imported JSON missing or invalid title. Using default.');
-          setTitle('Untitled');
-        }
-
-        // --- Atomic Nodes Update ---
-        if (Array.isArray(jsonData.atomicNodes)) {
-          // Add more robust validation later if needed
-          setAtomicNodes(jsonData.atomicNodes);
-        } else {
-          console.warn('Imported JSON missing or invalid atomicNodes array. Resetting library.');
-          setAtomicNodes([]);
-        }
-
-        // --- Canvas Nodes Update ---
-        if (Array.isArray(jsonData.canvasNodes)) {
-          // Add more robust validation later
-          setCanvasNodes(jsonData.canvasNodes);
-        } else {
-          console.warn('Imported JSON missing or invalid canvasNodes array. Resetting canvas.');
-          setCanvasNodes([]);
-        }
-
-        // --- Wires Update ---
-        if (Array.isArray(jsonData.wires)) {
-            // Add more robust validation later
-            setWires(jsonData.wires);
-        } else {
-            console.warn('Imported JSON missing or invalid wires array. Clearing wires.');
-            setWires([]);
+        // Older files are upgraded first, then checked as current ones
+        const { data, fromVersion } = migrateWorkspace(JSON.parse(text));
+        if (fromVersion < CURRENT_FORMAT_VERSION) {
+          console.log(`Imported workspace upgraded from format version ${fromVersion} to ${CURRENT_FORMAT_VERSION}.`);
         }
-
-        // --- Definitions Update --- 
-        if (Array.isArray(jsonData.definitions)) {
-            // Add more robust validation later if needed
-            setDefinitions(jsonData.definitions);
-            console.log('Imported definitions:', jsonData.definitions.length);
+        // Broken files are reported first; the user decides whether to load what could be repaired
+        const validation = validateWorkspace(data);
+        if (validation.problems.length > 0) {
+          console.warn('Imported workspace has problems:', validation.problems);
+          setPendingImport(validation);
         } else {
-             console.warn('Imported JSON missing or invalid definitions array. Clearing definitions.');
-             setDefinitions([]);
+          loadImportedWorkspace(validation.repaired);
         }
 
         // Reset file input value to allow importing the same file again
@@ -347,7 +470,11 @@ function App() {
 
       } catch (error) {
         console.error('Failed to parse imported JSON:', error);
-        alert('Error importing file. Please ensure it is a valid JSON workspace file.');
+        if (error instanceof WorkspaceFormatError) {
+          alert(`Error importing file: ${error.message}`);
+        } else {
+          alert('Error importing file. Please ensure it is a valid JSON workspace file.');
+        }
         // Reset file input value on error too
         if (fileInputRef.current) {
           fileInputRef.current.value = '';
@@ -365,7 +492,90 @@ function App() {
     reader.readAsText(file);
   };
 
+  // --- Net Comparison ---
+  const netComparison = useNetComparison({ atomicNodes, definitions, canvasNodes, wires });
+
+  const handleCompareFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) netComparison.compareWithFile(file);
+    event.target.value = ''; // Allow comparing with the same file again
+  };
+
+  // --- Axiom Editor ---
+  const {
+    axiomSession,
+    pendingOptionDiagram,
+    startAxiomEditor,
+    captureAxiomSource,
+    requestAxiomOption,
+    cancelAxiomOption,
+    addAxiomOption,
+    removeAxiomOption,
+    saveAxiom,
+    cancelAxiomEditor,
+  } = useAxiomEditor({
+    atomicNodes, canvasNodes, wires, boundaryPorts, isBoundaryActive, selectedNodeIds, nodePhysicsData,
+    setCanvasNodes, setWires, setBoundaryPorts, setIsBoundaryActive, setAxioms, clearSelection,
+  });
+  const proofWorkspace = useProofWorkspace({ atomicNodes, definitions, axioms, theorems, setTheorems });
+  const {
+    theoremSession,
+    startTheoremEditor,
+    captureTheoremSource,
+    saveTheorem,
+    cancelTheoremEditor,
+  } = useTheoremEditor({
+    atomicNodes, definitions, canvasNodes, wires, boundaryPorts, isBoundaryActive, selectedNodeIds, nodePhysicsData,
+    setCanvasNodes, setWires, setBoundaryPorts, setIsBoundaryActive, setTheorems, clearSelection,
+    onTheoremSaved: proofWorkspace.startProof,
+  });
+  const definitionEditor = useDefinitionEditor({
+    atomicNodes, definitions, canvasNodes, wires, boundaryPorts, isBoundaryActive, nodePhysicsData,
+    setCanvasNodes, setWires, setBoundaryPorts, setIsBoundaryActive, clearSelection,
+  });
+  const { definitionSession } = definitionEditor;
+  // Axiom, theorem and definition editors take over the canvas and the boundary; a proof replaces the canvas
+  const isEditorActive = !!axiomSession || !!theoremSession || !!definitionSession || !!proofWorkspace.proofSession;
+  const reductionTrace = useReductionTrace({ title, nodePhysicsData, setCanvasNodes, setWires });
+  const {
+    pendingRewriteChoices,
+    applyRewrites,
+    offerRewriteChoices,
+    applyAxiomAtWire,
+    chooseRewrite,
+    cancelRewriteChoice,
+  } = useAxiomRewriting({
+    atomicNodes, canvasNodes, wires, axioms, nodePhysicsData, setCanvasNodes, setWires, setSelectedNodeIds,
+    onRewritesApplied: reductionTrace.recordRewrites, recordEdit,
+  });
+  const {
+    pendingTheoremMatches,
+    applyTheoremAtWire,
+    chooseTheorem,
+    cancelTheoremChoice,
+  } = useTheoremRewriting({
+    atomicNodes, definitions, canvasNodes, wires, theorems, nodePhysicsData, setCanvasNodes, setWires, setSelectedNodeIds, recordEdit,
+  });
+  const definitionFolding = useDefinitionFolding({
+    definitions, canvasNodes, wires, selectedNodeIds, nodePhysicsData, setCanvasNodes, setWires, setSelectedNodeIds, recordEdit,
+  });
+  // Definition pairs are rewritten by theorems, atomic active pairs by axioms
+  const handleWireDoubleClick = useCallback((wireId: string) => {
+    if (!applyTheoremAtWire(wireId)) applyAxiomAtWire(wireId);
+  }, [applyTheoremAtWire, applyAxiomAtWire]);
+  const normalizer = useNormalizer({
+    atomicNodes, canvasNodes, wires, axioms, nodePhysicsData, isSuspended: isEditorActive,
+    setCanvasNodes, setWires, applyRewrites, offerRewriteChoices, recordEdit,
+  });
+  // Result diagrams must share the boundary captured with the starting configuration
+  const isBoundaryFrozen = axiomSession?.stage === 'results' || theoremSession?.stage === 'target';
+
   const toggleBoundary = useCallback(() => {
+    if (isEditorActive) {
+      console.warn("Boundary is managed by the axiom or theorem editor.");
+      return;
+    }
+    recordEdit(isBoundaryActive ? 'Hide boundary' : 'Show boundary');
     setIsBoundaryActive(prev => {
       const becomingActive = !prev;
       if (!becomingActive) {
@@ -383,27 +593,32 @@ function App() {
       }
       return becomingActive;
     });
-  }, [boundaryPorts, setBoundaryPorts, setWires]);
+  }, [isEditorActive, isBoundaryActive, boundaryPorts, setBoundaryPorts, setWires, recordEdit]);
 
   const addBoundaryPort = useCallback((newPort: BoundaryPort) => {
     if (!isBoundaryActive) {
         console.warn("Attempted to add boundary port while boundary is inactive.");
         return;
     }
+    if (isBoundaryFrozen) {
+        console.warn("Boundary ports are frozen while authoring result diagrams.");
+        return;
+    }
+    recordEdit('Add boundary port');
     setBoundaryPorts(prev => [...prev, newPort]);
     console.log("Added boundary port:", newPort);
-  }, [isBoundaryActive, setBoundaryPorts]);
+  }, [isBoundaryActive, isBoundaryFrozen, setBoundaryPorts, recordEdit]);
 
   const deleteBoundaryPort = useCallback((portIdToDelete: string) => {
+    if (isBoundaryFrozen) {
+        console.warn("Boundary ports are frozen while authoring result diagrams.");
+        return;
+    }
+    recordEdit('Delete boundary port');
     setBoundaryPorts(prev => prev.filter(p => p.id !== portIdToDelete));
-    setWires(currentWires =>
-      currentWires.filter(w =>
-        !(w.sourceNodeId === 'BOUNDARY' && w.sourcePortIndex === portIdToDelete) &&
-        !(w.targetNodeId === 'BOUNDARY' && w.targetPortIndex === portIdToDelete)
-      )
-    );
+    setWires(currentWires => removeBoundaryPort(createNet([], currentWires), portIdToDelete).wires);
     console.log("Deleted boundary port and connected wires:", portIdToDelete);
-  }, [setBoundaryPorts, setWires]);
+  }, [isBoundaryFrozen, setBoundaryPorts, setWires, recordEdit]);
 
   // --- Definition Handlers ---
   const addDefinition = useCallback((name: string, color: string) => {
@@ -414,43 +629,15 @@ function App() {
 
     const { nodes, wires: internalWires, ports } = definitionCandidate;
 
-    // Transform BoundaryPorts to ExternalPorts, determining principal status
-    const externalPorts: ExternalPort[] = ports.map(boundaryPort => {
-        let isPrincipal = false;
-        // Find the wire connected to this boundary port
-        const connectedWire = internalWires.find(w => 
-            (w.sourceNodeId === 'BOUNDARY' && w.sourcePortIndex === boundaryPort.id) || 
-            (w.targetNodeId === 'BOUNDARY' && w.targetPortIndex === boundaryPort.id)
-        );
-
-        if (connectedWire) {
-            // Determine the internal node and port it connects to
-            const internalNodeId = connectedWire.sourceNodeId === 'BOUNDARY' ? connectedWire.targetNodeId : connectedWire.sourceNodeId;
-            const internalPortIndex = connectedWire.sourceNodeId === 'BOUNDARY' ? connectedWire.targetPortIndex : connectedWire.sourcePortIndex;
-            
-            // Ensure it's an internal node (not another boundary port) and a valid port index
-            if (internalNodeId !== 'BOUNDARY' && typeof internalPortIndex === 'number') {
-                const internalNodeInstance = nodes.find(n => n.instanceId === internalNodeId);
-                if (internalNodeInstance) {
-                    // Find the definition of the internal atomic node
-                    // Assuming definitions only contain atomic nodes for now
-                    const atomicDef = atomicNodes.find(def => def.id === internalNodeInstance.definitionId);
-                    if (atomicDef) {
-                        // Check if the internal port index falls within the principal range
-                        isPrincipal = internalPortIndex < atomicDef.principalPorts;
-                    }
-                }
-            }
-        }
+    // Nested instances must expand to atomic nodes eventually (an imported library can nest cyclically)
+    const cycle = findNestingCycle(nodes, definitions);
+    if (cycle) {
+        alert(`Error: Cannot create definition. Its nested definitions contain themselves: ${cycle.join(' → ')}`);
+        return;
+    }
 
-        return {
-            id: boundaryPort.id,
-            angle: boundaryPort.angle,
-            isPrincipal: isPrincipal // Set the determined status
-        };
-    });
-    // Sort external ports by angle for consistent ordering
-    externalPorts.sort((a, b) => a.angle - b.angle);
+    // Transform BoundaryPorts to ExternalPorts, determining principal status (through nested definitions too)
+    const externalPorts = inferExternalPorts(ports, internalWires, nodes, atomicNodes, definitions);
 
     const newDefinition: DefinitionDefinition = {
         id: `def_${Date.now()}_${Math.random().toString(16).slice(2)}`,
@@ -461,6 +648,7 @@ function App() {
         externalPorts,
     };
 
+    recordEdit(`Create definition ${name}`);
     setDefinitions(prev => [...prev, newDefinition]);
     console.log("Definition created:", newDefinition);
 
@@ -489,18 +677,115 @@ function App() {
     setDefinitionCandidate(null); // Clear candidate data
     setIsDefinitionModalOpen(false); // Close modal
 
-  }, [definitionCandidate, setDefinitions, setIsBoundaryActive, setBoundaryPorts, setWires, setCanvasNodes, atomicNodes]); // Added atomicNodes dependency
+  }, [definitionCandidate, setDefinitions, setIsBoundaryActive, setBoundaryPorts, setWires, setCanvasNodes, atomicNodes, definitions, recordEdit]); // Added atomicNodes dependency
+
+
+  // --- Library Deletion ---
+  const handleLibraryItemsRemoved = useCallback((refs: LibraryItemRef[]) => {
+    const { proofSession, closeProof } = proofWorkspace;
+    if (proofSession && refs.some(ref => ref.kind === 'theorem' && ref.id === proofSession.theoremId)) closeProof();
+    const { closeDefinitionEditor } = definitionEditor;
+    if (definitionSession && refs.some(ref => ref.kind === 'definition' && ref.id === definitionSession.definitionId)) closeDefinitionEditor();
+  }, [proofWorkspace, definitionEditor, definitionSession]);
+  const libraryChanges = useLibraryChanges({
+    atomicNodes, definitions, axioms, theorems, canvasNodes, wires, nodePhysicsData,
+    setAtomicNodes, setDefinitions, setAxioms, setTheorems, setCanvasNodes, setWires,
+    onItemsRemoved: handleLibraryItemsRemoved, recordEdit,
+  });
+  const { requestLibraryDelete, requestLibraryChange } = libraryChanges;
+  const deleteAtomicNode = useCallback((id: string) => requestLibraryDelete({ kind: 'atomic', id }), [requestLibraryDelete]);
+  const deleteDefinition = useCallback((id: string) => requestLibraryDelete({ kind: 'definition', id }), [requestLibraryDelete]);
+  const deleteAxiom = useCallback((id: string) => requestLibraryDelete({ kind: 'axiom', id }), [requestLibraryDelete]);
+  const deleteTheorem = useCallback((id: string) => requestLibraryDelete({ kind: 'theorem', id }), [requestLibraryDelete]);
+
+  // --- Undo/Redo ---
+  // Editors and proofs keep their own canvas; what they add to the library becomes one entry when they close
+  const historySessionLabel = axiomSession ? 'Add axiom'
+    : theoremSession ? 'Add theorem'
+    : definitionSession ? 'Edit definition'
+    : proofWorkspace.proofSession ? 'Prove theorem'
+    : null;
+  const { suspendHistory, undo: undoEdits, redo: redoEdits, goToEntry: goToHistoryEntry } = editHistory;
+  useEffect(() => {
+    suspendHistory(historySessionLabel);
+  }, [historySessionLabel, suspendHistory]);
+  // A definition edit is committed once the editor has put the user's canvas back and the history
+  // session has closed, so the change prunes that canvas and gets its own entry
+  const [proceedingDefinitionEdit, setProceedingDefinitionEdit] = useState<{ change: PendingLibraryChange; resolution: LibraryChangeResolution } | null>(null);
+  const { commitLibraryChange } = libraryChanges;
+  useEffect(() => {
+    if (!proceedingDefinitionEdit || definitionSession) return;
+    commitLibraryChange(proceedingDefinitionEdit.change, proceedingDefinitionEdit.resolution);
+    setProceedingDefinitionEdit(null);
+  }, [proceedingDefinitionEdit, definitionSession, commitLibraryChange]);
+  // The reduction snapshot and trace describe the canvas that undo or redo replaced
+  const { discardReduction } = normalizer;
+  const { clearTrace } = reductionTrace;
+  const forgetReduction = useCallback((isRestored: boolean) => {
+    if (!isRestored) return;
+    discardReduction();
+    clearTrace();
+  }, [discardReduction, clearTrace]);
+  const undo = useCallback((steps?: number) => forgetReduction(undoEdits(steps)), [undoEdits, forgetReduction]);
+  const redo = useCallback(() => forgetReduction(redoEdits()), [redoEdits, forgetReduction]);
+  const goToEntry = useCallback((entryId: string) => forgetReduction(goToHistoryEntry(entryId)), [goToHistoryEntry, forgetReduction]);
+  // An open choice or confirmation was computed for the current workspace, so it must be settled first
+  const isHistoryBlocked = isEditorActive || normalizer.isRunning || !!pendingRewriteChoices || !!pendingTheoremMatches
+    || !!libraryChanges.pendingLibraryChange || definitionFolding.isFoldChoiceOpen || isDefinitionModalOpen || !!pendingImport;
+  const historyBlockedReason = isEditorActive ? 'Undo is paused until the editor or proof is closed.'
+    : normalizer.isRunning ? 'Undo is paused while the reduction runs.'
+    : undefined;
+
+  useEffect(() => {
+    const handleKeyDown = (event: globalThis.KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') return;
+      const target = event.target as HTMLElement | null;
+      // Text fields keep their own undo
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      event.preventDefault();
+      if (isHistoryBlocked) return;
+      if (event.shiftKey) redo();
+      else undo();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isHistoryBlocked, undo, redo]);
+
+  // --- Axiom Handlers ---
+  // Only one editor may own the canvas at a time
+  const handleAddAxiomClick = useCallback(() => {
+    if (theoremSession || definitionSession || proofWorkspace.proofSession) {
+        alert("Error: Finish or cancel the theorem or definition editor or proof before adding an axiom.");
+        return;
+    }
+    startAxiomEditor();
+  }, [theoremSession, definitionSession, proofWorkspace.proofSession, startAxiomEditor]);
 
+  // --- Theorem Handlers ---
+  const handleAddTheoremClick = useCallback(() => {
+    if (axiomSession || definitionSession || proofWorkspace.proofSession) {
+        alert("Error: Finish or cancel the axiom or definition editor or proof before adding a theorem.");
+        return;
+    }
+    startTheoremEditor();
+  }, [axiomSession, definitionSession, proofWorkspace.proofSession, startTheoremEditor]);
 
-  const deleteDefinition = useCallback((definitionIdToDelete: string) => {
-    setDefinitions((prev) =>
-        prev.filter((def) => def.id !== definitionIdToDelete)
-    );
-    // Add logic here later to handle deleting instances of this definition on the canvas if needed
-  }, [setDefinitions]);
+  const handleProveTheorem = useCallback((theorem: TheoremDefinition) => {
+    if (axiomSession || theoremSession || definitionSession) {
+        alert("Error: Finish or cancel the current editor before proving a theorem.");
+        return;
+    }
+    // The main canvas is unmounted during the proof; keep the layout the user sees
+    setCanvasNodes(captureNodePositions(canvasNodes, nodePhysicsData.current));
+    proofWorkspace.startProof(theorem);
+  }, [axiomSession, theoremSession, definitionSession, canvasNodes, proofWorkspace]);
 
   const handleAddDefinitionClick = useCallback(() => {
     // --- Validation ---
+    if (isEditorActive) {
+        alert("Error: Finish or cancel the current editor or proof before adding a definition.");
+        return;
+    }
     if (!isBoundaryActive) {
         alert("Error: Boundary must be active to define a new node.");
         return;
@@ -510,47 +795,10 @@ function App() {
         return;
     }
 
-    const allPorts = new Map<NodeOrBoundaryId, Set<PortIndexOrId>>();
-    const connectedPorts = new Set<string>(); // Stores "nodeId:portIndexOrId"
-
-    // Populate allPorts with internal node ports
-    canvasNodes.forEach(node => {
-        const definition = atomicNodes.find(def => def.id === node.definitionId);
-        if (definition) {
-            const ports = new Set<PortIndexOrId>();
-            const totalPorts = definition.principalPorts + definition.nonPrincipalPorts;
-            for (let i = 0; i < totalPorts; i++) {
-                ports.add(i);
-            }
-            allPorts.set(node.instanceId, ports);
-        }
-    });
-
-    // Populate allPorts with boundary ports
-    const boundaryPortSet = new Set<PortIndexOrId>(boundaryPorts.map(p => p.id));
-    allPorts.set('BOUNDARY', boundaryPortSet);
-
-    // Mark connected ports based on wires
-    wires.forEach(wire => {
-        connectedPorts.add(`${wire.sourceNodeId}:${wire.sourcePortIndex}`);
-        connectedPorts.add(`${wire.targetNodeId}:${wire.targetPortIndex}`);
-    });
-
     // --- Check for dangling ports ---
-    let danglingPortFound = false;
-    let danglingDetails = "";
-
-    allPorts.forEach((ports, nodeId) => {
-        ports.forEach(portIndexOrId => {
-            if (!connectedPorts.has(`${nodeId}:${portIndexOrId}`)) {
-                danglingPortFound = true;
-                danglingDetails += `\n - Node/Boundary: ${nodeId}, Port: ${portIndexOrId}`;
-            }
-        });
-    });
-
-    if (danglingPortFound) {
-        alert(`Error: Cannot create definition. All internal and boundary ports must be connected. Dangling ports found:${danglingDetails}`);
+    const danglingPorts = findDanglingPorts(canvasNodes, wires, boundaryPorts, atomicNodes, definitions);
+    if (danglingPorts.length > 0) {
+        alert(`Error: Cannot create definition. All internal and boundary ports must be connected. Dangling ports found:\n - ${danglingPorts.join('\n - ')}`);
         return;
     }
 
@@ -564,7 +812,7 @@ function App() {
     });
     setIsDefinitionModalOpen(true);
 
-  }, [isBoundaryActive, boundaryPorts, canvasNodes, wires, atomicNodes]);
+  }, [isEditorActive, isBoundaryActive, boundaryPorts, canvasNodes, wires, atomicNodes, definitions]);
 
 
   const closeDefinitionModal = useCallback(() => {
@@ -572,256 +820,66 @@ function App() {
     setDefinitionCandidate(null); // Clear candidate data if modal is closed
   }, []);
 
-  const expandDefinitionInstance = useCallback((instanceIdToExpand: string) => {
-    console.log(`Attempting to expand definition instance: ${instanceIdToExpand}`);
-
-    // --- Find Instance and Definition ---
-    const instanceToExpand = canvasNodes.find(n => n.instanceId === instanceIdToExpand);
-    if (!instanceToExpand || !instanceToExpand.isDefinitionInstance) {
-        console.log("Expansion skipped: Instance not found or not a definition.");
+  const handleEditDefinition = useCallback((definition: DefinitionDefinition) => {
+    if (isEditorActive) {
+        alert("Error: Finish or cancel the current editor or proof before editing a definition.");
         return;
     }
-    const definition = definitions.find(d => d.id === instanceToExpand.definitionId);
-    if (!definition) {
-        console.error(`Expansion failed: Definition ${instanceToExpand.definitionId} not found.`);
+    definitionEditor.startDefinitionEditor(definition);
+  }, [isEditorActive, definitionEditor]);
+
+  // Dependents go through the dependents dialog; a changed port interface also lists the wires
+  // that no longer fit. The editor stays open until the user goes ahead, so cancelling returns
+  // to it. Deleting the dependents is only offered when the net or its interface changed
+  const handleSaveDefinitionEdit = useCallback((name: string, color: string) => {
+    const { saveDefinitionEdit, closeDefinitionEditor } = definitionEditor;
+    const edit = saveDefinitionEdit(name, color);
+    if (!edit) return;
+    const { previous, updated, canvas } = edit;
+    const changedPorts = findChangedPorts(previous.externalPorts, updated.externalPorts);
+    const isNetChanged = changedPorts.length > 0 || !areNetsIsomorphic(
+      { nodes: previous.internalNodes, wires: previous.internalWires },
+      { nodes: updated.internalNodes, wires: updated.internalWires }
+    );
+    const applyEdit = (library: Library): Library => ({
+        ...library,
+        definitions: library.definitions.map(d => (d.id === updated.id ? updated : d)),
+    });
+    const misfits = changedPorts.length > 0 ? describeMisfitWires(updated.id, changedPorts, canvas, libraryChanges.library) : [];
+    requestLibraryChange({ kind: 'definition', id: updated.id }, 'edit', applyEdit, {
+      details: misfits,
+      canCascade: isNetChanged,
+      onProceed: (change, resolution) => {
+        closeDefinitionEditor();
+        setProceedingDefinitionEdit({ change, resolution });
+      },
+    });
+  }, [definitionEditor, libraryChanges.library, requestLibraryChange]);
+
+  // Expands one level, or down to atomic nodes when expandFully is set
+  const expandDefinitionInstance = useCallback((instanceIdToExpand: string, expandFully = false) => {
+    console.log(`Attempting to expand definition instance: ${instanceIdToExpand}${expandFully ? ' (fully)' : ''}`);
+    const net = createNet(canvasNodes, wires, boundaryPorts);
+    let expanded: Net | null;
+    try {
+        expanded = expandInstance(net, instanceIdToExpand, definitions, atomicNodes, nodePhysicsData.current, expandFully);
+    } catch (error) {
+        // A definition whose ports no longer match the wires inside its parent cannot be spliced in
+        if (!(error instanceof NetInvariantError)) throw error;
+        console.log(`Expansion failed: ${error.message}`);
+        alert(`Error: Cannot expand the definition instance. ${error.message}`);
         return;
     }
-
-    // --- Get Physics Data ---
-    const physicsData = nodePhysicsData.current.get(instanceIdToExpand);
-    if (!physicsData) {
-        console.error(`Expansion failed: Physics data for ${instanceIdToExpand} not found.`);
-        // Optionally try to use instanceToExpand.x, y as fallback, but rotation is lost
-        alert("Cannot expand: Node physics data missing. Try moving the node slightly.");
+    if (!expanded) {
+        console.log("Expansion skipped: Instance not found, not a definition, its definition is missing, or its definitions nest cyclically.");
         return;
     }
-    const { position: parentPos, rotation: parentRot } = physicsData;
-
-    // --- Prepare State Updates ---
-    const newNodes: CanvasNodeInstance[] = [];
-    const nodesToRemove: string[] = [instanceIdToExpand];
-    const newWires: WireConnection[] = [];
-    const wiresToModify: { 
-        originalWireId: string; 
-        newSourceId?: NodeOrBoundaryId; 
-        newSourcePort?: PortIndexOrId;
-        newTargetId?: NodeOrBoundaryId;
-        newTargetPort?: PortIndexOrId;
-     }[] = [];
-    const wiresToRemove: string[] = [];
-
-    // Indentify wires connected externally to the instance being expanded
-    const externalWires = wires.filter(w => w.sourceNodeId === instanceIdToExpand || w.targetNodeId === instanceIdToExpand);
-
-    const internalInstanceIdMap = new Map<string, string>(); // Map definition internal ID -> new canvas instance ID
-
-    // --- 1. Create New Instances for Internal Nodes ---
-    console.log(`[Expand ${instanceIdToExpand}] Creating internal node instances...`);
-    definition.internalNodes.forEach(internalNode => {
-        const newInstanceId = `inst_${Date.now()}_${Math.random().toString(16).slice(2)}`;
-        internalInstanceIdMap.set(internalNode.instanceId, newInstanceId); // Store mapping
-
-        // Calculate world position for the new node
-        const relativePos = new THREE.Vector3(internalNode.x, internalNode.y, 0);
-        const worldOffset = relativePos.clone().applyQuaternion(parentRot);
-        const newWorldPos = new THREE.Vector3().addVectors(parentPos, worldOffset);
-
-        // Check if the internal node is atomic or another definition (recursive expansion not handled yet)
-        const internalNodeDef = atomicNodes.find(ad => ad.id === internalNode.definitionId);
-        if (!internalNodeDef) {
-             console.warn(`Internal node ${internalNode.instanceId} definition ${internalNode.definitionId} not found or is not atomic. Skipping.`);
-             // TODO: Handle nested definitions later if needed
-             return;
-        }
-
-        newNodes.push({
-            instanceId: newInstanceId,
-            definitionId: internalNode.definitionId, // Uses the atomic definition ID
-            x: newWorldPos.x,
-            y: newWorldPos.y,
-            isDefinitionInstance: false, // These are atomic instances now
-        });
-    });
-    console.log(`[Expand ${instanceIdToExpand}] Internal instance map:`, internalInstanceIdMap);
-
-    // --- 2. Process Wires --- 
-    // Start with internal wires needing removal
-    wiresToRemove.push(...definition.internalWires.map(w => w.id));
-
-    // Process external wires to determine modifications or new boundary-boundary connections
-    externalWires.forEach(externalWire => {
-         const connectedPortIndex = externalWire.sourceNodeId === instanceIdToExpand 
-             ? externalWire.sourcePortIndex
-             : externalWire.targetPortIndex;
-
-        if (typeof connectedPortIndex !== 'number') return; // Should not happen for external wires to definition
-
-        const externalPort = definition.externalPorts[connectedPortIndex];
-        if (!externalPort) {
-            console.warn(`[Expand ${instanceIdToExpand}] Could not find external port definition for index ${connectedPortIndex}`);
-            return;
-        }
-
-        // Find the internal wire connected to this external port's corresponding boundary port
-        const internalWire = definition.internalWires.find(iw => 
-            (iw.sourceNodeId === 'BOUNDARY' && iw.sourcePortIndex === externalPort.id) ||
-            (iw.targetNodeId === 'BOUNDARY' && iw.targetPortIndex === externalPort.id)
-        );
-
-        if (internalWire) {
-            const internalNodeOriginalId = internalWire.sourceNodeId === 'BOUNDARY' 
-                ? internalWire.targetNodeId 
-                : internalWire.sourceNodeId;
-            const internalPortIndex = internalWire.sourceNodeId === 'BOUNDARY' 
-                ? internalWire.targetPortIndex 
-                : internalWire.sourcePortIndex;
-            
-            const newInternalInstanceId = internalInstanceIdMap.get(internalNodeOriginalId as string);
-
-            if (newInternalInstanceId !== undefined && typeof internalPortIndex === 'number') {
-                // Found connection: Mark the externalWire for modification, not removal
-                const modifyIndex = wiresToRemove.indexOf(externalWire.id);
-                if (modifyIndex > -1) wiresToRemove.splice(modifyIndex, 1);
-
-                const modification = {
-                    originalWireId: externalWire.id,
-                    ...(externalWire.sourceNodeId === instanceIdToExpand
-                        ? { newSourceId: newInternalInstanceId, newSourcePort: internalPortIndex }
-                        : { newTargetId: newInternalInstanceId, newTargetPort: internalPortIndex })
-                };
-                wiresToModify.push(modification);
-            } else {
-                // This external wire connects to a boundary port that isn't connected internally? 
-                // Or connected to a non-atomic node? Keep it marked for removal.
-                console.warn(`[Expand ${instanceIdToExpand}] External wire ${externalWire.id} connects to boundary port ${externalPort.id}, but no valid internal connection found.`);
-                if (!wiresToRemove.includes(externalWire.id)) wiresToRemove.push(externalWire.id); // Ensure removal
-            }
-        } else {
-             // Handle cases where boundary ports were connected directly (Boundary <-> Boundary internal wires)
-             const boundaryWire = definition.internalWires.find(iw => 
-                 iw.sourceNodeId === 'BOUNDARY' && iw.targetNodeId === 'BOUNDARY' && 
-                 (iw.sourcePortIndex === externalPort.id || iw.targetPortIndex === externalPort.id)
-             );
-             if (boundaryWire) {
-                 // This external wire corresponds to one side of a boundary-to-boundary connection.
-                 // It should remain marked for removal, and a new wire will be created later.
-                 // Find the *other* external wire involved.
-                 const otherBoundaryPortId = boundaryWire.sourcePortIndex === externalPort.id ? boundaryWire.targetPortIndex : boundaryWire.sourcePortIndex;
-                 const otherExternalPortIndex = definition.externalPorts.findIndex(p => p.id === otherBoundaryPortId);
-                 if (otherExternalPortIndex === -1) return; // Should find the other port
-
-                 const otherExternalWire = externalWires.find(w => 
-                    (w.sourceNodeId === instanceIdToExpand && w.sourcePortIndex === otherExternalPortIndex) ||
-                    (w.targetNodeId === instanceIdToExpand && w.targetPortIndex === otherExternalPortIndex)
-                 );
-
-                 if (otherExternalWire && externalWire.id < otherExternalWire.id) { // Process each pair only once
-                     const endpointA_NodeId = externalWire.sourceNodeId === instanceIdToExpand ? externalWire.targetNodeId : externalWire.sourceNodeId;
-                     const endpointA_Port = externalWire.sourceNodeId === instanceIdToExpand ? externalWire.targetPortIndex : externalWire.sourcePortIndex;
-                     const endpointB_NodeId = otherExternalWire.sourceNodeId === instanceIdToExpand ? otherExternalWire.targetNodeId : otherExternalWire.sourceNodeId;
-                     const endpointB_Port = otherExternalWire.sourceNodeId === instanceIdToExpand ? otherExternalWire.targetPortIndex : otherExternalWire.sourcePortIndex;
-
-                     newWires.push({
-                        id: `wire_${Date.now()}_${Math.random().toString(16).slice(2)}`,
-                        sourceNodeId: endpointA_NodeId,
-                        sourcePortIndex: endpointA_Port,
-                        targetNodeId: endpointB_NodeId,
-                        targetPortIndex: endpointB_Port,
-                        targetLength: null, // Recalculate later
-                    });
-
-                    // Ensure BOTH original external wires are marked for removal
-                    if (!wiresToRemove.includes(externalWire.id)) wiresToRemove.push(externalWire.id);
-                    if (otherExternalWire && !wiresToRemove.includes(otherExternalWire.id)) wiresToRemove.push(otherExternalWire.id);
-                 }
-             } else {
-                // External wire connected to a boundary port with no internal connection? Remove it.
-                console.warn(`[Expand ${instanceIdToExpand}] External wire ${externalWire.id} connects to boundary port ${externalPort.id}, which has no internal connection.`);
-                if (!wiresToRemove.includes(externalWire.id)) wiresToRemove.push(externalWire.id); // Ensure removal
-             }
-        }
-    });
-
-    // --- Add NEW wires for internal connections --- 
-    console.log(`[Expand ${instanceIdToExpand}] Creating new internal wires...`);
-    definition.internalWires.forEach(internalWire => {
-        // Only create new wires for connections BETWEEN internal nodes
-        if (internalWire.sourceNodeId !== 'BOUNDARY' && internalWire.targetNodeId !== 'BOUNDARY') {
-            const newSourceId = internalInstanceIdMap.get(internalWire.sourceNodeId as string);
-            const newTargetId = internalInstanceIdMap.get(internalWire.targetNodeId as string);
-
-            if (newSourceId && newTargetId) {
-                 // Calculate initial length based on new node positions (best effort)
-                 const sourceInstance = newNodes.find(n => n.instanceId === newSourceId);
-                 const targetInstance = newNodes.find(n => n.instanceId === newTargetId);
-                 const sourceDef = sourceInstance ? atomicNodes.find(d => d.id === sourceInstance.definitionId) : undefined;
-                 const targetDef = targetInstance ? atomicNodes.find(d => d.id === targetInstance.definitionId) : undefined;
-                 let initialLength: number | null = null;
-
-                 if (sourceInstance && targetInstance && sourceDef && targetDef && typeof internalWire.sourcePortIndex === 'number' && typeof internalWire.targetPortIndex === 'number') {
-                     const sourceLocalOffset = getPortBoundaryLocalOffset(sourceDef, internalWire.sourcePortIndex);
-                     const targetLocalOffset = getPortBoundaryLocalOffset(targetDef, internalWire.targetPortIndex);
-                     // Assume initial rotation is identity for new nodes for length calc
-                     const sourcePos = new THREE.Vector3(sourceInstance.x, sourceInstance.y, 0).add(sourceLocalOffset);
-                     const targetPos = new THREE.Vector3(targetInstance.x, targetInstance.y, 0).add(targetLocalOffset);
-                     initialLength = sourcePos.distanceTo(targetPos);
-                 }
-
-                newWires.push({
-                    id: `wire_${Date.now()}_${Math.random().toString(16).slice(2)}`,
-                    sourceNodeId: newSourceId,
-                    sourcePortIndex: internalWire.sourcePortIndex,
-                    targetNodeId: newTargetId,
-                    targetPortIndex: internalWire.targetPortIndex,
-                    targetLength: initialLength, // Calculate initial length if possible
-                });
-            } else {
-                 console.warn(`[Expand ${instanceIdToExpand}] Could not map internal wire endpoints for wire ${internalWire.id}. Source: ${internalWire.sourceNodeId}=>${newSourceId}, Target: ${internalWire.targetNodeId}=>${newTargetId}`);
-             }
-        }
-    });
-
-    console.log(`[Expand ${instanceIdToExpand}] Wires to remove FINAL:`, wiresToRemove);
-    console.log(`[Expand ${instanceIdToExpand}] Wires to modify:`, wiresToModify);
-    console.log(`[Expand ${instanceIdToExpand}] New boundary-to-boundary wires:`, newWires);
-
-    // --- 3. Apply State Updates --- 
-    console.log(`[Expand ${instanceIdToExpand}] BEFORE state update. Nodes to remove:`, nodesToRemove, "New nodes:", newNodes.length, "Wires to remove:", wiresToRemove.length, "Wires to modify:", wiresToModify.length, "New wires:", newWires.length);
-    setCanvasNodes(prevNodes => [
-        ...prevNodes.filter(n => !nodesToRemove.includes(n.instanceId)),
-        ...newNodes
-    ]);
-    setWires(prevWires => {
-        // 1. Filter out wires marked for complete removal
-        let updatedWires = prevWires.filter(w => !wiresToRemove.includes(w.id));
-        
-        // 2. Modify wires connecting to the expanded node
-        updatedWires = updatedWires.map(w => {
-            const modification = wiresToModify.find(m => m.originalWireId === w.id);
-            if (modification) {
-                // Create a new wire object with the modified properties
-                return { 
-                    ...w, 
-                    ...(modification.newSourceId && { sourceNodeId: modification.newSourceId }),
-                    ...(modification.newSourcePort !== undefined && { sourcePortIndex: modification.newSourcePort }),
-                    ...(modification.newTargetId && { targetNodeId: modification.newTargetId }),
-                    ...(modification.newTargetPort !== undefined && { targetPortIndex: modification.newTargetPort }),
-                 };
-            }
-            return w;
-        });
-        // 3. Add newly created wires
-        return [...updatedWires, ...newWires]; // Add new wires immediately again
-    });
-    console.log(`[Expand ${instanceIdToExpand}] AFTER state update.`);
-
-    // Optional: Clean up physics data ref for the removed node
-    console.log(`[Expand ${instanceIdToExpand}] Cleaning up physics data ref.`);
+    recordEdit(expandFully ? 'Expand definition fully' : 'Expand definition');
+    setCanvasNodes(expanded.nodes);
+    setWires(expanded.wires);
     nodePhysicsData.current.delete(instanceIdToExpand);
-
     console.log("Expansion complete.");
-
-  }, [canvasNodes, definitions, wires, setCanvasNodes, setWires, atomicNodes]); // Dependencies
+  }, [canvasNodes, definitions, wires, boundaryPorts, setCanvasNodes, setWires, atomicNodes, recordEdit]);
 
   return (
     <div id="app-container">
@@ -841,12 +899,53 @@ function App() {
             {title}
           </h1>
         )}
+        <ReductionControls
+          isRunning={normalizer.isRunning}
+          isDisabled={isEditorActive || !!pendingRewriteChoices || !!pendingTheoremMatches}
+          hasSnapshot={normalizer.hasSnapshot}
+          interactions={normalizer.runStats.interactions}
+          strategy={normalizer.strategy}
+          statusMessage={normalizer.statusMessage}
+          isPanelOpen={isReductionPanelOpen}
+          onStep={normalizer.stepReduction}
+          onRun={normalizer.runReduction}
+          onPause={normalizer.pauseReduction}
+          onReset={normalizer.resetReduction}
+          onSetStrategy={normalizer.setStrategy}
+          onTogglePanel={() => setIsReductionPanelOpen(prev => !prev)}
+        />
         <div className="top-bar-controls">
-          <button onClick={handleImportClick} className="control-button">Import</button>
+          <TemplateMenu templates={WORKSPACE_TEMPLATES} onSelect={handleLoadTemplate} disabled={isEditorActive} />
+          <button onClick={handleImportClick} className="control-button" disabled={isEditorActive}>Import</button>
           <button onClick={handleExport} className="control-button">Export</button>
-          <button onClick={toggleBoundary} className="control-button">
+          <button onClick={() => compareInputRef.current?.click()} className="control-button" disabled={isEditorActive}>
+            Compare with File
+          </button>
+          <button onClick={toggleBoundary} className="control-button" disabled={isEditorActive}>
             {isBoundaryActive ? 'Hide Boundary' : 'Show Boundary'}
           </button>
+          <button
+            onClick={definitionFolding.startFold}
+            className="control-button"
+            disabled={isEditorActive || selectedNodeIds.length === 0}
+            title="Replace the selected nodes with an instance of a matching definition"
+          >
+            Fold Selection
+          </button>
+          <button
+            onClick={() => setIsHistoryPanelOpen(prev => !prev)}
+            className={`control-button ${isHistoryPanelOpen ? 'active' : ''}`}
+            title="Undo (Ctrl+Z) and redo (Ctrl+Shift+Z) workspace edits"
+          >
+            History
+          </button>
+          <button
+            onClick={() => setIsAnalysisPanelOpen(prev => !prev)}
+            className={`control-button ${isAnalysisPanelOpen ? 'active' : ''}`}
+            disabled={isEditorActive}
+          >
+            Analyze
+          </button>
         </div>
         {/* Hidden File Input */}
         <input
@@ -856,6 +955,13 @@ function App() {
           accept=".json"
           style={{ display: 'none' }}
         />
+        <input
+          type="file"
+          ref={compareInputRef}
+          onChange={handleCompareFileChange}
+          accept=".json"
+          style={{ display: 'none' }}
+        />
       </div>
       
       <div id="main-content">
@@ -865,33 +971,154 @@ function App() {
           onDeleteAtomicNode={deleteAtomicNode}
           definitions={definitions} // Pass definitions
           onDeleteDefinition={deleteDefinition} // Pass delete handler
+          onEditDefinition={handleEditDefinition}
+          axioms={axioms}
+          onDeleteAxiom={deleteAxiom}
+          onAddAxiomClick={handleAddAxiomClick}
+          theorems={theorems}
+          onDeleteTheorem={deleteTheorem}
+          onAddTheoremClick={handleAddTheoremClick}
+          onProveTheorem={handleProveTheorem}
           activeTab={activeSidebarTab} // Pass active tab
           onSetTab={setActiveSidebarTab} // Pass tab setter
           onAddDefinitionClick={handleAddDefinitionClick} // Pass add definition handler
         />
-        <CanvasArea
-          atomicNodeDefs={atomicNodes}
-          definitionDefs={definitions} // Pass definitions state
-          canvasNodes={canvasNodes}
-          wires={wires}
-          drawingWire={drawingWire}
-          onAddNode={addNodeToCanvas}
-          onDeleteNode={deleteCanvasNode}
-          onStartWire={startWire}
-          onUpdateWireEnd={updateWireEnd}
-          onFinishWire={finishWire}
-          onDeleteWire={deleteWire}
-          onUpdateWireLength={handleUpdateWireLength}
-          onUpdateNodePhysicsData={updateNodePhysicsData}
-          isBoundaryActive={isBoundaryActive}
-          boundaryPorts={boundaryPorts}
-          addBoundaryPort={addBoundaryPort}
-          deleteBoundaryPort={deleteBoundaryPort}
-          setWires={setWires}
-          onAddDefinitionClick={handleAddDefinitionClick} // Pass handler
-          onExpandDefinition={expandDefinitionInstance} // Pass expansion handler
-          onUpdateInstanceMetadata={updateInstanceMetadata} // Pass metadata update handler
-        />
+        <div className="canvas-column">
+          {proofWorkspace.proofSession && proofWorkspace.provingTheorem ? (
+            <ProofWorkspace
+              theorem={proofWorkspace.provingTheorem}
+              session={proofWorkspace.proofSession}
+              atomicNodes={atomicNodes}
+              definitions={definitions}
+              boundaryPorts={proofWorkspace.proofBoundaryPorts}
+              isProofComplete={proofWorkspace.isProofComplete}
+              onApplyRuleAtWire={proofWorkspace.applyRuleAtWire}
+              onExpandDefinition={proofWorkspace.expandProofDefinition}
+              onUpdatePhysicsData={proofWorkspace.updateProofPhysicsData}
+              onMarkProved={proofWorkspace.markTheoremProved}
+              onClose={proofWorkspace.closeProof}
+              isSearching={proofWorkspace.proofSearch.isSearching}
+              searchStatus={proofWorkspace.proofSearch.searchStatus}
+              searchLimits={proofWorkspace.proofSearch.searchLimits}
+              onSetSearchLimits={proofWorkspace.proofSearch.setSearchLimits}
+              onStartSearch={proofWorkspace.proofSearch.startSearch}
+              onCancelSearch={proofWorkspace.proofSearch.cancelSearch}
+            />
+          ) : (
+            <>
+              <CanvasArea
+                atomicNodeDefs={atomicNodes}
+                definitionDefs={definitions} // Pass definitions state
+                canvasNodes={canvasNodes}
+                wires={wires}
+                drawingWire={drawingWire}
+                onAddNode={addNodeToCanvas}
+                onDeleteNode={deleteCanvasNode}
+                onStartWire={startWire}
+                onUpdateWireEnd={updateWireEnd}
+                onFinishWire={finishWire}
+                onDeleteWire={deleteWire}
+                onUpdateWireLength={handleUpdateWireLength}
+                onUpdateNodePhysicsData={updateNodePhysicsData}
+                isBoundaryActive={isBoundaryActive}
+                boundaryPorts={boundaryPorts}
+                addBoundaryPort={addBoundaryPort}
+                deleteBoundaryPort={deleteBoundaryPort}
+                onAddDefinitionClick={handleAddDefinitionClick} // Pass handler
+                onExpandDefinition={expandDefinitionInstance} // Pass expansion handler
+                onUpdateInstanceMetadata={updateInstanceMetadata} // Pass metadata update handler
+                selectedNodeIds={selectedNodeIds}
+                mismatchedNodeIds={isEditorActive ? undefined : netComparison.comparison?.mismatchedNodeIds}
+                onToggleNodeSelection={toggleNodeSelection}
+                onWireDoubleClick={isEditorActive ? undefined : handleWireDoubleClick}
+                allowMetadataExpressions={axiomSession?.stage === 'results'}
+              />
+              <TraceTimeline
+                trace={reductionTrace.trace}
+                cursor={reductionTrace.traceCursor}
+                axioms={axioms}
+                isDisabled={isEditorActive || normalizer.isRunning}
+                onScrub={reductionTrace.scrubTrace}
+                onExport={reductionTrace.exportTrace}
+                onImport={reductionTrace.importTrace}
+                onClear={reductionTrace.clearTrace}
+              />
+            </>
+          )}
+        </div>
+        {axiomSession && (
+          <AxiomEditorPanel
+            session={axiomSession}
+            atomicNodes={atomicNodes}
+            canvasNodes={canvasNodes}
+            onCaptureSource={captureAxiomSource}
+            onRequestOption={requestAxiomOption}
+            onRemoveOption={removeAxiomOption}
+            onSave={saveAxiom}
+            onCancel={cancelAxiomEditor}
+          />
+        )}
+        {definitionSession && definitionEditor.editingDefinition && (
+          <DefinitionEditorPanel
+            definition={definitionEditor.editingDefinition}
+            onSave={handleSaveDefinitionEdit}
+            onCancel={definitionEditor.closeDefinitionEditor}
+          />
+        )}
+        {theoremSession && (
+          <TheoremEditorPanel
+            session={theoremSession}
+            atomicNodes={atomicNodes}
+            definitions={definitions}
+            canvasNodes={canvasNodes}
+            onCaptureSource={captureTheoremSource}
+            onSave={saveTheorem}
+            onCancel={cancelTheoremEditor}
+          />
+        )}
+        {isAnalysisPanelOpen && !isEditorActive && (
+          <AnalysisPanel
+            atomicNodes={atomicNodes}
+            axioms={axioms}
+            onClose={() => setIsAnalysisPanelOpen(false)}
+          />
+        )}
+        {netComparison.comparison && netComparison.comparedFileName && !isEditorActive && (
+          <NetComparisonPanel
+            fileName={netComparison.comparedFileName}
+            comparison={netComparison.comparison}
+            onClose={netComparison.clearComparison}
+          />
+        )}
+        {isHistoryPanelOpen && (
+          <HistoryPanel
+            undoStack={editHistory.undoStack}
+            redoStack={editHistory.redoStack}
+            isDisabled={isHistoryBlocked}
+            disabledReason={historyBlockedReason}
+            onUndo={undo}
+            onRedo={redo}
+            onGoToEntry={goToEntry}
+            onClose={() => setIsHistoryPanelOpen(false)}
+          />
+        )}
+        {isReductionPanelOpen && (
+          <ReductionPanel
+            stats={normalizer.runStats}
+            nodeCount={canvasNodes.length}
+            strategy={normalizer.strategy}
+            boundaryPorts={boundaryPorts}
+            rootPortId={normalizer.rootPortId}
+            seed={normalizer.seed}
+            stepLimit={normalizer.stepLimit}
+            policy={normalizer.policy}
+            onSetRootPort={normalizer.setRootPortId}
+            onSetSeed={normalizer.setSeed}
+            onSetStepLimit={normalizer.setStepLimit}
+            onSetPolicy={normalizer.setPolicy}
+            onClose={() => setIsReductionPanelOpen(false)}
+          />
+        )}
       </div>
 
       {/* Definition Creation Modal */} 
@@ -900,6 +1127,71 @@ function App() {
               <DefinitionForm onSubmit={addDefinition} />
           </Modal>
       )}
+
+      {/* Axiom Result Option Modal */}
+      {pendingOptionDiagram && (
+          <Modal title="Add Result Option" onClose={cancelAxiomOption}>
+              <AxiomOptionForm onSubmit={addAxiomOption} />
+          </Modal>
+      )}
+
+      {/* Rewrite Choice Modal */}
+      {pendingRewriteChoices && (
+          <Modal title="Choose Rewrite" onClose={cancelRewriteChoice}>
+              <RewriteChooserForm choices={pendingRewriteChoices} onChoose={chooseRewrite} />
+          </Modal>
+      )}
+
+      {/* Library Change Modal */}
+      {libraryChanges.pendingLibraryChange && (
+          <Modal title="Dependent Items" onClose={libraryChanges.cancelLibraryChange}>
+              <LibraryChangeForm
+                change={libraryChanges.pendingLibraryChange}
+                library={libraryChanges.library}
+                onResolve={libraryChanges.resolveLibraryChange}
+                onCancel={libraryChanges.cancelLibraryChange}
+              />
+          </Modal>
+      )}
+
+      {/* Theorem Choice Modal */}
+      {pendingTheoremMatches && (
+          <Modal title="Choose Theorem" onClose={cancelTheoremChoice}>
+              <RewriteChooserForm
+                choices={pendingTheoremMatches.map(match => ({ key: match.theorem.id, label: match.theorem.name }))}
+                onChoose={chooseTheorem}
+              />
+          </Modal>
+      )}
+
+      {/* Fold Definition Choice Modal */}
+      {definitionFolding.isFoldChoiceOpen && (
+          <Modal title="Fold Into Definition" onClose={definitionFolding.cancelFold}>
+              <RewriteChooserForm
+                choices={definitions.map(def => ({ key: def.id, label: def.name }))}
+                onChoose={definitionFolding.foldIntoDefinition}
+                prompt="Fold the selection into:"
+              />
+          </Modal>
+      )}
+
+      {/* Import Report Modal */}
+      {pendingImport && (
+          <Modal title="Import Problems" onClose={() => setPendingImport(null)}>
+              <ImportReportForm
+                validation={pendingImport}
+                onLoadRepaired={loadRepairedImport}
+                onCancel={() => setPendingImport(null)}
+              />
+          </Modal>
+      )}
+
+      {/* Proof Rewrite Choice Modal */}
+      {proofWorkspace.pendingProofChoices && (
+          <Modal title="Choose Rewrite" onClose={proofWorkspace.cancelProofChoice}>
+              <RewriteChooserForm choices={proofWorkspace.pendingProofChoices.choices} onChoose={proofWorkspace.chooseProofRewrite} />
+          </Modal>
+      )}
     </div>
   )
 }
@@ -0,0 +1,60 @@
+import React, { useMemo, useState } from 'react';
+import { AtomicNodeDefinition, AxiomDefinition } from '../types';
+import { AnalysisIssue, AnalysisIssueKind, analyzeRuleCoverage } from '../utils/ruleCoverage';
+import { analyzeCriticalPairs } from '../utils/criticalPairs';
+import './EditorPanel.css';
+
+interface AnalysisPanelProps {
+  atomicNodes: AtomicNodeDefinition[];
+  axioms: AxiomDefinition[];
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<AnalysisIssueKind, string> = {
+  'missing': 'Missing',
+  'overlap': 'Overlap',
+  'asymmetric': 'Asymmetric',
+  'critical-pair': 'Critical pair',
+  'critical-pair-undetermined': 'Critical pair',
+};
+
+const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ atomicNodes, axioms, onClose }) => {
+  const [showWarnings, setShowWarnings] = useState(true);
+
+  const issues: AnalysisIssue[] = useMemo(() => [
+    ...analyzeRuleCoverage(atomicNodes, axioms),
+    ...analyzeCriticalPairs(atomicNodes, axioms),
+  ], [atomicNodes, axioms]);
+
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+  const warningCount = issues.length - errorCount;
+  const visibleIssues = showWarnings ? issues : issues.filter(issue => issue.severity === 'error');
+
+  return (
+    <div className="editor-panel analysis-panel">
+      <h3>Axiom Set Analysis</h3>
+      <p className="editor-panel-hint">
+        {issues.length === 0
+          ? 'Every principal pairing has exactly one rule and all critical pairs are joinable.'
+          : `${errorCount} error${errorCount === 1 ? '' : 's'}, ${warningCount} warning${warningCount === 1 ? '' : 's'}.`}
+      </p>
+      <label className="editor-panel-setting">
+        Show warnings
+        <input type="checkbox" checked={showWarnings} onChange={(e) => setShowWarnings(e.target.checked)} />
+      </label>
+      {visibleIssues.length > 0 && (
+        <ul className="editor-panel-list">
+          {visibleIssues.map((issue, index) => (
+            <li key={index} className={`analysis-issue analysis-${issue.severity}`}>
+              <strong>{KIND_LABELS[issue.kind]}</strong>
+              <span>{issue.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      <button onClick={onClose} className="control-button">Close</button>
+    </div>
+  );
+};
+
+export default AnalysisPanel;
@@ -0,0 +1,33 @@
+import React from 'react';
+import { AtomicNodeDefinition, AxiomDefinition } from '../types';
+import './AxiomDisplay.css';
+
+interface AxiomDisplayProps {
+  axiom: AxiomDefinition;
+  atomicNodes: AtomicNodeDefinition[];
+}
+
+const AxiomDisplay: React.FC<AxiomDisplayProps> = ({ axiom, atomicNodes }) => {
+  const nodeName = (definitionId: string) =>
+    atomicNodes.find(def => def.id === definitionId)?.name ?? '?';
+
+  const leftName = nodeName(axiom.source.leftNode.definitionId);
+  const rightName = nodeName(axiom.source.rightNode.definitionId);
+
+  return (
+    <div className="axiom-display">
+      <div className="axiom-display-name">{axiom.name}</div>
+      <div className="axiom-display-pair">{leftName} ⋈ {rightName}</div>
+      <ul className="axiom-display-options">
+        {axiom.options.map(option => (
+          <li key={option.id}>
+            <span className="axiom-option-label">{option.label}</span>
+            {option.guard.trim() && <code className="axiom-option-guard">{option.guard}</code>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default AxiomDisplay;
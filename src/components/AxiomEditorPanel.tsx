@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { AtomicNodeDefinition, AxiomEditorSession, CanvasNodeInstance } from '../types';
+import './EditorPanel.css';
+
+interface AxiomEditorPanelProps {
+  session: AxiomEditorSession;
+  atomicNodes: AtomicNodeDefinition[];
+  canvasNodes: CanvasNodeInstance[];
+  onCaptureSource: () => void;
+  onRequestOption: () => void;
+  onRemoveOption: (optionId: string) => void;
+  onSave: (name: string) => void;
+  onCancel: () => void;
+}
+
+const AxiomEditorPanel: React.FC<AxiomEditorPanelProps> = ({
+  session,
+  atomicNodes,
+  canvasNodes,
+  onCaptureSource,
+  onRequestOption,
+  onRemoveOption,
+  onSave,
+  onCancel,
+}) => {
+  const [name, setName] = useState('');
+
+  // During the source stage the pair is on the canvas; afterwards it lives in the session
+  const pairNames = [session.source?.leftNode, session.source?.rightNode].map((node, i) => {
+    const instance = node ?? canvasNodes.find(n => n.instanceId === (i === 0 ? session.leftNodeId : session.rightNodeId));
+    return atomicNodes.find(def => def.id === instance?.definitionId)?.name ?? '?';
+  });
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      alert('Axiom name cannot be empty.');
+      return;
+    }
+    onSave(name.trim());
+  };
+
+  return (
+    <div className="editor-panel">
+      <h3>Axiom: {pairNames[0]} ⋈ {pairNames[1]}</h3>
+
+      {session.stage === 'source' && (
+        <>
+          <p className="editor-panel-hint">
+            Click the dashed circle to add boundary ports, then connect every remaining port of the pair to one.
+          </p>
+          <button onClick={onCaptureSource} className="control-button">Capture Starting Configuration</button>
+        </>
+      )}
+
+      {session.stage === 'results' && (
+        <>
+          <p className="editor-panel-hint">
+            Build a result diagram against the same {session.externalPorts.length} boundary ports.
+            Boundary ports may be wired to each other.
+          </p>
+          <button onClick={onRequestOption} className="control-button">Add Result Option</button>
+          <ul className="editor-panel-list">
+            {session.options.map(option => (
+              <li key={option.id}>
+                <span>{option.label}</span>
+                {option.guard.trim() && <code>{option.guard}</code>}
+                <button className="delete-node-button" onClick={() => onRemoveOption(option.id)} title={`Remove ${option.label}`}>×</button>
+              </li>
+            ))}
+          </ul>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Axiom name"
+            className="editor-panel-input"
+          />
+          <button onClick={handleSave} className="control-button" disabled={session.options.length === 0}>Save Axiom</button>
+        </>
+      )}
+
+      <button onClick={onCancel} className="control-button">Cancel</button>
+    </div>
+  );
+};
+
+export default AxiomEditorPanel;
@@ -0,0 +1,58 @@
+import React, { useState, FormEvent } from 'react';
+import { validateGuardExpression } from '../utils/guardExpressionParser';
+import './AtomicNodeForm.css'; // Reuse styles for simplicity
+
+interface AxiomOptionFormProps {
+  onSubmit: (label: string, guard: string) => void;
+}
+
+const AxiomOptionForm: React.FC<AxiomOptionFormProps> = ({ onSubmit }) => {
+  const [label, setLabel] = useState('');
+  const [guard, setGuard] = useState('');
+  const guardError = validateGuardExpression(guard);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!label.trim()) {
+      alert('Option label cannot be empty.');
+      return;
+    }
+    if (guardError) {
+      alert(`Invalid guard: ${guardError}`);
+      return;
+    }
+    onSubmit(label.trim(), guard.trim());
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="atomic-node-form axiom-option-form">
+      <div className="form-group">
+        <label htmlFor="option-label">Label:</label>
+        <input
+          id="option-label"
+          type="text"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          required
+          autoFocus
+        />
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="option-guard">Guard (leave empty to always apply):</label>
+        <input
+          id="option-guard"
+          type="text"
+          value={guard}
+          onChange={(e) => setGuard(e.target.value)}
+          placeholder="left.label == right.label"
+        />
+        {guardError && <span className="form-error">{guardError}</span>}
+      </div>
+
+      <button type="submit" className="submit-button">Add Option</button>
+    </form>
+  );
+};
+
+export default AxiomOptionForm;
@@ -5,6 +5,7 @@ import { Line } from '@react-three/drei';
 import { RigidBody, RapierRigidBody } from '@react-three/rapier';
 import { BoundaryPort, NodeOrBoundaryId, PortIndexOrId, WireConnection } from '../types';
 import Port from './Port';
+import { createNet, isPortOccupied } from '../net/netModel';
 
 // --- Constants ---
 // Removed fixed BOUNDARY_RADIUS
@@ -122,10 +123,10 @@ const Boundary: React.FC<BoundaryProps> = ({
         const bodyRef = portBodyRefs.current.get(port.id)!;
 
         // Calculate if this specific port is connected
-        const isPortConnected = wires.some(w =>
-          (w.sourceNodeId === 'BOUNDARY' && w.sourcePortIndex === port.id) ||
-          (w.targetNodeId === 'BOUNDARY' && w.targetPortIndex === port.id)
-        );
+        const isPortConnected = isPortOccupied(createNet([], wires), { nodeId: 'BOUNDARY', port: port.id });
+        // Ports sit on the circle at their angle, so interfaces restored from stored angles line up too
+        const portX = Math.cos(port.angle) * dynamicRadius;
+        const portY = Math.sin(port.angle) * dynamicRadius;
 
         return (
           // Group for visual and physics body
@@ -134,7 +135,7 @@ const Boundary: React.FC<BoundaryProps> = ({
             <RigidBody
               ref={bodyRef} // Assign the ref
               type="fixed" // Make it static
-              position={[port.x, port.y, 0]} // Position from port data
+              position={[portX, portY, 0]}
               colliders="ball" // Use a small ball collider
               args={[PORT_PHYSICS_RADIUS]} // Pass radius arg
               canSleep={false} // Keep it awake? Maybe not needed for fixed.
@@ -151,7 +152,7 @@ const Boundary: React.FC<BoundaryProps> = ({
               key={`${port.id}-port`}
               ownerId="BOUNDARY"
               portIdOrIndex={port.id}
-              position={new THREE.Vector3(port.x, port.y, 0)} // Base position on the circle edge
+              position={new THREE.Vector3(portX, portY, 0)} // Base position on the circle edge
               rotation={new THREE.Euler(0, 0, port.angle + Math.PI /2, 'XYZ')} // Point inwards (towards origin)
               length={PORT_LENGTH}
               lineRadius={PORT_LINE_RADIUS}
@@ -1,4 +1,4 @@
-import React, { useRef, Suspense, useEffect, useState, useCallback, MutableRefObject, Dispatch, SetStateAction, useMemo } from 'react';
+import React, { useRef, Suspense, useEffect, useState, useCallback, MutableRefObject, useMemo } from 'react';
 import { Canvas, useThree, useFrame } from '@react-three/fiber';
 import { Physics, RapierRigidBody } from '@react-three/rapier';
 import { OrbitControls, Line } from '@react-three/drei';
@@ -24,7 +24,7 @@ interface CanvasAreaProps {
   onDeleteNode: (instanceId: string) => void;
   onStartWire: (sourceNodeId: NodeOrBoundaryId, sourcePortIndex: PortIndexOrId, startX: number, startY: number, currentMouseX: number, currentMouseY: number) => void;
   onUpdateWireEnd: (currentMouseX: number, currentMouseY: number) => void;
-  onFinishWire: (targetNodeId: string | null, targetPortIndex: number | null) => void;
+  onFinishWire: (targetNodeId: NodeOrBoundaryId | null, targetPortIndex: PortIndexOrId | null) => void;
   onDeleteWire?: (wireId: string) => void;
   onUpdateWireLength?: (wireId: string, newLength: number) => void;
   onUpdateNodePhysicsData?: (instanceId: string, position: THREE.Vector3, rotation: THREE.Quaternion) => void;
@@ -32,10 +32,15 @@ interface CanvasAreaProps {
   boundaryPorts: BoundaryPort[];
   addBoundaryPort: (port: BoundaryPort) => void;
   deleteBoundaryPort: (portId: string) => void;
-  setWires: Dispatch<SetStateAction<WireConnection[]>>;
   onAddDefinitionClick: () => void;
-  onExpandDefinition?: (instanceId: string) => void;
-  onUpdateInstanceMetadata: (instanceId: string, newValues: Record<string, string | number | boolean>, newVisibility: Record<string, boolean>) => void;
+  onExpandDefinition?: (instanceId: string, expandFully: boolean) => void;
+  onUpdateInstanceMetadata: (instanceId: string, newValues: Record<string, string | number | boolean>, newVisibility: Record<string, boolean>, newExpressions?: Record<string, string>) => void;
+  allowMetadataExpressions?: boolean;
+  selectedNodeIds?: string[];
+  mismatchedNodeIds?: string[];
+  onToggleNodeSelection?: (instanceId: string) => void;
+  onWireDoubleClick?: (wireId: string) => void;
+  isReadOnly?: boolean; // Nodes can still be dragged and rules applied, but the net cannot be edited by hand
 }
 
 // Helper function to manage orbit controls enabling/disabling
@@ -53,7 +58,7 @@ const useDragControls = (setControlsEnabled: React.Dispatch<React.SetStateAction
   return { handleDragStart, handleDragEnd };
 };
 
-const CanvasArea: React.FC<CanvasAreaProps> = ({ atomicNodeDefs, definitionDefs, canvasNodes, wires, drawingWire, onAddNode, onDeleteNode, onStartWire, onUpdateWireEnd, onFinishWire, onDeleteWire, onUpdateWireLength, onUpdateNodePhysicsData, isBoundaryActive, boundaryPorts, addBoundaryPort, deleteBoundaryPort, setWires, onAddDefinitionClick, onExpandDefinition, onUpdateInstanceMetadata }) => {
+const CanvasArea: React.FC<CanvasAreaProps> = ({ atomicNodeDefs, definitionDefs, canvasNodes, wires, drawingWire, onAddNode, onDeleteNode, onStartWire, onUpdateWireEnd, onFinishWire, onDeleteWire, onUpdateWireLength, onUpdateNodePhysicsData, isBoundaryActive, boundaryPorts, addBoundaryPort, deleteBoundaryPort, onAddDefinitionClick, onExpandDefinition, onUpdateInstanceMetadata, selectedNodeIds = [], mismatchedNodeIds = [], onToggleNodeSelection, onWireDoubleClick, allowMetadataExpressions = false, isReadOnly = false }) => {
   const canvasContainerRef = useRef<HTMLDivElement>(null);
   const wireTargetRef = useRef<{ nodeId: NodeOrBoundaryId; portIndex: PortIndexOrId } | null>(null);
 
@@ -107,8 +112,8 @@ const CanvasArea: React.FC<CanvasAreaProps> = ({ atomicNodeDefs, definitionDefs,
       setMetadataPopupState(null);
   }, []);
 
-  const handleSaveMetadata = useCallback((instanceId: string, newValues: Record<string, string | number | boolean>, newVisibility: Record<string, boolean>) => {
-      onUpdateInstanceMetadata(instanceId, newValues, newVisibility);
+  const handleSaveMetadata = useCallback((instanceId: string, newValues: Record<string, string | number | boolean>, newVisibility: Record<string, boolean>, newExpressions: Record<string, string>) => {
+      onUpdateInstanceMetadata(instanceId, newValues, newVisibility, newExpressions);
       handleCloseMetadataPopup();
   }, [onUpdateInstanceMetadata, handleCloseMetadataPopup]);
   // <--- END NEW
@@ -145,42 +150,8 @@ const CanvasArea: React.FC<CanvasAreaProps> = ({ atomicNodeDefs, definitionDefs,
     
     if (target && target.nodeId === 'BOUNDARY' && typeof target.portIndex === 'string') {
         console.log("CanvasArea: Finishing wire to BOUNDARY port:", target.portIndex);
-        // Directly add the wire connection to the boundary
-        const sourceNodeId = drawingWire.sourceNodeId;
-        const sourcePortIndex = drawingWire.sourcePortIndex;
-
-        // Validate source port is not already occupied (using wires prop)
-        const isSourceOccupied = wires.some(w =>
-            (w.sourceNodeId === sourceNodeId && w.sourcePortIndex === sourcePortIndex) ||
-            (w.targetNodeId === sourceNodeId && w.targetPortIndex === sourcePortIndex)
-        );
-
-        if (isSourceOccupied) {
-            console.log("Wire connection failed: Source port already connected.");
-        } else {
-            // ---> NEW: Check if target boundary port is already connected
-            const isBoundaryPortOccupied = wires.some(w => 
-                (w.sourceNodeId === 'BOUNDARY' && w.sourcePortIndex === target.portIndex) ||
-                (w.targetNodeId === 'BOUNDARY' && w.targetPortIndex === target.portIndex)
-            );
-            if (isBoundaryPortOccupied) {
-                console.log("Wire connection failed: Target boundary port already connected.");
-            } else {
-            // <--- END NEW
-                const newWire: WireConnection = {
-                    id: `wire_${Date.now()}_${Math.random().toString(16).slice(2)}`,
-                    sourceNodeId: sourceNodeId,
-                    sourcePortIndex: sourcePortIndex,
-                    targetNodeId: 'BOUNDARY',
-                    targetPortIndex: target.portIndex, // Boundary port ID
-                    targetLength: null, // No physics length
-                };
-                console.log("Creating wire to boundary:", newWire);
-                setWires(currentWires => [...currentWires, newWire]);
-                // Call finishWire with null target to clear the drawing state in App
-                onFinishWire(null, null);
-            }
-        }
+        // App's handler validates occupancy for boundary targets too
+        onFinishWire('BOUNDARY', target.portIndex);
     } else if (target && target.nodeId !== 'BOUNDARY' && typeof target.portIndex === 'number') {
         console.log("CanvasArea: Finishing wire to NODE:", target.nodeId, "Port:", target.portIndex);
         // Call App's handler for node-to-node connection
@@ -195,7 +166,7 @@ const CanvasArea: React.FC<CanvasAreaProps> = ({ atomicNodeDefs, definitionDefs,
     
     wireTargetRef.current = null; // Clear target ref
     // App's finishWire handles clearing drawingWire state (called above for both node and boundary targets now).
-  }, [drawingWire, onFinishWire, setWires, wires]);
+  }, [drawingWire, onFinishWire]);
 
   useEffect(() => {
     if (drawingWire) {
@@ -214,11 +185,12 @@ const CanvasArea: React.FC<CanvasAreaProps> = ({ atomicNodeDefs, definitionDefs,
 
   // Handles PointerDown on ANY port (Node or Boundary)
   const handlePortPointerDown = useCallback((ownerId: NodeOrBoundaryId, portIdOrIndex: PortIndexOrId, worldPos: THREE.Vector3, event: ThreeEvent<PointerEvent>) => {
+    if (isReadOnly) return;
     console.log(`CanvasArea: Port Down on ${ownerId} Port ${portIdOrIndex}`);
     wireTargetRef.current = null; // Clear potential target
     // Call App's startWire - it now handles both source types
     onStartWire(ownerId, portIdOrIndex, worldPos.x, worldPos.y, worldPos.x, worldPos.y);
-  }, [onStartWire]);
+  }, [onStartWire, isReadOnly]);
 
   // Handles PointerEnter on ANY port
   const handlePortPointerEnter = useCallback((ownerId: NodeOrBoundaryId, portIdOrIndex: PortIndexOrId, event: ThreeEvent<PointerEvent>) => {
@@ -242,6 +214,7 @@ const CanvasArea: React.FC<CanvasAreaProps> = ({ atomicNodeDefs, definitionDefs,
 
   // Handles ContextMenu on ANY port
   const handlePortContextMenu = useCallback((ownerId: NodeOrBoundaryId, portIdOrIndex: PortIndexOrId, event: ThreeEvent<MouseEvent>) => {
+    if (isReadOnly) return;
     console.log(`CanvasArea: Port Context Menu on ${ownerId} Port ${portIdOrIndex}`);
     if (ownerId === 'BOUNDARY' && typeof portIdOrIndex === 'string') {
       // If it's a boundary port, delete it
@@ -252,11 +225,11 @@ const CanvasArea: React.FC<CanvasAreaProps> = ({ atomicNodeDefs, definitionDefs,
         onDeleteNode(ownerId);
     }
     // Add logic for deleting individual wires later if needed
-  }, [deleteBoundaryPort, onDeleteNode]);
+  }, [deleteBoundaryPort, onDeleteNode, isReadOnly]);
 
   // Boundary Click handler remains for creating NEW ports on the boundary circle
   const handleBoundaryClick = useCallback((event: ThreeEvent<MouseEvent>, radius: number) => {
-    if (!isBoundaryActive) return;
+    if (!isBoundaryActive || isReadOnly) return;
     
     // Calculate angle from world coordinates of the click
     const point = event.point; 
@@ -278,7 +251,7 @@ const CanvasArea: React.FC<CanvasAreaProps> = ({ atomicNodeDefs, definitionDefs,
     };
     console.log("CanvasArea: Boundary clicked, adding port:", newPort);
     addBoundaryPort(newPort);
-  }, [isBoundaryActive, addBoundaryPort]);
+  }, [isBoundaryActive, isReadOnly, addBoundaryPort]);
 
   // Set controls enabled state based on wire drawing or node/wire dragging
   const [areControlsEnabled, setAreControlsEnabled] = useState(true);
@@ -318,13 +291,13 @@ const CanvasArea: React.FC<CanvasAreaProps> = ({ atomicNodeDefs, definitionDefs,
   const handleDrop = useCallback((event: React.DragEvent<HTMLDivElement>) => {
       event.preventDefault();
       const definitionId = event.dataTransfer?.getData('text/plain');
-      if (!definitionId) return;
+      if (!definitionId || isReadOnly) return;
 
       const worldPos = getDropWorldPos(event);
       if (worldPos) {
           onAddNode(definitionId, worldPos.x, worldPos.y);
       }
-  }, [getDropWorldPos, onAddNode]);
+  }, [getDropWorldPos, onAddNode, isReadOnly]);
 
   const handleDragOver = useCallback((event: React.DragEvent<HTMLDivElement>) => {
       event.preventDefault();
@@ -391,7 +364,6 @@ const CanvasArea: React.FC<CanvasAreaProps> = ({ atomicNodeDefs, definitionDefs,
 
   return (
     <div
-      id="canvas-area"
       ref={canvasContainerRef}
       className="canvas-container"
       onDragOver={handleDragOver}
@@ -462,7 +434,7 @@ const CanvasArea: React.FC<CanvasAreaProps> = ({ atomicNodeDefs, definitionDefs,
                   instance={instance}
                   definition={definition}
                   wires={wires}
-                  onDelete={onDeleteNode}
+                  onDelete={isReadOnly ? () => {} : onDeleteNode}
                   onPortPointerDown={handlePortPointerDown}
                   onPortPointerEnter={handlePortPointerEnter}
                   onPortPointerLeave={handlePortPointerLeave}
@@ -473,7 +445,10 @@ const CanvasArea: React.FC<CanvasAreaProps> = ({ atomicNodeDefs, definitionDefs,
                   onDoubleClick={onExpandDefinition}
                   onRefReady={handleRefReady}
                   onRefDestroyed={handleRefDestroyed}
-                  onOpenMetadataPopup={handleOpenMetadataPopup}
+                  onOpenMetadataPopup={isReadOnly ? undefined : handleOpenMetadataPopup}
+                  isSelected={selectedNodeIds.includes(instance.instanceId)}
+                  isMismatched={mismatchedNodeIds.includes(instance.instanceId)}
+                  onToggleSelect={onToggleNodeSelection}
                 />
               );
             })}
@@ -571,7 +546,8 @@ const CanvasArea: React.FC<CanvasAreaProps> = ({ atomicNodeDefs, definitionDefs,
                     sourcePortIndex={sourcePortIdx}
                     targetPortIndex={targetPortIdx}
                     targetLength={wire.targetLength}
-                    onDeleteWire={onDeleteWire}
+                    onDeleteWire={isReadOnly ? undefined : onDeleteWire}
+                    onDoubleClick={onWireDoubleClick}
                     onUpdateWireLength={onUpdateWireLength}
                     onDragStart={handleDragStart} // Pass drag handlers if wire is draggable
                     onDragEnd={handleDragEnd}
@@ -621,9 +597,11 @@ const CanvasArea: React.FC<CanvasAreaProps> = ({ atomicNodeDefs, definitionDefs,
                   definition={definition}
                   initialValues={instance.metadataValues || {}} // Pass current or empty values
                   initialVisibility={instance.metadataVisibility || {}} // Pass current or empty visibility
+                  initialExpressions={instance.metadataExpressions || {}}
+                  allowExpressions={allowMetadataExpressions}
                   screenX={metadataPopupState.screenX}
                   screenY={metadataPopupState.screenY}
-                  onSave={(newValues, newVisibility) => handleSaveMetadata(instance.instanceId, newValues, newVisibility)}
+                  onSave={(newValues, newVisibility, newExpressions) => handleSaveMetadata(instance.instanceId, newValues, newVisibility, newExpressions)}
                   onClose={handleCloseMetadataPopup}
               />
           );
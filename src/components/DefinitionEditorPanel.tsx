@@ -0,0 +1,47 @@
+import React, { useState } from 'react';
+import { DefinitionDefinition } from '../types';
+import './EditorPanel.css';
+
+interface DefinitionEditorPanelProps {
+  definition: DefinitionDefinition;
+  onSave: (name: string, color: string) => void;
+  onCancel: () => void;
+}
+
+const DefinitionEditorPanel: React.FC<DefinitionEditorPanelProps> = ({ definition, onSave, onCancel }) => {
+  const [name, setName] = useState(definition.name);
+  const [color, setColor] = useState(definition.color);
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      alert('Definition name cannot be empty.');
+      return;
+    }
+    onSave(name.trim(), color);
+  };
+
+  return (
+    <div className="editor-panel">
+      <h3>Edit Definition: {definition.name}</h3>
+      <p className="editor-panel-hint">
+        Change the internal net against the {definition.externalPorts.length} restored boundary ports.
+        Adding, removing or rewiring ports changes how existing instances connect.
+      </p>
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Definition name"
+        className="editor-panel-input"
+      />
+      <label className="editor-panel-setting">
+        Color
+        <input type="color" value={color} onChange={(e) => setColor(e.target.value)} />
+      </label>
+      <button onClick={handleSave} className="control-button">Save Definition</button>
+      <button onClick={onCancel} className="control-button">Cancel</button>
+    </div>
+  );
+};
+
+export default DefinitionEditorPanel;
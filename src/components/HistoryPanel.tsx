@@ -0,0 +1,71 @@
+import React from 'react';
+import { HistoryEntry } from '../hooks/useEditHistory';
+import './EditorPanel.css';
+
+interface HistoryPanelProps {
+  undoStack: HistoryEntry[];
+  redoStack: HistoryEntry[];
+  isDisabled: boolean;
+  disabledReason?: string;
+  onUndo: (steps?: number) => void;
+  onRedo: () => void;
+  onGoToEntry: (entryId: string) => void;
+  onClose: () => void;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  undoStack,
+  redoStack,
+  isDisabled,
+  disabledReason,
+  onUndo,
+  onRedo,
+  onGoToEntry,
+  onClose,
+}) => {
+  // Oldest first: applied edits, then the undone ones in the order they would be redone
+  const undoneEntries = [...redoStack].reverse();
+
+  return (
+    <div className="editor-panel history-panel">
+      <h3>History</h3>
+      <p className="editor-panel-hint">
+        {isDisabled && disabledReason
+          ? disabledReason
+          : 'Ctrl+Z undoes, Ctrl+Shift+Z redoes. Click an edit to return to just after it.'}
+      </p>
+      <ul className="editor-panel-list">
+        <li className={undoStack.length === 0 ? 'history-current' : undefined}>
+          <button className="history-entry" onClick={() => onUndo(undoStack.length)} disabled={isDisabled}>
+            Start
+          </button>
+        </li>
+        {undoStack.map((entry, index) => (
+          <li key={entry.id} className={index === undoStack.length - 1 ? 'history-current' : undefined}>
+            <button className="history-entry" onClick={() => onGoToEntry(entry.id)} disabled={isDisabled}>
+              {entry.label}
+            </button>
+          </li>
+        ))}
+        {undoneEntries.map(entry => (
+          <li key={entry.id} className="history-undone">
+            <button className="history-entry" onClick={() => onGoToEntry(entry.id)} disabled={isDisabled}>
+              {entry.label}
+            </button>
+          </li>
+        ))}
+      </ul>
+      <div className="editor-panel-buttons">
+        <button onClick={() => onUndo()} className="control-button" disabled={isDisabled || undoStack.length === 0}>
+          Undo
+        </button>
+        <button onClick={onRedo} className="control-button" disabled={isDisabled || redoStack.length === 0}>
+          Redo
+        </button>
+      </div>
+      <button onClick={onClose} className="control-button">Close</button>
+    </div>
+  );
+};
+
+export default HistoryPanel;
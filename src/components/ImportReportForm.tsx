@@ -0,0 +1,36 @@
+import React from 'react';
+import { WorkspaceValidation } from '../utils/workspaceValidation';
+import './AtomicNodeForm.css'; // Reuse styles for simplicity
+
+interface ImportReportFormProps {
+  validation: WorkspaceValidation;
+  onLoadRepaired: () => void;
+  onCancel: () => void;
+}
+
+const ImportReportForm: React.FC<ImportReportFormProps> = ({ validation, onLoadRepaired, onCancel }) => {
+  const { problems, repaired } = validation;
+  const count = problems.length;
+
+  return (
+    <div className="atomic-node-form">
+      <p>The file has {count} problem{count === 1 ? '' : 's'}:</p>
+      <ul className="dependent-list">
+        {problems.map((problem, index) => (
+          <li key={index}><strong>{problem.location}</strong>: {problem.message}</li>
+        ))}
+      </ul>
+      <p>
+        The repaired workspace has {repaired.atomicNodes.length} atomic nodes, {repaired.definitions.length} definitions,
+        {' '}{repaired.axioms.length} axioms, {repaired.theorems.length} theorems and {repaired.canvasNodes.length} canvas nodes.
+        Repaired library items are marked stale. Loading it replaces the current workspace.
+      </p>
+      <div className="form-button-row">
+        <button type="button" className="submit-button" onClick={onCancel} autoFocus>Cancel</button>
+        <button type="button" className="submit-button" onClick={onLoadRepaired}>Load Repaired Workspace</button>
+      </div>
+    </div>
+  );
+};
+
+export default ImportReportForm;
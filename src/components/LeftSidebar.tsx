@@ -1,10 +1,12 @@
 import React, { useState, DragEvent } from 'react';
-import { AtomicNodeDefinition, WireConnection, DefinitionDefinition } from '../types';
+import { AtomicNodeDefinition, WireConnection, DefinitionDefinition, AxiomDefinition, TheoremDefinition, SidebarTab } from '../types';
 import AtomicNodeForm from './AtomicNodeForm'; // We'll create this next
 import Modal from './Modal'; // We'll create this utility component too
 import AtomicNodeDisplay from './AtomicNodeDisplay'; // Import the display component
 // Import DefinitionDisplay (we'll create this next)
 import DefinitionDisplay from './DefinitionDisplay';
+import AxiomDisplay from './AxiomDisplay';
+import TheoremDisplay from './TheoremDisplay';
 
 interface LeftSidebarProps {
   atomicNodes: AtomicNodeDefinition[];
@@ -13,9 +15,17 @@ interface LeftSidebarProps {
   // New props for definitions
   definitions: DefinitionDefinition[];
   onDeleteDefinition: (definitionId: string) => void;
+  onEditDefinition: (definition: DefinitionDefinition) => void;
+  axioms: AxiomDefinition[];
+  onDeleteAxiom: (axiomId: string) => void;
+  onAddAxiomClick: () => void;
+  theorems: TheoremDefinition[];
+  onDeleteTheorem: (theoremId: string) => void;
+  onAddTheoremClick: () => void;
+  onProveTheorem: (theorem: TheoremDefinition) => void;
   // New props for tabs
-  activeTab: 'atomic' | 'definitions';
-  onSetTab: (tab: 'atomic' | 'definitions') => void;
+  activeTab: SidebarTab;
+  onSetTab: (tab: SidebarTab) => void;
   // Handler for Add Definition button
   onAddDefinitionClick: () => void;
 }
@@ -26,6 +36,14 @@ const LeftSidebar: React.FC<LeftSidebarProps> = ({
   onDeleteAtomicNode, 
   definitions, 
   onDeleteDefinition, 
+  onEditDefinition,
+  axioms,
+  onDeleteAxiom,
+  onAddAxiomClick,
+  theorems,
+  onDeleteTheorem,
+  onAddTheoremClick,
+  onProveTheorem,
   activeTab, 
   onSetTab, 
   onAddDefinitionClick 
@@ -69,12 +87,24 @@ const LeftSidebar: React.FC<LeftSidebarProps> = ({
           >
               Atomic Nodes
           </button>
+          <button 
+              onClick={() => onSetTab('axioms')} 
+              className={`tab-button ${activeTab === 'axioms' ? 'active' : ''}`}
+          >
+              Axioms
+          </button>
           <button 
               onClick={() => onSetTab('definitions')} 
               className={`tab-button ${activeTab === 'definitions' ? 'active' : ''}`}
           >
               Definitions
           </button>
+          <button 
+              onClick={() => onSetTab('theorems')} 
+              className={`tab-button ${activeTab === 'theorems' ? 'active' : ''}`}
+          >
+              Theorems
+          </button>
       </div>
 
       {/* Conditional Content based on activeTab */}
@@ -105,9 +135,32 @@ const LeftSidebar: React.FC<LeftSidebarProps> = ({
         </>
       )}
 
+      {activeTab === 'axioms' && (
+        <>
+          <button onClick={onAddAxiomClick} className="add-button" title="Ctrl+click two nodes joined on principal ports first">
+            Add Axiom from Selected Pair
+          </button>
+          <ul className="library-list">
+            {axioms.map((axiom) => (
+              <li key={axiom.id} className="library-item axiom-item">
+                <AxiomDisplay axiom={axiom} atomicNodes={atomicNodes} />
+                {axiom.staleReason && <span className="stale-badge" title={axiom.staleReason}>Stale</span>}
+                <button
+                  className="delete-node-button"
+                  onClick={() => onDeleteAxiom(axiom.id)}
+                  title={`Delete ${axiom.name}`}
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
       {activeTab === 'definitions' && (
         <>
-          <button onClick={onAddDefinitionClick} className="add-button">
+          <button onClick={onAddDefinitionClick} className="add-button" title="Double-click an instance to expand one level, Shift+double-click to expand fully">
             Add Current Canvas as Definition
           </button>
           <ul className="library-list">
@@ -120,6 +173,10 @@ const LeftSidebar: React.FC<LeftSidebarProps> = ({
               >
                  {/* TODO: Replace with DefinitionDisplay component */}
                 <DefinitionDisplay definition={def} isSidebar={true} /> 
+                {def.staleReason && <span className="stale-badge" title={def.staleReason}>Stale</span>}
+                <button className="control-button" onClick={() => onEditDefinition(def)} title={`Edit ${def.name}`}>
+                  Edit
+                </button>
                 {/* <div style={{ padding: '5px 10px', backgroundColor: def.color, borderRadius: '3px', textAlign: 'center', color: '#333' }}> 
                     {def.name}
                 </div> */}
@@ -136,6 +193,34 @@ const LeftSidebar: React.FC<LeftSidebarProps> = ({
         </>
       )}
 
+      {activeTab === 'theorems' && (
+        <>
+          <button onClick={onAddTheoremClick} className="add-button" title="Ctrl+click two nodes joined on principal ports, at least one a definition">
+            Add Theorem from Selected Pair
+          </button>
+          <ul className="library-list">
+            {theorems.map((theorem) => (
+              <li key={theorem.id} className="library-item axiom-item">
+                <TheoremDisplay theorem={theorem} atomicNodes={atomicNodes} definitions={definitions} />
+                {theorem.staleReason && <span className="stale-badge" title={theorem.staleReason}>Stale</span>}
+                {!theorem.isProved && (
+                  <button className="control-button" onClick={() => onProveTheorem(theorem)} title={`Prove ${theorem.name}`}>
+                    Prove
+                  </button>
+                )}
+                <button
+                  className="delete-node-button"
+                  onClick={() => onDeleteTheorem(theorem.id)}
+                  title={`Delete ${theorem.name}`}
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
       {/* Atomic Node Creation Modal */}
       {isAtomicModalOpen && (
         <Modal title="Create Atomic Node" onClose={closeAtomicModal}>
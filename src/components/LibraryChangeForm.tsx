@@ -0,0 +1,72 @@
+import React from 'react';
+import { LibraryChangeResolution, PendingLibraryChange } from '../hooks/useLibraryChanges';
+import { Library, LibraryItemKind, getLibraryItemName } from '../utils/libraryDependencies';
+import './AtomicNodeForm.css'; // Reuse styles for simplicity
+
+interface LibraryChangeFormProps {
+  change: PendingLibraryChange;
+  library: Library;
+  onResolve: (resolution: LibraryChangeResolution) => void;
+  onCancel: () => void;
+}
+
+const KIND_LABELS: Record<LibraryItemKind, string> = {
+  atomic: 'Atomic node',
+  definition: 'Definition',
+  axiom: 'Axiom',
+  theorem: 'Theorem',
+};
+
+const LibraryChangeForm: React.FC<LibraryChangeFormProps> = ({ change, library, onResolve, onCancel }) => {
+  const targetName = getLibraryItemName(change.target, library);
+  const action = change.verb === 'delete' ? 'Deleting' : 'Editing';
+
+  const hasDependents = change.dependents.length > 0;
+
+  return (
+    <div className="atomic-node-form">
+      {hasDependents ? (
+        <>
+          <p>
+            {action} {KIND_LABELS[change.target.kind].toLowerCase()} <strong>{targetName}</strong> affects
+            {' '}{change.dependents.length} item{change.dependents.length === 1 ? '' : 's'}:
+          </p>
+          <ul className="dependent-list">
+            {change.dependents.map(ref => (
+              <li key={`${ref.kind}:${ref.id}`}>{KIND_LABELS[ref.kind]}: {getLibraryItemName(ref, library)}</li>
+            ))}
+          </ul>
+        </>
+      ) : (
+        <p>{action} {KIND_LABELS[change.target.kind].toLowerCase()} <strong>{targetName}</strong>:</p>
+      )}
+      {change.details.length > 0 && (
+        <>
+          <p>Wires that no longer fit:</p>
+          <ul className="dependent-list">
+            {change.details.map(detail => <li key={detail}>{detail}</li>)}
+          </ul>
+        </>
+      )}
+      <p>
+        Canvas instances of deleted node types are removed with their wires, as are wires on ports that no longer exist.
+        {hasDependents && ' Stale theorems become unproved.'}
+      </p>
+      <div className="form-button-row">
+        <button type="button" className="submit-button" onClick={onCancel} autoFocus>Cancel</button>
+        {hasDependents ? (
+          <>
+            <button type="button" className="submit-button" onClick={() => onResolve('stale')}>Mark Dependents Stale</button>
+            {change.canCascade && (
+              <button type="button" className="submit-button" onClick={() => onResolve('cascade')}>Delete Dependents</button>
+            )}
+          </>
+        ) : (
+          <button type="button" className="submit-button" onClick={() => onResolve('stale')}>Continue</button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LibraryChangeForm;
@@ -1,14 +1,17 @@
 import React, { useState, ChangeEvent, FormEvent, useCallback } from 'react';
 import { AtomicNodeDefinition } from '../types';
+import { validateGuardExpression } from '../utils/guardExpressionParser';
 import './MetadataPopup.css';
 
 interface MetadataPopupProps {
   definition: AtomicNodeDefinition;
   initialValues: Record<string, any>;
   initialVisibility: Record<string, boolean>;
+  initialExpressions?: Record<string, string>;
+  allowExpressions?: boolean; // Fields of rule result nodes may be computed from the redex
   screenX: number;
   screenY: number;
-  onSave: (newValues: Record<string, any>, newVisibility: Record<string, boolean>) => void;
+  onSave: (newValues: Record<string, any>, newVisibility: Record<string, boolean>, newExpressions: Record<string, string>) => void;
   onClose: () => void;
 }
 
@@ -16,6 +19,8 @@ const MetadataPopup: React.FC<MetadataPopupProps> = ({
   definition, 
   initialValues, 
   initialVisibility,
+  initialExpressions = {},
+  allowExpressions = false,
   screenX, 
   screenY, 
   onSave, 
@@ -45,6 +50,15 @@ const MetadataPopup: React.FC<MetadataPopupProps> = ({
   });
   // <--- END NEW
 
+  // Fields in expression mode map to their expression text
+  const [expressionState, setExpressionState] = useState<Record<string, string>>(() => ({ ...initialExpressions }));
+  // Empty expressions are dropped on save, so they are not errors
+  const expressionErrors = Object.entries(expressionState)
+    .filter(([, source]) => source.trim() !== '')
+    .map(([fieldName, source]) => [fieldName, validateGuardExpression(source)] as const)
+    .filter(([, error]) => error !== null);
+  const expressionErrorFor = (fieldName: string) => expressionErrors.find(([name]) => name === fieldName)?.[1];
+
   const handleChange = useCallback((event: ChangeEvent<HTMLInputElement>) => {
     const { name, value } = event.target;
     setFormData(prevData => ({
@@ -63,11 +77,35 @@ const MetadataPopup: React.FC<MetadataPopupProps> = ({
   }, []);
   // <--- END NEW
 
+  const handleExpressionChange = useCallback((event: ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = event.target;
+    setExpressionState(prevData => ({
+      ...prevData,
+      [name]: value
+    }));
+  }, []);
+
+  const toggleExpressionMode = useCallback((fieldName: string) => {
+    setExpressionState(prevData => {
+      if (fieldName in prevData) {
+        const rest = { ...prevData };
+        delete rest[fieldName];
+        return rest;
+      }
+      return { ...prevData, [fieldName]: '' };
+    });
+  }, []);
+
   const handleSubmit = useCallback((event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
-    console.log("Saving metadata:", formData, visibilityState);
-    onSave(formData, visibilityState); // Pass both values and visibility
-  }, [formData, visibilityState, onSave]);
+    if (expressionErrors.length > 0) {
+      alert(`Invalid expression for "${expressionErrors[0][0]}": ${expressionErrors[0][1]}`);
+      return;
+    }
+    const newExpressions = Object.fromEntries(Object.entries(expressionState).filter(([, source]) => source.trim() !== ''));
+    console.log("Saving metadata:", formData, visibilityState, newExpressions);
+    onSave(formData, visibilityState, newExpressions); // Pass values, visibility and computed fields
+  }, [formData, visibilityState, expressionState, expressionErrors, onSave]);
 
   const handleCancel = useCallback(() => {
     onClose();
@@ -93,13 +131,35 @@ const MetadataPopup: React.FC<MetadataPopupProps> = ({
             <div key={fieldName} className="metadata-field">
               <label htmlFor={`metadata_${fieldName}`}>{fieldName}:</label>
               <div className="metadata-input-row">
-                <input
-                  type="text" // Keep simple for now, could expand later
-                  id={`metadata_${fieldName}`}
-                  name={fieldName}
-                  value={formData[fieldName] || ''} 
-                  onChange={handleChange}
-                />
+                {fieldName in expressionState ? (
+                  <input
+                    type="text"
+                    id={`metadata_${fieldName}`}
+                    name={fieldName}
+                    value={expressionState[fieldName]}
+                    onChange={handleExpressionChange}
+                    placeholder="right.level + 1"
+                    className="expression-input"
+                  />
+                ) : (
+                  <input
+                    type="text" // Keep simple for now, could expand later
+                    id={`metadata_${fieldName}`}
+                    name={fieldName}
+                    value={formData[fieldName] || ''} 
+                    onChange={handleChange}
+                  />
+                )}
+                {allowExpressions && (
+                  <button
+                    type="button"
+                    onClick={() => toggleExpressionMode(fieldName)}
+                    className={`expression-toggle ${fieldName in expressionState ? 'active' : ''}`}
+                    title="Compute from the interacting pair"
+                  >
+                    ƒx
+                  </button>
+                )}
                 <input 
                   type="checkbox" 
                   id={`visibility_${fieldName}`}
@@ -110,6 +170,7 @@ const MetadataPopup: React.FC<MetadataPopupProps> = ({
                   className="visibility-checkbox"
                 />
               </div>
+              {expressionErrorFor(fieldName) && <span className="metadata-expression-error">{expressionErrorFor(fieldName)}</span>}
             </div>
           ))}
           <div className="metadata-popup-buttons">
@@ -0,0 +1,32 @@
+import React from 'react';
+import { NetComparison } from '../utils/netEquality';
+import './EditorPanel.css';
+
+interface NetComparisonPanelProps {
+  fileName: string;
+  comparison: NetComparison;
+  onClose: () => void;
+}
+
+const NetComparisonPanel: React.FC<NetComparisonPanelProps> = ({ fileName, comparison, onClose }) => {
+  return (
+    <div className="editor-panel comparison-panel">
+      <h3>Compare with File</h3>
+      <p className="editor-panel-hint">
+        {comparison.isEqual
+          ? `The canvas is the same net as ${fileName}.`
+          : `The canvas differs from ${fileName}. Nodes without a counterpart are ringed in red.`}
+      </p>
+      {comparison.differences.length > 0 && (
+        <ul className="editor-panel-list">
+          {comparison.differences.map((difference, index) => (
+            <li key={index}>{difference}</li>
+          ))}
+        </ul>
+      )}
+      <button onClick={onClose} className="control-button">Close</button>
+    </div>
+  );
+};
+
+export default NetComparisonPanel;
@@ -13,12 +13,16 @@ import { AtomicNodeDefinition, CanvasNodeInstance, WireConnection, NodeOrBoundar
 import RAPIER from '@dimforge/rapier3d-compat';
 import Port from './Port';
 import { getPortBoundaryLocalOffset } from '../utils/geometry'; // Import the geometry util
+import { createNet, isPortOccupied } from '../net/netModel';
 
 // --- Constants for Visuals ---
 const NODE_RADIUS = 1.15;
 const PORT_LINE_LENGTH = 0.5;
 const PORT_LINE_RADIUS = 0.05;
 const PRINCIPAL_MARKER_RADIUS = 0.1;
+const SELECTION_RING_WIDTH = 0.12;
+const SELECTION_COLOR = "#ffd700";
+const MISMATCH_COLOR = "#e06c75";
 const LABEL_FONT_SIZE = 0.4;
 // --- ---
 
@@ -37,10 +41,13 @@ interface PhysicsNodeProps {
   onDragStart?: () => void;
   onDragEnd?: () => void;
   onUpdatePhysicsData?: (instanceId: string, position: THREE.Vector3, rotation: THREE.Quaternion) => void;
-  onDoubleClick?: (instanceId: string) => void;
+  onDoubleClick?: (instanceId: string, expandFully: boolean) => void; // expandFully on Shift+double-click
   onRefReady?: (instanceId: string, ref: React.RefObject<RapierRigidBody | null>) => void;
   onRefDestroyed?: (instanceId: string) => void;
   onOpenMetadataPopup?: (instanceId: string, event: ThreeEvent<MouseEvent>) => void;
+  isSelected?: boolean;
+  isMismatched?: boolean; // Flagged by a net comparison
+  onToggleSelect?: (instanceId: string) => void;
 }
 
 // Define a type for the active joint state
@@ -106,7 +113,10 @@ const PhysicsNode = forwardRef<RapierRigidBody, PhysicsNodeProps>(({
     onDoubleClick,
     onRefReady,
     onRefDestroyed,
-    onOpenMetadataPopup
+    onOpenMetadataPopup,
+    isSelected = false,
+    isMismatched = false,
+    onToggleSelect
 }, ref) => {
 
   // Create a local ref for internal use
@@ -298,10 +308,7 @@ const PhysicsNode = forwardRef<RapierRigidBody, PhysicsNodeProps>(({
           const baseY = NODE_RADIUS * Math.sin(angleRad);
 
           // Check if this port is connected
-          const isConnected = wires.some((w: WireConnection) =>
-              (w.sourceNodeId === instance.instanceId && w.sourcePortIndex === i) ||
-              (w.targetNodeId === instance.instanceId && w.targetPortIndex === i)
-          );
+          const isConnected = isPortOccupied(createNet([], wires), { nodeId: instance.instanceId, port: i });
 
           results.push({
               id: `port-${i}`,
@@ -354,7 +361,15 @@ const PhysicsNode = forwardRef<RapierRigidBody, PhysicsNodeProps>(({
   }, [instance.instanceId]);
   // --- --- 
 
-  // --- Effect to report ref readiness --- 
+  // --- Move the body when the stored position changes (undo, redo, snapshot resets) ---
+  useEffect(() => {
+      if (!rigidBodyRef.current) return;
+      rigidBodyRef.current.setTranslation({ x: instance.x, y: instance.y, z: 0 }, true);
+      rigidBodyRef.current.setLinvel({ x: 0, y: 0, z: 0 }, true);
+  }, [instance.x, instance.y]);
+  // --- ---
+
+  // --- Effect to report ref readiness ---
   useEffect(() => {
       if (rigidBodyRef.current) {
           console.log(`[PhysicsNode ${instance.instanceId}] Ref ready, reporting.`);
@@ -384,6 +399,12 @@ const PhysicsNode = forwardRef<RapierRigidBody, PhysicsNodeProps>(({
 
     event.stopPropagation();
 
+    // Ctrl/Cmd+click toggles selection instead of dragging
+    if ((event.ctrlKey || event.metaKey) && onToggleSelect) {
+        onToggleSelect(instance.instanceId);
+        return;
+    }
+
     // Bail if no rigidbody
     if (!rigidBodyRef.current) return;
 
@@ -497,7 +518,7 @@ const PhysicsNode = forwardRef<RapierRigidBody, PhysicsNodeProps>(({
     window.addEventListener('mousemove', handleGlobalMouseMove);
     window.addEventListener('mouseup', handleGlobalMouseUp);
 
-  }, [getMousePlanePos, handleGlobalMouseMove, handleGlobalMouseUp, onDragStart, onDragEnd, instance.instanceId, world]); // Add world, onDragEnd
+  }, [getMousePlanePos, handleGlobalMouseMove, handleGlobalMouseUp, onDragStart, onDragEnd, onToggleSelect, instance.instanceId, world]); // Add world, onDragEnd
 
   const handleContextMenu = (event: ThreeEvent<MouseEvent>) => {
     event.stopPropagation(); // Prevent canvas context menu
@@ -521,7 +542,7 @@ const PhysicsNode = forwardRef<RapierRigidBody, PhysicsNodeProps>(({
        // If it's a definition instance, call the expansion handler
        else if (instance.isDefinitionInstance && onDoubleClick) {
            console.log("-> Definition node, calling onDoubleClick (for expansion)");
-           onDoubleClick(instance.instanceId);
+           onDoubleClick(instance.instanceId, event.shiftKey);
        } else {
            console.log("-> Double click condition not met (isDefinitionInstance:", instance.isDefinitionInstance, ", has onOpenMetadataPopup:", !!onOpenMetadataPopup, ", has onDoubleClick:", !!onDoubleClick, ")");
        }
@@ -579,6 +600,22 @@ const PhysicsNode = forwardRef<RapierRigidBody, PhysicsNodeProps>(({
              <meshStandardMaterial color={definition.color} emissive={definition.color} emissiveIntensity={0.2} side={THREE.DoubleSide} />
         </mesh>
 
+        {/* Selection Ring */}
+        {isSelected && (
+            <mesh position={[0, 0, -0.01]}>
+                <ringGeometry args={[NODE_RADIUS, NODE_RADIUS + SELECTION_RING_WIDTH, 32]} />
+                <meshBasicMaterial color={SELECTION_COLOR} side={THREE.DoubleSide} />
+            </mesh>
+        )}
+
+        {/* Mismatch Ring (outside the selection ring so both stay visible) */}
+        {isMismatched && (
+            <mesh position={[0, 0, -0.01]}>
+                <ringGeometry args={[NODE_RADIUS + SELECTION_RING_WIDTH, NODE_RADIUS + 2 * SELECTION_RING_WIDTH, 32]} />
+                <meshBasicMaterial color={MISMATCH_COLOR} side={THREE.DoubleSide} />
+            </mesh>
+        )}
+
         {/* Ports (Now render generic Port component) */}
         {portData.map((portInfo, originalIndex) => (
             <Port
@@ -606,7 +643,8 @@ const PhysicsNode = forwardRef<RapierRigidBody, PhysicsNodeProps>(({
         {(() => { // Use a function to calculate positions based on metadata
           const visibleMetadataFields = !instance.isDefinitionInstance 
             ? (definition as AtomicNodeDefinition).metadataSchema?.filter(
-                (fieldName: string) => instance.metadataVisibility?.[fieldName] && instance.metadataValues?.[fieldName] != null
+                (fieldName: string) => instance.metadataVisibility?.[fieldName] &&
+                  (instance.metadataValues?.[fieldName] != null || instance.metadataExpressions?.[fieldName] != null)
               ) || [] 
             : [];
           const numVisibleMetadata = visibleMetadataFields.length;
@@ -645,7 +683,9 @@ const PhysicsNode = forwardRef<RapierRigidBody, PhysicsNodeProps>(({
                   outlineWidth={0.01}
                   outlineColor="#000000"
                 >
-                  {`${fieldName}: ${instance.metadataValues?.[fieldName]}`}
+                  {instance.metadataExpressions?.[fieldName] != null
+                    ? `${fieldName} = ${instance.metadataExpressions[fieldName]}`
+                    : `${fieldName}: ${instance.metadataValues?.[fieldName]}`}
                 </Text>
               ))}
             </>
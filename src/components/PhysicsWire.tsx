@@ -48,6 +48,7 @@ interface PhysicsWireProps {
     sourceNodeRef: React.RefObject<RapierRigidBody>;
     targetNodeRef: React.RefObject<RapierRigidBody>;
     onDeleteWire?: (wireId: string) => void;
+    onDoubleClick?: (wireId: string) => void;
     onDragStart?: () => void;
     onDragEnd?: () => void;
     targetLength?: number | null;
@@ -72,6 +73,7 @@ const PhysicsWire: React.FC<PhysicsWireProps> = ({
     sourceNodeRef,
     targetNodeRef,
     onDeleteWire,
+    onDoubleClick,
     onDragStart,
     onDragEnd,
     targetLength,
@@ -473,10 +475,20 @@ const PhysicsWire: React.FC<PhysicsWireProps> = ({
         }
     };
 
+    // --- Double Click Handler (applies a rewrite to the active pair) ---
+    const handleDoubleClick = (event: ThreeEvent<MouseEvent>) => {
+        event.stopPropagation();
+        if (onDoubleClick) {
+            console.log(`Double-clicked wire ${wireId}.`);
+            onDoubleClick(wireId);
+        }
+    };
+
     return (
         <group
             key={`${wireId}-${targetLength ?? 'default'}`}
             onContextMenu={handleContextMenu}
+            onDoubleClick={handleDoubleClick}
             onPointerLeave={handleWirePointerLeave}
         >
             {/* Render Segments (assign segment refs here) */}
@@ -0,0 +1,126 @@
+import React from 'react';
+import * as THREE from 'three';
+import { AtomicNodeDefinition, BoundaryPort, DefinitionDefinition, ProofSession, ProofSide, TheoremDefinition } from '../types';
+import { ProofSearchLimits } from '../utils/proofSearch';
+import CanvasArea from './CanvasArea';
+import './ProofWorkspace.css';
+
+interface ProofWorkspaceProps {
+  theorem: TheoremDefinition;
+  session: ProofSession;
+  atomicNodes: AtomicNodeDefinition[];
+  definitions: DefinitionDefinition[];
+  boundaryPorts: BoundaryPort[];
+  isProofComplete: boolean;
+  onApplyRuleAtWire: (side: ProofSide, wireId: string) => void;
+  onExpandDefinition: (side: ProofSide, instanceId: string) => void;
+  onUpdatePhysicsData: (side: ProofSide, instanceId: string, position: THREE.Vector3, rotation: THREE.Quaternion) => void;
+  onMarkProved: () => void;
+  onClose: () => void;
+  isSearching: boolean;
+  searchStatus: string | null;
+  searchLimits: ProofSearchLimits;
+  onSetSearchLimits: (limits: ProofSearchLimits) => void;
+  onStartSearch: () => void;
+  onCancelSearch: () => void;
+}
+
+const SIDE_LABELS: Record<ProofSide, string> = { source: 'Source', target: 'Target' };
+
+// Handlers a read-only canvas never calls
+const ignore = () => {};
+
+const ProofWorkspace: React.FC<ProofWorkspaceProps> = ({
+  theorem,
+  session,
+  atomicNodes,
+  definitions,
+  boundaryPorts,
+  isProofComplete,
+  onApplyRuleAtWire,
+  onExpandDefinition,
+  onUpdatePhysicsData,
+  onMarkProved,
+  onClose,
+  isSearching,
+  searchStatus,
+  searchLimits,
+  onSetSearchLimits,
+  onStartSearch,
+  onCancelSearch,
+}) => {
+  const setLimit = (key: keyof ProofSearchLimits, value: string) => {
+    const parsed = parseInt(value, 10);
+    if (parsed > 0) onSetSearchLimits({ ...searchLimits, [key]: parsed });
+  };
+
+  const renderSide = (side: ProofSide) => {
+    const net = session.nets[side];
+    // Search results are applied to the nets the search started from, so hand edits wait
+    return (
+      <div className="proof-side" key={side}>
+        <div className="proof-side-label">{SIDE_LABELS[side]} — {net.nodes.length} node{net.nodes.length === 1 ? '' : 's'}</div>
+        <CanvasArea
+          atomicNodeDefs={atomicNodes}
+          definitionDefs={definitions}
+          canvasNodes={net.nodes}
+          wires={net.wires}
+          drawingWire={null}
+          onAddNode={ignore}
+          onDeleteNode={ignore}
+          onStartWire={ignore}
+          onUpdateWireEnd={ignore}
+          onFinishWire={ignore}
+          onUpdateNodePhysicsData={(instanceId, position, rotation) => onUpdatePhysicsData(side, instanceId, position, rotation)}
+          isBoundaryActive={true}
+          boundaryPorts={boundaryPorts}
+          addBoundaryPort={ignore}
+          deleteBoundaryPort={ignore}
+          onAddDefinitionClick={ignore}
+          onExpandDefinition={isSearching ? undefined : (instanceId) => onExpandDefinition(side, instanceId)}
+          onUpdateInstanceMetadata={ignore}
+          onWireDoubleClick={isSearching ? undefined : (wireId) => onApplyRuleAtWire(side, wireId)}
+          isReadOnly={true}
+        />
+      </div>
+    );
+  };
+
+  return (
+    <div className="proof-workspace">
+      <div className="proof-toolbar">
+        <strong>Proving: {theorem.name}</strong>
+        <span className="proof-hint">
+          Double-click a wire to apply an axiom or proved theorem; double-click a definition to expand it.
+        </span>
+        <span className={`proof-status ${isProofComplete ? 'complete' : ''}`}>
+          {isProofComplete ? 'Both sides match' : 'Sides differ'}
+        </span>
+        <button onClick={onMarkProved} className="control-button" disabled={!isProofComplete || isSearching}>Theorem Proved</button>
+        <button onClick={onClose} className="control-button">Close</button>
+      </div>
+      <div className="proof-toolbar proof-search-bar">
+        {isSearching ? (
+          <button onClick={onCancelSearch} className="control-button">Stop Search</button>
+        ) : (
+          <button onClick={onStartSearch} className="control-button" disabled={isProofComplete}>Search Proof</button>
+        )}
+        <label>
+          Max steps
+          <input type="number" min={1} value={searchLimits.maxDepth} disabled={isSearching} onChange={(e) => setLimit('maxDepth', e.target.value)} />
+        </label>
+        <label>
+          Max nodes
+          <input type="number" min={1} value={searchLimits.maxNodes} disabled={isSearching} onChange={(e) => setLimit('maxNodes', e.target.value)} />
+        </label>
+        {searchStatus && <span className="proof-hint">{searchStatus}</span>}
+      </div>
+      <div className="proof-canvases">
+        {renderSide('source')}
+        {renderSide('target')}
+      </div>
+    </div>
+  );
+};
+
+export default ProofWorkspace;
@@ -0,0 +1,69 @@
+import React from 'react';
+import { ReductionStrategy, REDUCTION_STRATEGY_LABELS } from '../utils/reductionStrategies';
+
+interface ReductionControlsProps {
+  isRunning: boolean;
+  isDisabled: boolean;
+  hasSnapshot: boolean;
+  interactions: number;
+  strategy: ReductionStrategy;
+  statusMessage: string;
+  isPanelOpen: boolean;
+  onStep: () => void;
+  onRun: () => void;
+  onPause: () => void;
+  onReset: () => void;
+  onSetStrategy: (strategy: ReductionStrategy) => void;
+  onTogglePanel: () => void;
+}
+
+const ReductionControls: React.FC<ReductionControlsProps> = ({
+  isRunning,
+  isDisabled,
+  hasSnapshot,
+  interactions,
+  strategy,
+  statusMessage,
+  isPanelOpen,
+  onStep,
+  onRun,
+  onPause,
+  onReset,
+  onSetStrategy,
+  onTogglePanel,
+}) => {
+  return (
+    <div className="reduction-controls">
+      <button onClick={onStep} className="control-button" disabled={isDisabled || isRunning}>Step</button>
+      {isRunning ? (
+        <button onClick={onPause} className="control-button">Pause</button>
+      ) : (
+        <button onClick={onRun} className="control-button" disabled={isDisabled}>Run</button>
+      )}
+      <button
+        onClick={onReset}
+        className="control-button"
+        disabled={!hasSnapshot}
+        title="Restore the canvas as it was before the first step"
+      >
+        Reset
+      </button>
+      <select
+        value={strategy}
+        onChange={(e) => onSetStrategy(e.target.value as ReductionStrategy)}
+        title="Reduction strategy"
+        disabled={isRunning}
+      >
+        {(Object.keys(REDUCTION_STRATEGY_LABELS) as ReductionStrategy[]).map(key => (
+          <option key={key} value={key}>{REDUCTION_STRATEGY_LABELS[key]}</option>
+        ))}
+      </select>
+      <button onClick={onTogglePanel} className={`control-button ${isPanelOpen ? 'active' : ''}`}>Stats</button>
+      <span className="reduction-status">
+        Interactions: {interactions}{statusMessage && ` — ${statusMessage}`}
+      </span>
+    </div>
+  );
+};
+
+export default ReductionControls;
@@ -0,0 +1,98 @@
+import React from 'react';
+import { BoundaryPort, ReductionStats } from '../types';
+import { MultipleOptionPolicy } from '../hooks/useNormalizer';
+import { ReductionStrategy } from '../utils/reductionStrategies';
+import './EditorPanel.css';
+
+interface ReductionPanelProps {
+  stats: ReductionStats;
+  nodeCount: number;
+  strategy: ReductionStrategy;
+  boundaryPorts: BoundaryPort[];
+  rootPortId: string | null;
+  seed: number;
+  stepLimit: number;
+  policy: MultipleOptionPolicy;
+  onSetRootPort: (portId: string | null) => void;
+  onSetSeed: (seed: number) => void;
+  onSetStepLimit: (limit: number) => void;
+  onSetPolicy: (policy: MultipleOptionPolicy) => void;
+  onClose: () => void;
+}
+
+const ReductionPanel: React.FC<ReductionPanelProps> = ({
+  stats,
+  nodeCount,
+  strategy,
+  boundaryPorts,
+  rootPortId,
+  seed,
+  stepLimit,
+  policy,
+  onSetRootPort,
+  onSetSeed,
+  onSetStepLimit,
+  onSetPolicy,
+  onClose,
+}) => {
+  const sortedPorts = [...boundaryPorts].sort((a, b) => a.angle - b.angle);
+  const rootValue = sortedPorts.some(p => p.id === rootPortId) ? rootPortId! : '';
+  const firings = Object.entries(stats.ruleFirings).sort((a, b) => b[1] - a[1]);
+
+  return (
+    <div className="editor-panel reduction-panel">
+      <h3>Reduction</h3>
+
+      <label className="editor-panel-setting">
+        Root port
+        <select value={rootValue} onChange={(e) => onSetRootPort(e.target.value || null)}>
+          <option value="">None (canvas order)</option>
+          {sortedPorts.map((port, index) => (
+            <option key={port.id} value={port.id}>Boundary port {index + 1}</option>
+          ))}
+        </select>
+      </label>
+      {strategy === 'random' && (
+        <label className="editor-panel-setting">
+          Seed
+          <input type="number" value={seed} onChange={(e) => onSetSeed(Number(e.target.value) || 0)} />
+        </label>
+      )}
+      <label className="editor-panel-setting">
+        Step limit
+        <input
+          type="number"
+          min={1}
+          value={stepLimit}
+          onChange={(e) => onSetStepLimit(Math.max(1, Number(e.target.value) || 1))}
+        />
+      </label>
+      <label className="editor-panel-setting">
+        Several options
+        <select value={policy} onChange={(e) => onSetPolicy(e.target.value as MultipleOptionPolicy)}>
+          <option value="ask">Ask</option>
+          <option value="first">Use first</option>
+        </select>
+      </label>
+
+      <p className="editor-panel-hint">
+        Interactions: {stats.interactions}<br />
+        Nodes: {nodeCount} (peak {stats.peakNodeCount})
+      </p>
+      {firings.length > 0 && (
+        <ul className="editor-panel-list">
+          {firings.map(([label, count]) => (
+            <li key={label}>
+              <span>{label}</span>
+              <span>{count}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <button onClick={onClose} className="control-button">Close</button>
+    </div>
+  );
+};
+
+export default ReductionPanel;
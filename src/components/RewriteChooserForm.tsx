@@ -0,0 +1,39 @@
+import React, { useState, FormEvent } from 'react';
+import './AtomicNodeForm.css'; // Reuse styles for simplicity
+
+interface RewriteChooserFormProps {
+  choices: { key: string; label: string }[];
+  onChoose: (key: string) => void;
+  prompt?: string;
+}
+
+const RewriteChooserForm: React.FC<RewriteChooserFormProps> = ({ choices, onChoose, prompt = 'Several rules apply. Choose one:' }) => {
+  const [selectedKey, setSelectedKey] = useState(choices[0]?.key ?? '');
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (selectedKey) onChoose(selectedKey);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="atomic-node-form">
+      <div className="form-group">
+        <label htmlFor="rewrite-choice">{prompt}</label>
+        <select
+          id="rewrite-choice"
+          value={selectedKey}
+          onChange={(e) => setSelectedKey(e.target.value)}
+          autoFocus
+        >
+          {choices.map(choice => (
+            <option key={choice.key} value={choice.key}>{choice.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <button type="submit" className="submit-button">Apply</button>
+    </form>
+  );
+};
+
+export default RewriteChooserForm;
@@ -0,0 +1,27 @@
+import React from 'react';
+import { WorkspaceTemplate } from '../templates/workspaceTemplates';
+
+interface TemplateMenuProps {
+  templates: WorkspaceTemplate[];
+  onSelect: (template: WorkspaceTemplate) => void;
+  disabled?: boolean;
+}
+
+// A one-shot menu: the select always shows its placeholder and fires on each choice
+const TemplateMenu: React.FC<TemplateMenuProps> = ({ templates, onSelect, disabled }) => {
+  const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const template = templates.find(t => t.id === e.target.value);
+    if (template) onSelect(template);
+  };
+
+  return (
+    <select value="" onChange={handleChange} disabled={disabled} title="Replace the workspace with a starter library">
+      <option value="" disabled>New from template…</option>
+      {templates.map(template => (
+        <option key={template.id} value={template.id} title={template.description}>{template.name}</option>
+      ))}
+    </select>
+  );
+};
+
+export default TemplateMenu;
@@ -0,0 +1,35 @@
+import React from 'react';
+import { AtomicNodeDefinition, CanvasNodeInstance, DefinitionDefinition, TheoremDefinition } from '../types';
+import './AxiomDisplay.css';
+
+interface TheoremDisplayProps {
+  theorem: TheoremDefinition;
+  atomicNodes: AtomicNodeDefinition[];
+  definitions: DefinitionDefinition[];
+}
+
+const TheoremDisplay: React.FC<TheoremDisplayProps> = ({ theorem, atomicNodes, definitions }) => {
+  const nodeName = (node: CanvasNodeInstance) =>
+    (node.isDefinitionInstance ? definitions : atomicNodes).find(def => def.id === node.definitionId)?.name ?? '?';
+
+  const leftName = nodeName(theorem.source.leftNode);
+  const rightName = nodeName(theorem.source.rightNode);
+  const targetSize = theorem.target.nodes.length;
+
+  return (
+    <div className="axiom-display">
+      <div className="axiom-display-name">{theorem.name}</div>
+      <div className="axiom-display-pair">
+        {leftName} ⋈ {rightName} → {targetSize} node{targetSize === 1 ? '' : 's'}
+      </div>
+      <div
+        className={`theorem-status ${theorem.isProved ? 'proved' : ''} ${theorem.proofFailure ? 'failed' : ''}`}
+        title={theorem.proofFailure}
+      >
+        {theorem.isProved ? 'Proved' : theorem.proofFailure ? 'Proof failed' : 'Unproved'}
+      </div>
+    </div>
+  );
+};
+
+export default TheoremDisplay;
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { AtomicNodeDefinition, CanvasNodeInstance, DefinitionDefinition, TheoremEditorSession } from '../types';
+import './EditorPanel.css';
+
+interface TheoremEditorPanelProps {
+  session: TheoremEditorSession;
+  atomicNodes: AtomicNodeDefinition[];
+  definitions: DefinitionDefinition[];
+  canvasNodes: CanvasNodeInstance[];
+  onCaptureSource: () => void;
+  onSave: (name: string) => void;
+  onCancel: () => void;
+}
+
+const TheoremEditorPanel: React.FC<TheoremEditorPanelProps> = ({
+  session,
+  atomicNodes,
+  definitions,
+  canvasNodes,
+  onCaptureSource,
+  onSave,
+  onCancel,
+}) => {
+  const [name, setName] = useState('');
+
+  // During the source stage the pair is on the canvas; afterwards it lives in the session
+  const pairNames = [session.source?.leftNode, session.source?.rightNode].map((node, i) => {
+    const instance = node ?? canvasNodes.find(n => n.instanceId === (i === 0 ? session.leftNodeId : session.rightNodeId));
+    const library = instance?.isDefinitionInstance ? definitions : atomicNodes;
+    return library.find(def => def.id === instance?.definitionId)?.name ?? '?';
+  });
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      alert('Theorem name cannot be empty.');
+      return;
+    }
+    onSave(name.trim());
+  };
+
+  return (
+    <div className="editor-panel">
+      <h3>Theorem: {pairNames[0]} ⋈ {pairNames[1]}</h3>
+
+      {session.stage === 'source' && (
+        <>
+          <p className="editor-panel-hint">
+            Click the dashed circle to add boundary ports, then connect every remaining port of the pair to one.
+            Boundary ports cannot be connected to each other.
+          </p>
+          <button onClick={onCaptureSource} className="control-button">Capture Source</button>
+        </>
+      )}
+
+      {session.stage === 'target' && (
+        <>
+          <p className="editor-panel-hint">
+            Build the target diagram against the same {session.externalPorts.length} boundary ports.
+          </p>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Theorem name"
+            className="editor-panel-input"
+          />
+          <button onClick={handleSave} className="control-button">Save Theorem</button>
+        </>
+      )}
+
+      <button onClick={onCancel} className="control-button">Cancel</button>
+    </div>
+  );
+};
+
+export default TheoremEditorPanel;
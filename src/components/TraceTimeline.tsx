@@ -0,0 +1,64 @@
+import React, { useRef, ChangeEvent } from 'react';
+import { AxiomDefinition, ReductionTrace } from '../types';
+import './TraceTimeline.css';
+
+interface TraceTimelineProps {
+  trace: ReductionTrace | null;
+  cursor: number;
+  axioms: AxiomDefinition[];
+  isDisabled: boolean;
+  onScrub: (step: number) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+  onClear: () => void;
+}
+
+const TraceTimeline: React.FC<TraceTimelineProps> = ({ trace, cursor, axioms, isDisabled, onScrub, onExport, onImport, onClear }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const total = trace?.entries.length ?? 0;
+
+  // Describes the rewrite that produced the current step
+  const describeStep = () => {
+    if (!trace || cursor === 0) return 'Start';
+    const entry = trace.entries[cursor - 1];
+    const axiomName = axioms.find(a => a.id === entry.axiomId)?.name ?? entry.axiomId;
+    return `${axiomName}: ${entry.optionLabel}`;
+  };
+
+  const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) onImport(file);
+    event.target.value = ''; // Allow importing the same file again
+  };
+
+  return (
+    <div className="trace-timeline">
+      <button onClick={() => onScrub(cursor - 1)} className="control-button" disabled={isDisabled || cursor <= 0}>◀</button>
+      <input
+        type="range"
+        min={0}
+        max={total}
+        value={cursor}
+        onChange={(e) => onScrub(Number(e.target.value))}
+        disabled={isDisabled || !trace}
+        className="trace-slider"
+      />
+      <button onClick={() => onScrub(cursor + 1)} className="control-button" disabled={isDisabled || cursor >= total}>▶</button>
+      <span className="trace-step-label">
+        {trace ? `Step ${cursor} / ${total} — ${describeStep()}` : 'No reduction recorded'}
+      </span>
+      <button onClick={onExport} className="control-button" disabled={!trace}>Export Trace</button>
+      <button onClick={() => fileInputRef.current?.click()} className="control-button" disabled={isDisabled}>Import Trace</button>
+      <button onClick={onClear} className="control-button" disabled={!trace}>Clear</button>
+      <input
+        type="file"
+        ref={fileInputRef}
+        onChange={handleFileChange}
+        accept=".json"
+        style={{ display: 'none' }}
+      />
+    </div>
+  );
+};
+
+export default TraceTimeline;
@@ -0,0 +1,230 @@
+import { useState, useCallback, Dispatch, SetStateAction, MutableRefObject } from 'react';
+import { AtomicNodeDefinition, AxiomDefinition, AxiomEditorSession, AxiomOption, BoundaryPort, CanvasNodeInstance, NodePhysicsData, RuleDiagram, WireConnection } from '../types';
+import { findDanglingPorts, inferExternalPorts } from '../utils/boundaryInterface';
+import { findPrincipalWireBetween } from '../utils/activePairs';
+import { captureNodePositions } from '../utils/nodePositions';
+import { validateGuardExpression } from '../utils/guardExpressionParser';
+import { hasBoundaryToBoundaryWire, newId, placePairNode } from '../net/netElements';
+
+// Where the interacting pair is placed inside the boundary while capturing the source
+const PAIR_OFFSET_X = 1.6;
+
+interface UseAxiomEditorArgs {
+  atomicNodes: AtomicNodeDefinition[];
+  canvasNodes: CanvasNodeInstance[];
+  wires: WireConnection[];
+  boundaryPorts: BoundaryPort[];
+  isBoundaryActive: boolean;
+  selectedNodeIds: string[];
+  nodePhysicsData: MutableRefObject<NodePhysicsData>;
+  setCanvasNodes: Dispatch<SetStateAction<CanvasNodeInstance[]>>;
+  setWires: Dispatch<SetStateAction<WireConnection[]>>;
+  setBoundaryPorts: Dispatch<SetStateAction<BoundaryPort[]>>;
+  setIsBoundaryActive: Dispatch<SetStateAction<boolean>>;
+  setAxioms: Dispatch<SetStateAction<AxiomDefinition[]>>;
+  clearSelection: () => void;
+}
+
+// Describes every computed metadata field whose expression does not parse
+const findInvalidMetadataExpressions = (nodes: CanvasNodeInstance[]): string[] =>
+  nodes.flatMap(node => Object.entries(node.metadataExpressions ?? {})
+    .map(([field, source]) => [field, validateGuardExpression(source)] as const)
+    .filter(([, error]) => error !== null)
+    .map(([field, error]) => `Node ${node.instanceId}, field "${field}": ${error}`));
+
+/**
+ * State machine behind the "Add Axiom" flow: capture the starting configuration of
+ * an active pair against the dashed boundary, then author result options against the
+ * same frozen boundary ports. The user's canvas is stashed for the duration.
+ */
+export const useAxiomEditor = ({
+  atomicNodes, canvasNodes, wires, boundaryPorts, isBoundaryActive, selectedNodeIds, nodePhysicsData,
+  setCanvasNodes, setWires, setBoundaryPorts, setIsBoundaryActive, setAxioms, clearSelection,
+}: UseAxiomEditorArgs) => {
+  const [axiomSession, setAxiomSession] = useState<AxiomEditorSession | null>(null);
+  const [pendingOptionDiagram, setPendingOptionDiagram] = useState<RuleDiagram | null>(null);
+
+  const restoreStashedCanvas = useCallback((session: AxiomEditorSession) => {
+    const { stashedCanvas } = session;
+    setCanvasNodes(stashedCanvas.nodes);
+    setWires(stashedCanvas.wires);
+    setBoundaryPorts(stashedCanvas.boundaryPorts);
+    setIsBoundaryActive(stashedCanvas.isBoundaryActive);
+    setPendingOptionDiagram(null);
+    setAxiomSession(null);
+  }, [setCanvasNodes, setWires, setBoundaryPorts, setIsBoundaryActive]);
+
+  const startAxiomEditor = useCallback(() => {
+    if (axiomSession) {
+      alert("Finish or cancel the current axiom first.");
+      return;
+    }
+    const selected = selectedNodeIds
+      .map(id => canvasNodes.find(n => n.instanceId === id))
+      .filter((n): n is CanvasNodeInstance => !!n);
+    if (selected.length !== 2 || selected.some(n => n.isDefinitionInstance)) {
+      alert("Error: Select exactly two atomic nodes (Ctrl+click) to add an axiom.");
+      return;
+    }
+    const [first, second] = selected;
+    const activeWire = findPrincipalWireBetween(wires, first, second, atomicNodes);
+    if (!activeWire) {
+      alert("Error: The selected nodes must be joined principal port to principal port.");
+      return;
+    }
+
+    const leftNode = placePairNode(first, -PAIR_OFFSET_X);
+    const rightNode = placePairNode(second, PAIR_OFFSET_X);
+    const firstIsSource = activeWire.sourceNodeId === first.instanceId;
+    const pairWire: WireConnection = {
+      id: newId('wire'),
+      sourceNodeId: leftNode.instanceId,
+      sourcePortIndex: firstIsSource ? activeWire.sourcePortIndex : activeWire.targetPortIndex,
+      targetNodeId: rightNode.instanceId,
+      targetPortIndex: firstIsSource ? activeWire.targetPortIndex : activeWire.sourcePortIndex,
+      targetLength: null,
+    };
+
+    setAxiomSession({
+      stage: 'source',
+      leftNodeId: leftNode.instanceId,
+      rightNodeId: rightNode.instanceId,
+      source: null,
+      externalPorts: [],
+      options: [],
+      stashedCanvas: {
+        nodes: captureNodePositions(canvasNodes, nodePhysicsData.current),
+        wires,
+        boundaryPorts,
+        isBoundaryActive,
+      },
+    });
+    clearSelection();
+    setCanvasNodes([leftNode, rightNode]);
+    setWires([pairWire]);
+    setBoundaryPorts([]);
+    setIsBoundaryActive(true);
+    console.log("Axiom editor started for pair:", leftNode.definitionId, rightNode.definitionId);
+  }, [axiomSession, selectedNodeIds, canvasNodes, wires, atomicNodes, boundaryPorts, isBoundaryActive, nodePhysicsData,
+      clearSelection, setCanvasNodes, setWires, setBoundaryPorts, setIsBoundaryActive]);
+
+  const captureAxiomSource = useCallback(() => {
+    if (!axiomSession || axiomSession.stage !== 'source') return;
+    const leftNode = canvasNodes.find(n => n.instanceId === axiomSession.leftNodeId);
+    const rightNode = canvasNodes.find(n => n.instanceId === axiomSession.rightNodeId);
+    if (!leftNode || !rightNode || canvasNodes.length !== 2) {
+      alert("Error: The starting configuration may only contain the interacting pair.");
+      return;
+    }
+    if (!findPrincipalWireBetween(wires, leftNode, rightNode, atomicNodes)) {
+      alert("Error: The pair must stay joined principal port to principal port.");
+      return;
+    }
+    if (hasBoundaryToBoundaryWire(wires)) {
+      alert("Error: Boundary ports cannot be connected to each other in the starting configuration.");
+      return;
+    }
+    const danglingPorts = findDanglingPorts(canvasNodes, wires, boundaryPorts, atomicNodes);
+    if (danglingPorts.length > 0) {
+      alert(`Error: Connect every port of the pair to the boundary. Dangling ports found:\n - ${danglingPorts.join('\n - ')}`);
+      return;
+    }
+
+    const [capturedLeft, capturedRight] = captureNodePositions([leftNode, rightNode], nodePhysicsData.current);
+    setAxiomSession({
+      ...axiomSession,
+      stage: 'results',
+      source: { leftNode: capturedLeft, rightNode: capturedRight, wires: [...wires] },
+      externalPorts: inferExternalPorts(boundaryPorts, wires, canvasNodes, atomicNodes),
+    });
+    setCanvasNodes([]);
+    setWires([]);
+    console.log("Axiom starting configuration captured with", boundaryPorts.length, "boundary ports.");
+  }, [axiomSession, canvasNodes, wires, boundaryPorts, atomicNodes, nodePhysicsData, setCanvasNodes, setWires]);
+
+  // Validates the current canvas as a result diagram and opens the option form for it
+  const requestAxiomOption = useCallback(() => {
+    if (!axiomSession || axiomSession.stage !== 'results') return;
+    const danglingPorts = findDanglingPorts(canvasNodes, wires, boundaryPorts, atomicNodes);
+    if (danglingPorts.length > 0) {
+      alert(`Error: A result option cannot have dangling ports. Dangling ports found:\n - ${danglingPorts.join('\n - ')}`);
+      return;
+    }
+    const invalidExpressions = findInvalidMetadataExpressions(canvasNodes);
+    if (invalidExpressions.length > 0) {
+      alert(`Error: Invalid computed metadata:\n - ${invalidExpressions.join('\n - ')}`);
+      return;
+    }
+    setPendingOptionDiagram({
+      nodes: captureNodePositions(canvasNodes, nodePhysicsData.current),
+      wires: [...wires],
+    });
+  }, [axiomSession, canvasNodes, wires, boundaryPorts, atomicNodes, nodePhysicsData]);
+
+  const cancelAxiomOption = useCallback(() => {
+    setPendingOptionDiagram(null);
+  }, []);
+
+  const addAxiomOption = useCallback((label: string, guard: string) => {
+    if (!axiomSession || !pendingOptionDiagram) return;
+    const guardError = validateGuardExpression(guard);
+    if (guardError) {
+      alert(`Error: Invalid guard for option "${label}": ${guardError}`);
+      return;
+    }
+    if (axiomSession.options.some(option => option.label === label)) {
+      alert(`Error: An option labelled "${label}" already exists in this axiom.`);
+      return;
+    }
+    const option: AxiomOption = {
+      id: newId('opt'),
+      label,
+      guard,
+      diagram: pendingOptionDiagram,
+    };
+    setAxiomSession({ ...axiomSession, options: [...axiomSession.options, option] });
+    setPendingOptionDiagram(null);
+    setCanvasNodes([]);
+    setWires([]);
+  }, [axiomSession, pendingOptionDiagram, setCanvasNodes, setWires]);
+
+  const removeAxiomOption = useCallback((optionId: string) => {
+    if (!axiomSession) return;
+    setAxiomSession({ ...axiomSession, options: axiomSession.options.filter(option => option.id !== optionId) });
+  }, [axiomSession]);
+
+  const saveAxiom = useCallback((name: string) => {
+    if (!axiomSession || !axiomSession.source) return;
+    if (axiomSession.options.length === 0) {
+      alert("Error: An axiom needs at least one result option.");
+      return;
+    }
+    const newAxiom: AxiomDefinition = {
+      id: newId('axiom'),
+      name,
+      source: axiomSession.source,
+      externalPorts: axiomSession.externalPorts,
+      options: axiomSession.options,
+    };
+    setAxioms(prev => [...prev, newAxiom]);
+    console.log("Axiom created:", newAxiom);
+    restoreStashedCanvas(axiomSession);
+  }, [axiomSession, setAxioms, restoreStashedCanvas]);
+
+  const cancelAxiomEditor = useCallback(() => {
+    if (axiomSession) restoreStashedCanvas(axiomSession);
+  }, [axiomSession, restoreStashedCanvas]);
+
+  return {
+    axiomSession,
+    pendingOptionDiagram,
+    startAxiomEditor,
+    captureAxiomSource,
+    requestAxiomOption,
+    cancelAxiomOption,
+    addAxiomOption,
+    removeAxiomOption,
+    saveAxiom,
+    cancelAxiomEditor,
+  };
+};
@@ -0,0 +1,117 @@
+import { useState, useCallback, Dispatch, SetStateAction, MutableRefObject } from 'react';
+import { AtomicNodeDefinition, AxiomDefinition, CanvasNodeInstance, NodePhysicsData, TraceEntry, WireConnection } from '../types';
+import { RewriteChoice, buildAxiomRewrite, findAxiomMatches, getActivePair, listRewriteChoices } from '../utils/axiomApplication';
+import { NetInvariantError, createNet, substitute } from '../net/netModel';
+import { createTraceEntry } from '../utils/reductionTrace';
+import { carryRedexes } from '../utils/redexSearch';
+
+export type CanvasState = { nodes: CanvasNodeInstance[]; wires: WireConnection[] };
+
+interface UseAxiomRewritingArgs {
+  atomicNodes: AtomicNodeDefinition[];
+  canvasNodes: CanvasNodeInstance[];
+  wires: WireConnection[];
+  axioms: AxiomDefinition[];
+  nodePhysicsData: MutableRefObject<NodePhysicsData>;
+  setCanvasNodes: Dispatch<SetStateAction<CanvasNodeInstance[]>>;
+  setWires: Dispatch<SetStateAction<WireConnection[]>>;
+  setSelectedNodeIds: Dispatch<SetStateAction<string[]>>;
+  onRewritesApplied?: (before: CanvasState, entries: TraceEntry[], after: CanvasState) => void;
+  recordEdit?: (label: string) => void; // Hand-applied rewrites go into the edit history
+}
+
+const getNodeName = (node: CanvasNodeInstance, atomicNodes: AtomicNodeDefinition[]) =>
+  atomicNodes.find(def => def.id === node.definitionId)?.name ?? node.definitionId;
+
+/**
+ * Rewrites active pairs on the canvas with library axioms. A single applicable option is
+ * applied straight away; several put a choice in front of the user.
+ */
+export const useAxiomRewriting = ({
+  atomicNodes, canvasNodes, wires, axioms, nodePhysicsData, setCanvasNodes, setWires, setSelectedNodeIds, onRewritesApplied, recordEdit,
+}: UseAxiomRewritingArgs) => {
+  const [pendingRewriteChoices, setPendingRewriteChoices] = useState<RewriteChoice[] | null>(null);
+
+  // Fires several rewrites as one canvas update; the redexes must not share nodes.
+  // Returns the rewritten canvas, or null, leaving the canvas and history as they were, when a
+  // rewrite would break the net. The edit label, when given, is recorded once every rewrite has gone through
+  const applyRewrites = useCallback((choices: RewriteChoice[], editLabel?: string): CanvasState | null => {
+    let nodes = canvasNodes;
+    let currentWires = wires;
+    const removedNodeIds: string[] = [];
+    const entries: TraceEntry[] = [];
+    for (const choice of choices) {
+      const substitution = buildAxiomRewrite(currentWires, choice.match, choice.option, nodePhysicsData.current);
+      let next;
+      try {
+        next = substitute(createNet(nodes, currentWires), substitution);
+      } catch (error) {
+        if (!(error instanceof NetInvariantError)) throw error;
+        alert(`Error: Cannot apply axiom ${choice.match.axiom.name}. ${error.message}`);
+        return null;
+      }
+      carryRedexes({ nodes, wires: currentWires }, next, substitution);
+      ({ nodes, wires: currentWires } = next);
+      removedNodeIds.push(...substitution.removedNodeIds);
+      entries.push(createTraceEntry(choice, substitution));
+      console.log(`Applied axiom "${choice.match.axiom.name}" option "${choice.option.label}":`, substitution);
+    }
+    if (editLabel !== undefined) recordEdit?.(editLabel);
+    setCanvasNodes(nodes);
+    setWires(currentWires);
+    onRewritesApplied?.({ nodes: canvasNodes, wires }, entries, { nodes, wires: currentWires });
+    removedNodeIds.forEach(id => nodePhysicsData.current.delete(id));
+    setSelectedNodeIds(prev => prev.filter(id => !removedNodeIds.includes(id)));
+    return { nodes, wires: currentWires };
+  }, [canvasNodes, wires, nodePhysicsData, setCanvasNodes, setWires, setSelectedNodeIds, onRewritesApplied, recordEdit]);
+
+  const applyRewrite = useCallback((choice: RewriteChoice) => {
+    applyRewrites([choice], `Apply axiom ${choice.match.axiom.name}`);
+  }, [applyRewrites]);
+
+  const applyAxiomAtWire = useCallback((wireId: string) => {
+    const wire = wires.find(w => w.id === wireId);
+    if (!wire) return;
+    const pair = getActivePair(wire, canvasNodes, atomicNodes);
+    if (!pair) {
+      console.log(`Wire ${wireId} does not join an active pair.`);
+      return;
+    }
+    const pairName = `${getNodeName(pair[0], atomicNodes)} ⋈ ${getNodeName(pair[1], atomicNodes)}`;
+    const matches = findAxiomMatches(wire, canvasNodes, axioms, atomicNodes);
+    if (matches.length === 0) {
+      alert(`Error: No axiom is defined for the active pair ${pairName}.`);
+      return;
+    }
+    const choices = listRewriteChoices(wire, canvasNodes, axioms, atomicNodes);
+    if (choices.length === 0) {
+      alert(`Error: No option's guard holds for the active pair ${pairName}.`);
+      return;
+    }
+    if (choices.length === 1) {
+      applyRewrite(choices[0]);
+      return;
+    }
+    setPendingRewriteChoices(choices);
+  }, [wires, canvasNodes, atomicNodes, axioms, applyRewrite]);
+
+  const chooseRewrite = useCallback((key: string) => {
+    const choice = pendingRewriteChoices?.find(c => c.key === key);
+    setPendingRewriteChoices(null);
+    if (choice) applyRewrite(choice);
+  }, [pendingRewriteChoices, applyRewrite]);
+
+  const cancelRewriteChoice = useCallback(() => {
+    setPendingRewriteChoices(null);
+  }, []);
+
+  return {
+    pendingRewriteChoices,
+    applyRewrite,
+    applyRewrites,
+    offerRewriteChoices: setPendingRewriteChoices,
+    applyAxiomAtWire,
+    chooseRewrite,
+    cancelRewriteChoice,
+  };
+};
@@ -0,0 +1,123 @@
+import { useState, useCallback, useMemo, Dispatch, SetStateAction, MutableRefObject } from 'react';
+import { AtomicNodeDefinition, BoundaryPort, CanvasNodeInstance, DefinitionDefinition, DefinitionEditorSession, NodePhysicsData, WireConnection } from '../types';
+import { findDanglingPorts, inferExternalPorts, restoreBoundaryPorts } from '../utils/boundaryInterface';
+import { findNestingCycle } from '../utils/definitionExpansion';
+import { captureNodePositions } from '../utils/nodePositions';
+
+// Ports are drawn on the boundary by angle, so any radius restores the stored layout
+const EDITOR_BOUNDARY_RADIUS = 5;
+
+interface UseDefinitionEditorArgs {
+  atomicNodes: AtomicNodeDefinition[];
+  definitions: DefinitionDefinition[];
+  canvasNodes: CanvasNodeInstance[];
+  wires: WireConnection[];
+  boundaryPorts: BoundaryPort[];
+  isBoundaryActive: boolean;
+  nodePhysicsData: MutableRefObject<NodePhysicsData>;
+  setCanvasNodes: Dispatch<SetStateAction<CanvasNodeInstance[]>>;
+  setWires: Dispatch<SetStateAction<WireConnection[]>>;
+  setBoundaryPorts: Dispatch<SetStateAction<BoundaryPort[]>>;
+  setIsBoundaryActive: Dispatch<SetStateAction<boolean>>;
+  clearSelection: () => void;
+}
+
+// A validated edit, handed back so the caller can commit it with its dependents in view
+export interface DefinitionEdit {
+  previous: DefinitionDefinition;
+  updated: DefinitionDefinition;
+  canvas: { nodes: CanvasNodeInstance[]; wires: WireConnection[] }; // The user's canvas, restored on close
+}
+
+/**
+ * Opens an existing definition's internal net against its boundary ports so it can be
+ * changed in place. The user's canvas is stashed until the editor is closed. Saving validates
+ * the net like "Add Current Canvas as Definition" and returns the edit without storing it or
+ * closing the editor, so the caller can still back out to it.
+ */
+export const useDefinitionEditor = ({
+  atomicNodes, definitions, canvasNodes, wires, boundaryPorts, isBoundaryActive, nodePhysicsData,
+  setCanvasNodes, setWires, setBoundaryPorts, setIsBoundaryActive, clearSelection,
+}: UseDefinitionEditorArgs) => {
+  const [definitionSession, setDefinitionSession] = useState<DefinitionEditorSession | null>(null);
+  const editingDefinition = useMemo(
+    () => definitions.find(d => d.id === definitionSession?.definitionId) ?? null,
+    [definitions, definitionSession]
+  );
+
+  const restoreStashedCanvas = useCallback((session: DefinitionEditorSession) => {
+    const { stashedCanvas } = session;
+    setCanvasNodes(stashedCanvas.nodes);
+    setWires(stashedCanvas.wires);
+    setBoundaryPorts(stashedCanvas.boundaryPorts);
+    setIsBoundaryActive(stashedCanvas.isBoundaryActive);
+    setDefinitionSession(null);
+  }, [setCanvasNodes, setWires, setBoundaryPorts, setIsBoundaryActive]);
+
+  const startDefinitionEditor = useCallback((definition: DefinitionDefinition) => {
+    if (definitionSession) {
+      alert("Finish or cancel the current definition edit first.");
+      return;
+    }
+    setDefinitionSession({
+      definitionId: definition.id,
+      stashedCanvas: {
+        nodes: captureNodePositions(canvasNodes, nodePhysicsData.current),
+        wires,
+        boundaryPorts,
+        isBoundaryActive,
+      },
+    });
+    clearSelection();
+    setCanvasNodes(definition.internalNodes);
+    setWires(definition.internalWires);
+    setBoundaryPorts(restoreBoundaryPorts(definition.externalPorts, EDITOR_BOUNDARY_RADIUS));
+    setIsBoundaryActive(true);
+    console.log("Definition editor started for:", definition.name);
+  }, [definitionSession, canvasNodes, wires, boundaryPorts, isBoundaryActive, nodePhysicsData,
+      clearSelection, setCanvasNodes, setWires, setBoundaryPorts, setIsBoundaryActive]);
+
+  const saveDefinitionEdit = useCallback((name: string, color: string): DefinitionEdit | null => {
+    if (!definitionSession || !editingDefinition) return null;
+    if (boundaryPorts.length === 0) {
+      alert("Error: Definition must have at least one external connection (boundary port).");
+      return null;
+    }
+    const danglingPorts = findDanglingPorts(canvasNodes, wires, boundaryPorts, atomicNodes, definitions);
+    if (danglingPorts.length > 0) {
+      alert(`Error: Cannot save definition. All internal and boundary ports must be connected. Dangling ports found:\n - ${danglingPorts.join('\n - ')}`);
+      return null;
+    }
+    const cycle = findNestingCycle(canvasNodes, definitions, [editingDefinition.id]);
+    if (cycle) {
+      alert(`Error: Cannot save definition. It would contain itself: ${cycle.join(' → ')}`);
+      return null;
+    }
+
+    const updated: DefinitionDefinition = {
+      ...editingDefinition,
+      name,
+      color,
+      internalNodes: captureNodePositions(canvasNodes, nodePhysicsData.current),
+      internalWires: [...wires],
+      externalPorts: inferExternalPorts(boundaryPorts, wires, canvasNodes, atomicNodes, definitions),
+      staleReason: undefined,
+    };
+    const { stashedCanvas } = definitionSession;
+    console.log("Definition edited:", updated);
+    return { previous: editingDefinition, updated, canvas: { nodes: stashedCanvas.nodes, wires: stashedCanvas.wires } };
+  }, [definitionSession, editingDefinition, canvasNodes, wires, boundaryPorts, atomicNodes, definitions, nodePhysicsData]);
+
+  // Puts the user's canvas back, whether the edit was committed or abandoned
+  const closeDefinitionEditor = useCallback(() => {
+    if (definitionSession) restoreStashedCanvas(definitionSession);
+  }, [definitionSession, restoreStashedCanvas]);
+
+  return {
+    definitionSession,
+    editingDefinition,
+    startDefinitionEditor,
+    saveDefinitionEdit,
+    closeDefinitionEditor,
+  };
+};
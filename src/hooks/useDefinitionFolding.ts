@@ -0,0 +1,69 @@
+import { useState, useCallback, Dispatch, SetStateAction, MutableRefObject } from 'react';
+import { CanvasNodeInstance, DefinitionDefinition, NodePhysicsData, WireConnection } from '../types';
+import { buildDefinitionFolding } from '../utils/definitionFolding';
+import { NetInvariantError, createNet, substitute } from '../net/netModel';
+
+interface UseDefinitionFoldingArgs {
+  definitions: DefinitionDefinition[];
+  canvasNodes: CanvasNodeInstance[];
+  wires: WireConnection[];
+  selectedNodeIds: string[];
+  nodePhysicsData: MutableRefObject<NodePhysicsData>;
+  setCanvasNodes: Dispatch<SetStateAction<CanvasNodeInstance[]>>;
+  setWires: Dispatch<SetStateAction<WireConnection[]>>;
+  setSelectedNodeIds: Dispatch<SetStateAction<string[]>>;
+  recordEdit?: (label: string) => void;
+}
+
+/**
+ * Folds the selected nodes back into a definition instance, the inverse of expanding one.
+ * The user picks the definition; the selection must match its internal net.
+ */
+export const useDefinitionFolding = ({
+  definitions, canvasNodes, wires, selectedNodeIds, nodePhysicsData, setCanvasNodes, setWires, setSelectedNodeIds, recordEdit,
+}: UseDefinitionFoldingArgs) => {
+  const [isFoldChoiceOpen, setIsFoldChoiceOpen] = useState(false);
+
+  const startFold = useCallback(() => {
+    if (selectedNodeIds.length === 0) {
+      alert("Error: Select the nodes to fold first (Ctrl+click).");
+      return;
+    }
+    if (definitions.length === 0) {
+      alert("Error: There are no definitions to fold into.");
+      return;
+    }
+    setIsFoldChoiceOpen(true);
+  }, [selectedNodeIds, definitions]);
+
+  const foldIntoDefinition = useCallback((definitionId: string) => {
+    setIsFoldChoiceOpen(false);
+    const definition = definitions.find(d => d.id === definitionId);
+    if (!definition) return;
+    const substitution = buildDefinitionFolding(canvasNodes, wires, selectedNodeIds, definition, nodePhysicsData.current);
+    if (!substitution) {
+      alert(`Error: The selection does not match the internal net of ${definition.name}.`);
+      return;
+    }
+    let next;
+    try {
+      next = substitute(createNet(canvasNodes, wires), substitution);
+    } catch (error) {
+      if (!(error instanceof NetInvariantError)) throw error;
+      alert(`Error: Cannot fold into ${definition.name}. ${error.message}`);
+      return;
+    }
+    recordEdit?.(`Fold into ${definition.name}`);
+    setCanvasNodes(next.nodes);
+    setWires(next.wires);
+    substitution.removedNodeIds.forEach(id => nodePhysicsData.current.delete(id));
+    setSelectedNodeIds([]);
+    console.log(`Folded ${substitution.removedNodeIds.length} nodes into "${definition.name}":`, substitution);
+  }, [definitions, canvasNodes, wires, selectedNodeIds, nodePhysicsData, setCanvasNodes, setWires, setSelectedNodeIds, recordEdit]);
+
+  const cancelFold = useCallback(() => {
+    setIsFoldChoiceOpen(false);
+  }, []);
+
+  return { isFoldChoiceOpen, startFold, foldIntoDefinition, cancelFold };
+};
@@ -0,0 +1,211 @@
+import { useState, useCallback, useEffect, useRef, Dispatch, SetStateAction, MutableRefObject } from 'react';
+import { AtomicNodeDefinition, AxiomDefinition, BoundaryPort, CanvasNodeInstance, DefinitionDefinition, NodePhysicsData, TheoremDefinition, WireConnection } from '../types';
+import { captureNodePositions } from '../utils/nodePositions';
+import { newId } from '../net/netElements';
+
+// Older steps are dropped once the undo stack grows past this
+const MAX_HISTORY = 100;
+
+// Coalesced edits further apart than this count as separate gestures
+const GESTURE_GAP_MS = 1000;
+
+// Everything an undo step puts back: the canvas with its layout, the boundary and the library
+interface WorkspaceSnapshot {
+  canvasNodes: CanvasNodeInstance[];
+  wires: WireConnection[];
+  boundaryPorts: BoundaryPort[];
+  isBoundaryActive: boolean;
+  atomicNodes: AtomicNodeDefinition[];
+  definitions: DefinitionDefinition[];
+  axioms: AxiomDefinition[];
+  theorems: TheoremDefinition[];
+}
+
+type LibrarySnapshot = Pick<WorkspaceSnapshot, 'atomicNodes' | 'definitions' | 'axioms' | 'theorems'>;
+
+// On the undo stack the snapshot is the workspace before the edit; on the redo stack, after it
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  snapshot: WorkspaceSnapshot;
+}
+
+interface EditHistory {
+  undoStack: HistoryEntry[]; // Most recent edit last
+  redoStack: HistoryEntry[]; // Next edit to redo last
+}
+
+// The last entry recorded under a coalescing key, while it is still the top of the undo stack
+interface CoalescedEdit {
+  key: string;
+  time: number;
+}
+
+// An editor or proof owns the canvas; its changes become one entry when it closes
+interface EditorSession {
+  editorName: string;
+  library: LibrarySnapshot;
+}
+
+interface UseEditHistoryArgs {
+  atomicNodes: AtomicNodeDefinition[];
+  canvasNodes: CanvasNodeInstance[];
+  wires: WireConnection[];
+  boundaryPorts: BoundaryPort[];
+  isBoundaryActive: boolean;
+  definitions: DefinitionDefinition[];
+  axioms: AxiomDefinition[];
+  theorems: TheoremDefinition[];
+  nodePhysicsData: MutableRefObject<NodePhysicsData>;
+  setAtomicNodes: Dispatch<SetStateAction<AtomicNodeDefinition[]>>;
+  setCanvasNodes: Dispatch<SetStateAction<CanvasNodeInstance[]>>;
+  setWires: Dispatch<SetStateAction<WireConnection[]>>;
+  setBoundaryPorts: Dispatch<SetStateAction<BoundaryPort[]>>;
+  setIsBoundaryActive: Dispatch<SetStateAction<boolean>>;
+  setDefinitions: Dispatch<SetStateAction<DefinitionDefinition[]>>;
+  setAxioms: Dispatch<SetStateAction<AxiomDefinition[]>>;
+  setTheorems: Dispatch<SetStateAction<TheoremDefinition[]>>;
+  setSelectedNodeIds: Dispatch<SetStateAction<string[]>>;
+}
+
+const pickLibrary = (snapshot: WorkspaceSnapshot): LibrarySnapshot => ({
+  atomicNodes: snapshot.atomicNodes,
+  definitions: snapshot.definitions,
+  axioms: snapshot.axioms,
+  theorems: snapshot.theorems,
+});
+
+// Moves entries from the top of one stack to the other, swapping each entry's snapshot for the workspace it replaces
+const moveEntries = (from: HistoryEntry[], to: HistoryEntry[], count: number, current: WorkspaceSnapshot) => {
+  const nextFrom = [...from];
+  const nextTo = [...to];
+  let snapshot = current;
+  for (let i = 0; i < count; i++) {
+    const entry = nextFrom.pop()!;
+    nextTo.push({ ...entry, snapshot });
+    snapshot = entry.snapshot;
+  }
+  return { from: nextFrom, to: nextTo, snapshot };
+};
+
+/**
+ * Undo/redo for workspace edits. Callers record an edit just before making it; the hook
+ * snapshots the workspace, with node positions taken from the physics simulation, so
+ * undoing restores the layout as well as the net.
+ * While an editor or proof owns the canvas, recording and undo are suspended, and any
+ * library change it makes is recorded as one entry when it closes.
+ */
+export const useEditHistory = ({
+  atomicNodes, canvasNodes, wires, boundaryPorts, isBoundaryActive, definitions, axioms, theorems, nodePhysicsData,
+  setAtomicNodes, setCanvasNodes, setWires, setBoundaryPorts, setIsBoundaryActive, setDefinitions, setAxioms, setTheorems,
+  setSelectedNodeIds,
+}: UseEditHistoryArgs) => {
+  const [history, setHistory] = useState<EditHistory>({ undoStack: [], redoStack: [] });
+  const [suspendedBy, setSuspendedBy] = useState<string | null>(null);
+  const sessionRef = useRef<EditorSession | null>(null);
+  const coalescedRef = useRef<CoalescedEdit | null>(null);
+  // Edits are recorded from handlers and timers; they snapshot the last rendered workspace
+  const workspace: WorkspaceSnapshot = { canvasNodes, wires, boundaryPorts, isBoundaryActive, atomicNodes, definitions, axioms, theorems };
+  const workspaceRef = useRef(workspace);
+  useEffect(() => {
+    workspaceRef.current = workspace;
+  });
+
+  const takeSnapshot = useCallback((): WorkspaceSnapshot => ({
+    ...workspaceRef.current,
+    canvasNodes: captureNodePositions(workspaceRef.current.canvasNodes, nodePhysicsData.current),
+  }), [nodePhysicsData]);
+
+  const pushEntry = useCallback((label: string, snapshot: WorkspaceSnapshot) => {
+    const entry: HistoryEntry = { id: newId('edit'), label, snapshot };
+    coalescedRef.current = null;
+    setHistory(prev => ({ undoStack: [...prev.undoStack, entry].slice(-MAX_HISTORY), redoStack: [] }));
+    console.log(`Recorded edit: ${label}`);
+  }, []);
+
+  /**
+   * Call just before changing the workspace. Edits passing the same coalesce key in quick
+   * succession, such as the wheel steps of one drag, share the entry of the first.
+   */
+  const recordEdit = useCallback((label: string, coalesceKey?: string) => {
+    if (sessionRef.current) return;
+    const now = Date.now();
+    const coalesced = coalescedRef.current;
+    if (coalesceKey !== undefined && coalesced?.key === coalesceKey && now - coalesced.time < GESTURE_GAP_MS) {
+      coalesced.time = now;
+      return;
+    }
+    pushEntry(label, takeSnapshot());
+    if (coalesceKey !== undefined) coalescedRef.current = { key: coalesceKey, time: now };
+  }, [pushEntry, takeSnapshot]);
+
+  const restoreSnapshot = useCallback((snapshot: WorkspaceSnapshot) => {
+    // Stored positions stand until the bodies report again, so an immediate snapshot keeps them
+    nodePhysicsData.current.clear();
+    coalescedRef.current = null;
+    const keptIds = new Set(snapshot.canvasNodes.map(n => n.instanceId));
+    setCanvasNodes(snapshot.canvasNodes);
+    setWires(snapshot.wires);
+    setBoundaryPorts(snapshot.boundaryPorts);
+    setIsBoundaryActive(snapshot.isBoundaryActive);
+    setAtomicNodes(snapshot.atomicNodes);
+    setDefinitions(snapshot.definitions);
+    setAxioms(snapshot.axioms);
+    setTheorems(snapshot.theorems);
+    setSelectedNodeIds(prev => prev.filter(id => keptIds.has(id)));
+  }, [nodePhysicsData, setCanvasNodes, setWires, setBoundaryPorts, setIsBoundaryActive, setAtomicNodes, setDefinitions,
+      setAxioms, setTheorems, setSelectedNodeIds]);
+
+  // Undo, redo and goToEntry return whether they replaced the workspace
+  const undo = useCallback((steps = 1): boolean => {
+    if (sessionRef.current || steps < 1 || steps > history.undoStack.length) return false;
+    const moved = moveEntries(history.undoStack, history.redoStack, steps, takeSnapshot());
+    setHistory({ undoStack: moved.from, redoStack: moved.to });
+    restoreSnapshot(moved.snapshot);
+    console.log(`Undid ${steps} edit${steps === 1 ? '' : 's'}.`);
+    return true;
+  }, [history, takeSnapshot, restoreSnapshot]);
+
+  const redo = useCallback((steps = 1): boolean => {
+    if (sessionRef.current || steps < 1 || steps > history.redoStack.length) return false;
+    const moved = moveEntries(history.redoStack, history.undoStack, steps, takeSnapshot());
+    setHistory({ undoStack: moved.to, redoStack: moved.from });
+    restoreSnapshot(moved.snapshot);
+    console.log(`Redid ${steps} edit${steps === 1 ? '' : 's'}.`);
+    return true;
+  }, [history, takeSnapshot, restoreSnapshot]);
+
+  // Returns the workspace to how it was right after the given edit
+  const goToEntry = useCallback((entryId: string): boolean => {
+    const undoIndex = history.undoStack.findIndex(entry => entry.id === entryId);
+    if (undoIndex !== -1) return undo(history.undoStack.length - 1 - undoIndex);
+    const redoIndex = history.redoStack.findIndex(entry => entry.id === entryId);
+    return redoIndex !== -1 && redo(history.redoStack.length - redoIndex);
+  }, [history, undo, redo]);
+
+  // Pass the name of the editor that owns the canvas, or null once none does
+  const suspendHistory = useCallback((editorName: string | null) => {
+    const session = sessionRef.current;
+    if (session?.editorName === editorName) return;
+    if (session) {
+      const current = takeSnapshot();
+      const library = pickLibrary(current);
+      const isChanged = (Object.keys(library) as (keyof LibrarySnapshot)[]).some(key => library[key] !== session.library[key]);
+      // The editor has put the canvas back, so only the library differs from before the session
+      if (isChanged) pushEntry(session.editorName, { ...current, ...session.library });
+    }
+    sessionRef.current = editorName ? { editorName, library: pickLibrary(workspaceRef.current) } : null;
+    setSuspendedBy(editorName);
+  }, [takeSnapshot, pushEntry]);
+
+  return {
+    undoStack: history.undoStack,
+    redoStack: history.redoStack,
+    suspendedBy,
+    recordEdit,
+    undo,
+    redo,
+    goToEntry,
+    suspendHistory,
+  };
+};
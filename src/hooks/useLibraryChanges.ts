@@ -0,0 +1,130 @@
+import { useState, useCallback, useMemo, Dispatch, SetStateAction, MutableRefObject } from 'react';
+import { AtomicNodeDefinition, AxiomDefinition, CanvasNodeInstance, DefinitionDefinition, NodePhysicsData, TheoremDefinition, WireConnection } from '../types';
+import {
+  Library, LibraryItemRef, findDependents, getLibraryItemName, markLibraryItemsStale, pruneDefinitionInternals, pruneMissingInstances, removeLibraryItems,
+} from '../utils/libraryDependencies';
+
+export type LibraryChangeVerb = 'delete' | 'edit';
+
+// How to treat the dependents of a change the user goes ahead with
+export type LibraryChangeResolution = 'cascade' | 'stale';
+
+export interface PendingLibraryChange {
+  target: LibraryItemRef;
+  verb: LibraryChangeVerb;
+  dependents: LibraryItemRef[];
+  details: string[]; // Wires that no longer fit the changed item, shown alongside the dependents
+  apply: (library: Library) => Library;
+  canCascade: boolean; // Whether deleting the dependents is offered
+  onProceed?: (change: PendingLibraryChange, resolution: LibraryChangeResolution) => void; // Commits the change itself, later
+}
+
+// Options of a change request
+interface LibraryChangeOptions {
+  details?: string[];
+  canCascade?: boolean; // Defaults to true
+  // Called instead of committing once the user goes ahead; the caller commits with commitLibraryChange
+  onProceed?: (change: PendingLibraryChange, resolution: LibraryChangeResolution) => void;
+}
+
+interface UseLibraryChangesArgs {
+  atomicNodes: AtomicNodeDefinition[];
+  definitions: DefinitionDefinition[];
+  axioms: AxiomDefinition[];
+  theorems: TheoremDefinition[];
+  canvasNodes: CanvasNodeInstance[];
+  wires: WireConnection[];
+  nodePhysicsData: MutableRefObject<NodePhysicsData>;
+  setAtomicNodes: Dispatch<SetStateAction<AtomicNodeDefinition[]>>;
+  setDefinitions: Dispatch<SetStateAction<DefinitionDefinition[]>>;
+  setAxioms: Dispatch<SetStateAction<AxiomDefinition[]>>;
+  setTheorems: Dispatch<SetStateAction<TheoremDefinition[]>>;
+  setCanvasNodes: Dispatch<SetStateAction<CanvasNodeInstance[]>>;
+  setWires: Dispatch<SetStateAction<WireConnection[]>>;
+  onItemsRemoved?: (refs: LibraryItemRef[]) => void;
+  recordEdit?: (label: string) => void;
+}
+
+/**
+ * Deletes and edits library items with their dependents in view. A change with no
+ * dependents or details goes through at once; otherwise it waits until the user blocks it
+ * (cancels), cascades it to the dependents where that is offered, or marks the dependents
+ * stale. A caller that has to tidy up first can take over the commit. Instances of node
+ * types that no longer exist are removed with their wires, as are wires on ports that no longer
+ * exist, both on the canvas and inside the remaining definitions.
+ */
+export const useLibraryChanges = ({
+  atomicNodes, definitions, axioms, theorems, canvasNodes, wires, nodePhysicsData,
+  setAtomicNodes, setDefinitions, setAxioms, setTheorems, setCanvasNodes, setWires, onItemsRemoved, recordEdit,
+}: UseLibraryChangesArgs) => {
+  const [pendingLibraryChange, setPendingLibraryChange] = useState<PendingLibraryChange | null>(null);
+  const library: Library = useMemo(() => ({ atomicNodes, definitions, axioms, theorems }), [atomicNodes, definitions, axioms, theorems]);
+
+  const commitLibrary = useCallback((target: LibraryItemRef, verb: LibraryChangeVerb, changed: Library, removed: LibraryItemRef[]) => {
+    recordEdit?.(`${verb === 'delete' ? 'Delete' : 'Edit'} ${getLibraryItemName(target, library)}`);
+    // Dependent definitions keep no wires to removed node types or ports, just as the canvas does
+    const next = pruneDefinitionInternals(changed);
+    setAtomicNodes(next.atomicNodes);
+    setDefinitions(next.definitions);
+    setAxioms(next.axioms);
+    setTheorems(next.theorems);
+    const pruned = pruneMissingInstances(canvasNodes, wires, next);
+    if (pruned.removedNodeIds.length > 0 || pruned.wires.length !== wires.length) {
+      setCanvasNodes(pruned.nodes);
+      setWires(pruned.wires);
+      pruned.removedNodeIds.forEach(id => nodePhysicsData.current.delete(id));
+      console.log(`Removed ${pruned.removedNodeIds.length} canvas instances of deleted node types and ${wires.length - pruned.wires.length} wires.`);
+    }
+    if (removed.length > 0) onItemsRemoved?.(removed);
+  }, [library, canvasNodes, wires, nodePhysicsData, setAtomicNodes, setDefinitions, setAxioms, setTheorems, setCanvasNodes, setWires,
+      onItemsRemoved, recordEdit]);
+
+  const commitLibraryChange = useCallback((change: PendingLibraryChange, resolution: LibraryChangeResolution) => {
+    const { target, verb, dependents, apply } = change;
+    const reason = `${getLibraryItemName(target, library)} was ${verb === 'delete' ? 'deleted' : 'edited'}.`;
+    const prepared = resolution === 'cascade'
+      ? removeLibraryItems(library, dependents)
+      : markLibraryItemsStale(library, dependents, reason);
+    const removed = [...(verb === 'delete' ? [target] : []), ...(resolution === 'cascade' ? dependents : [])];
+    commitLibrary(target, verb, apply(prepared), removed);
+    console.log(`Library change (${verb}) resolved by ${resolution}:`, target, dependents);
+  }, [library, commitLibrary]);
+
+  const requestLibraryChange = useCallback((
+    target: LibraryItemRef,
+    verb: LibraryChangeVerb,
+    apply: (library: Library) => Library,
+    { details = [], canCascade = true, onProceed }: LibraryChangeOptions = {}
+  ) => {
+    const change: PendingLibraryChange = { target, verb, dependents: findDependents(target, library), details, apply, canCascade, onProceed };
+    if (change.dependents.length > 0 || details.length > 0) {
+      setPendingLibraryChange(change);
+    } else if (onProceed) {
+      onProceed(change, 'stale');
+    } else {
+      commitLibrary(target, verb, apply(library), verb === 'delete' ? [target] : []);
+    }
+  }, [library, commitLibrary]);
+
+  const requestLibraryDelete = useCallback((target: LibraryItemRef) => {
+    requestLibraryChange(target, 'delete', current => removeLibraryItems(current, [target]));
+  }, [requestLibraryChange]);
+
+  const resolveLibraryChange = useCallback((resolution: LibraryChangeResolution) => {
+    if (!pendingLibraryChange) return;
+    if (pendingLibraryChange.onProceed) {
+      pendingLibraryChange.onProceed(pendingLibraryChange, resolution);
+    } else {
+      commitLibraryChange(pendingLibraryChange, resolution);
+    }
+    setPendingLibraryChange(null);
+  }, [pendingLibraryChange, commitLibraryChange]);
+
+  const cancelLibraryChange = useCallback(() => {
+    setPendingLibraryChange(null);
+  }, []);
+
+  return {
+    library, pendingLibraryChange, requestLibraryChange, requestLibraryDelete, resolveLibraryChange, cancelLibraryChange, commitLibraryChange,
+  };
+};
@@ -0,0 +1,75 @@
+import { useState, useCallback, useMemo } from 'react';
+import { AtomicNodeDefinition, CanvasNodeInstance, DefinitionDefinition, WireConnection, WorkspaceData } from '../types';
+import { NetComparison, compareNets } from '../utils/netEquality';
+import { isPrincipalPort } from '../utils/activePairs';
+import { migrateWorkspace } from '../utils/workspaceMigrations';
+
+interface UseNetComparisonArgs {
+  atomicNodes: AtomicNodeDefinition[];
+  definitions: DefinitionDefinition[];
+  canvasNodes: CanvasNodeInstance[];
+  wires: WireConnection[];
+}
+
+interface ComparedFile {
+  fileName: string;
+  workspace: WorkspaceData;
+}
+
+/**
+ * Compares the canvas against the net stored in a workspace file. The file is kept after
+ * loading, so the result and the highlighted nodes follow later edits to the canvas.
+ * Workspace files do not store boundary ports, so boundary wires are matched by port ID.
+ */
+export const useNetComparison = ({ atomicNodes, definitions, canvasNodes, wires }: UseNetComparisonArgs) => {
+  const [comparedFile, setComparedFile] = useState<ComparedFile | null>(null);
+
+  const comparison: NetComparison | null = useMemo(() => {
+    if (!comparedFile) return null;
+    const other = comparedFile.workspace;
+    const otherAtomicNodes = other.atomicNodes ?? [];
+    const otherDefinitions = other.definitions ?? [];
+    const describeNode = (node: CanvasNodeInstance) => {
+      const library = [...atomicNodes, ...definitions, ...otherAtomicNodes, ...otherDefinitions];
+      return library.find(def => def.id === node.definitionId)?.name ?? node.definitionId;
+    };
+    return compareNets(
+      { nodes: canvasNodes, wires },
+      { nodes: other.canvasNodes, wires: other.wires },
+      {
+        principalTests: {
+          a: (node, port) => isPrincipalPort(node, port, atomicNodes, definitions),
+          b: (node, port) => isPrincipalPort(node, port, otherAtomicNodes, otherDefinitions),
+        },
+        describeNode,
+      }
+    );
+  }, [comparedFile, atomicNodes, definitions, canvasNodes, wires]);
+
+  const compareWithFile = useCallback((file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const workspace = migrateWorkspace(JSON.parse(String(e.target?.result ?? ''))).data as unknown as WorkspaceData;
+        if (!Array.isArray(workspace.canvasNodes) || !Array.isArray(workspace.wires)) {
+          throw new Error('The file has no canvasNodes and wires to compare against.');
+        }
+        setComparedFile({ fileName: file.name, workspace });
+        console.log(`Comparing canvas with ${file.name}.`);
+      } catch (error) {
+        console.error("Failed to load comparison file:", error);
+        alert(`Error comparing with file: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    };
+    reader.onerror = () => {
+      alert('Error reading comparison file.');
+    };
+    reader.readAsText(file);
+  }, []);
+
+  const clearComparison = useCallback(() => {
+    setComparedFile(null);
+  }, []);
+
+  return { comparedFileName: comparedFile?.fileName ?? null, comparison, compareWithFile, clearComparison };
+};
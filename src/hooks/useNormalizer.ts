@@ -0,0 +1,182 @@
+import { useState, useCallback, useEffect, useRef, Dispatch, SetStateAction, MutableRefObject } from 'react';
+import { AtomicNodeDefinition, AxiomDefinition, CanvasNodeInstance, NodePhysicsData, ReductionStats, WireConnection } from '../types';
+import { RewriteChoice } from '../utils/axiomApplication';
+import { findRedexes } from '../utils/redexSearch';
+import { ReductionStrategy, createSeededRandom, selectRedexes } from '../utils/reductionStrategies';
+import { captureNodePositions } from '../utils/nodePositions';
+import { CanvasState } from './useAxiomRewriting';
+
+// What to do when several options of a redex hold at once
+export type MultipleOptionPolicy = 'ask' | 'first';
+
+// Delay between automatic steps so the physics layout can follow the rewrites
+const RUN_STEP_DELAY_MS = 250;
+const DEFAULT_STEP_LIMIT = 1000;
+const DEFAULT_SEED = 1;
+
+const emptyStats = (nodeCount: number): ReductionStats => ({ interactions: 0, peakNodeCount: nodeCount, ruleFirings: {} });
+
+interface ReductionSnapshot {
+  nodes: CanvasNodeInstance[];
+  wires: WireConnection[];
+}
+
+interface UseNormalizerArgs {
+  atomicNodes: AtomicNodeDefinition[];
+  canvasNodes: CanvasNodeInstance[];
+  wires: WireConnection[];
+  axioms: AxiomDefinition[];
+  nodePhysicsData: MutableRefObject<NodePhysicsData>;
+  isSuspended: boolean; // Another mode owns the canvas; automatic steps wait
+  setCanvasNodes: Dispatch<SetStateAction<CanvasNodeInstance[]>>;
+  setWires: Dispatch<SetStateAction<WireConnection[]>>;
+  applyRewrites: (choices: RewriteChoice[], editLabel?: string) => CanvasState | null;
+  offerRewriteChoices: (choices: RewriteChoice[]) => void;
+  recordEdit?: (label: string) => void;
+}
+
+/**
+ * Reduces the whole canvas with the axiom library, one strategy tick per step,
+ * repeated while running until the net is normal or the step limit is reached.
+ * The canvas is snapshotted before the first step so the reduction can be undone in
+ * one go, and run statistics count the normalizer's own interactions from that snapshot;
+ * rewrites applied by hand in between count toward neither the statistics nor the step limit.
+ */
+export const useNormalizer = ({
+  atomicNodes, canvasNodes, wires, axioms, nodePhysicsData, isSuspended,
+  setCanvasNodes, setWires, applyRewrites, offerRewriteChoices, recordEdit,
+}: UseNormalizerArgs) => {
+  const [isRunning, setIsRunning] = useState(false);
+  const [policy, setPolicy] = useState<MultipleOptionPolicy>('ask');
+  const [strategy, setStrategy] = useState<ReductionStrategy>('outermost');
+  const [rootPortId, setRootPortId] = useState<string | null>(null); // Boundary port the traversal starts from
+  const [seed, setSeed] = useState(DEFAULT_SEED);
+  const [stepLimit, setStepLimit] = useState(DEFAULT_STEP_LIMIT);
+  const [snapshot, setSnapshot] = useState<ReductionSnapshot | null>(null);
+  const [statusMessage, setStatusMessage] = useState('');
+  const [runStats, setRunStats] = useState<ReductionStats>(() => emptyStats(canvasNodes.length));
+  const randomRef = useRef(createSeededRandom(DEFAULT_SEED));
+  const isRunRecordedRef = useRef(false); // The current run already has its history entry
+
+  // Runs from the same snapshot and seed replay the same random choices
+  const takeSnapshot = useCallback(() => {
+    setSnapshot({ nodes: captureNodePositions(canvasNodes, nodePhysicsData.current), wires });
+    setRunStats(emptyStats(canvasNodes.length));
+    randomRef.current = createSeededRandom(seed);
+  }, [canvasNodes, wires, nodePhysicsData, seed]);
+
+  // Applies one tick of the strategy; returns false when reduction cannot continue
+  const performStep = useCallback((isRunStep: boolean): boolean => {
+    const remaining = snapshot ? stepLimit - runStats.interactions : stepLimit;
+    if (remaining <= 0) {
+      setStatusMessage(`Step limit of ${stepLimit} reached.`);
+      return false;
+    }
+    const { redexes, stuckPairs } = findRedexes(canvasNodes, wires, axioms, atomicNodes);
+    if (redexes.length === 0) {
+      const stuckNote = stuckPairs > 0 ? ` (${stuckPairs} active pair${stuckPairs === 1 ? '' : 's'} without an applicable axiom)` : '';
+      setStatusMessage(`Normal form${stuckNote}.`);
+      return false;
+    }
+    if (!snapshot) takeSnapshot();
+
+    const root = rootPortId ? { nodeId: 'BOUNDARY', port: rootPortId } : null;
+    const selected = selectRedexes(strategy, redexes, canvasNodes, wires, root, randomRef.current);
+    const needsChoice = (choices: RewriteChoice[]) => choices.length > 1 && policy === 'ask';
+    // A parallel tick stops short rather than run past the step limit
+    const ready = selected.filter(redex => !needsChoice(redex.choices)).slice(0, remaining);
+    if (ready.length === 0) {
+      setStatusMessage('Waiting for a rule choice.');
+      offerRewriteChoices(selected[0].choices);
+      return false;
+    }
+    setStatusMessage('');
+    // A whole run is one edit, each manual step another
+    const editLabel = isRunStep ? (isRunRecordedRef.current ? undefined : 'Run reduction') : 'Reduction step';
+    const choices = ready.map(redex => redex.choices[0]);
+    const result = applyRewrites(choices, editLabel);
+    if (!result) {
+      setStatusMessage('Stopped: a rewrite would break the net.');
+      return false;
+    }
+    isRunRecordedRef.current = isRunStep;
+    setRunStats(prev => {
+      const ruleFirings = { ...prev.ruleFirings };
+      choices.forEach(choice => { ruleFirings[choice.label] = (ruleFirings[choice.label] ?? 0) + 1; });
+      return {
+        interactions: prev.interactions + choices.length,
+        peakNodeCount: Math.max(prev.peakNodeCount, result.nodes.length),
+        ruleFirings,
+      };
+    });
+    return true;
+  }, [snapshot, runStats.interactions, stepLimit, canvasNodes, wires, axioms, atomicNodes, takeSnapshot,
+      rootPortId, strategy, policy, offerRewriteChoices, applyRewrites]);
+
+  // Each applied step changes the canvas, which schedules the next one
+  useEffect(() => {
+    if (!isRunning || isSuspended) return;
+    const timer = setTimeout(() => {
+      if (!performStep(true)) setIsRunning(false);
+    }, RUN_STEP_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [isRunning, isSuspended, performStep]);
+
+  const stepReduction = useCallback(() => {
+    setIsRunning(false);
+    performStep(false);
+  }, [performStep]);
+
+  const runReduction = useCallback(() => {
+    setStatusMessage('Running...');
+    isRunRecordedRef.current = false;
+    setIsRunning(true);
+  }, []);
+
+  const pauseReduction = useCallback(() => {
+    setIsRunning(false);
+    setStatusMessage('Paused.');
+  }, []);
+
+  const resetReduction = useCallback(() => {
+    if (!snapshot) return;
+    setIsRunning(false);
+    recordEdit?.('Reset reduction');
+    setCanvasNodes(snapshot.nodes);
+    setWires(snapshot.wires);
+    setRunStats(emptyStats(snapshot.nodes.length));
+    setSnapshot(null);
+    setStatusMessage('Reset to snapshot.');
+    console.log("Reduction reset to snapshot:", snapshot);
+  }, [snapshot, setCanvasNodes, setWires, recordEdit]);
+
+  // Drops the snapshot when the canvas is replaced by something the reduction did not produce
+  const discardReduction = useCallback(() => {
+    setIsRunning(false);
+    setSnapshot(null);
+    setRunStats(emptyStats(0));
+    setStatusMessage('');
+  }, []);
+
+  return {
+    isRunning,
+    policy,
+    setPolicy,
+    strategy,
+    setStrategy,
+    rootPortId,
+    setRootPortId,
+    seed,
+    setSeed,
+    stepLimit,
+    setStepLimit,
+    hasSnapshot: !!snapshot,
+    runStats,
+    statusMessage,
+    stepReduction,
+    runReduction,
+    pauseReduction,
+    resetReduction,
+    discardReduction,
+  };
+};
@@ -0,0 +1,80 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { AtomicNodeDefinition, AxiomDefinition, DefinitionDefinition, ProofSession, ProofStep, TheoremDefinition } from '../types';
+import { DEFAULT_PROOF_SEARCH_LIMITS, ProofSearchLimits, ProofSearchResult } from '../utils/proofSearch';
+import type { ProofSearchRequest } from '../workers/proofSearch.worker';
+
+interface UseProofSearchArgs {
+  proofSession: ProofSession | null;
+  atomicNodes: AtomicNodeDefinition[];
+  definitions: DefinitionDefinition[];
+  axioms: AxiomDefinition[];
+  theorems: TheoremDefinition[];
+  onProofFound: (steps: ProofStep[]) => void;
+}
+
+const describeResult = (result: ProofSearchResult, limits: ProofSearchLimits): string => {
+  switch (result.kind) {
+    case 'found':
+      return `Found ${result.steps.length} step${result.steps.length === 1 ? '' : 's'} after ${result.explored} states.`;
+    case 'exhausted':
+      return `No proof within ${limits.maxDepth} steps and ${limits.maxNodes} nodes (${result.explored} states).`;
+    case 'state-limit':
+      return `Stopped after ${result.explored} states without a proof.`;
+  }
+};
+
+/**
+ * Runs the bounded proof search in a Web Worker, starting from the current state of the
+ * proof. A proof that is found is handed back as steps to append to the session.
+ */
+export const useProofSearch = ({ proofSession, atomicNodes, definitions, axioms, theorems, onProofFound }: UseProofSearchArgs) => {
+  const [searchLimits, setSearchLimits] = useState<ProofSearchLimits>(DEFAULT_PROOF_SEARCH_LIMITS);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchStatus, setSearchStatus] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+
+  const stopSearch = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setIsSearching(false);
+  }, []);
+
+  // A search belongs to one proof
+  const theoremId = proofSession?.theoremId;
+  useEffect(() => {
+    setSearchStatus(null);
+    return stopSearch;
+  }, [theoremId, stopSearch]);
+
+  const startSearch = useCallback(() => {
+    if (!proofSession || workerRef.current) return;
+    const worker = new Worker(new URL('../workers/proofSearch.worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    const limits = searchLimits;
+
+    worker.onmessage = (event: MessageEvent<ProofSearchResult>) => {
+      const result = event.data;
+      stopSearch();
+      setSearchStatus(describeResult(result, limits));
+      console.log("Proof search finished:", result);
+      if (result.kind === 'found') onProofFound(result.steps);
+    };
+    worker.onerror = (event) => {
+      console.error("Proof search failed:", event.message);
+      stopSearch();
+      setSearchStatus('The proof search failed.');
+    };
+
+    const request: ProofSearchRequest = { nets: proofSession.nets, rules: { atomicNodes, definitions, axioms, theorems }, limits };
+    worker.postMessage(request);
+    setIsSearching(true);
+    setSearchStatus('Searching…');
+  }, [proofSession, searchLimits, atomicNodes, definitions, axioms, theorems, onProofFound, stopSearch]);
+
+  const cancelSearch = useCallback(() => {
+    stopSearch();
+    setSearchStatus('Search stopped.');
+  }, [stopSearch]);
+
+  return { searchLimits, setSearchLimits, isSearching, searchStatus, startSearch, cancelSearch };
+};
@@ -0,0 +1,186 @@
+import { useState, useCallback, useMemo, useRef, Dispatch, SetStateAction } from 'react';
+import * as THREE from 'three';
+import { AtomicNodeDefinition, AxiomDefinition, DefinitionDefinition, NodePhysicsData, ProofSession, ProofSide, ProofStep, ProofStepAction, TheoremDefinition } from '../types';
+import { RewriteChoice, listRewriteChoices } from '../utils/axiomApplication';
+import { TheoremMatch, findTheoremMatches } from '../utils/theoremApplication';
+import { areNetsIsomorphic } from '../utils/netEquality';
+import { restoreBoundaryPorts } from '../utils/boundaryInterface';
+import { NetInvariantError } from '../net/netModel';
+import { applyProofSubstitution, buildProofAction, createProofNets, recordProofStep, replayProofSteps } from '../utils/proofReplay';
+import { useProofSearch } from './useProofSearch';
+
+// Only used to fill in port coordinates; the boundary places ports by angle
+const PROOF_BOUNDARY_RADIUS = 5;
+
+export interface ProofRewriteChoice {
+  key: string;
+  label: string;
+  action: ProofStepAction;
+}
+
+interface UseProofWorkspaceArgs {
+  atomicNodes: AtomicNodeDefinition[];
+  definitions: DefinitionDefinition[];
+  axioms: AxiomDefinition[];
+  theorems: TheoremDefinition[];
+  setTheorems: Dispatch<SetStateAction<TheoremDefinition[]>>;
+}
+
+const listProofChoices = (
+  wireId: string,
+  axiomChoices: RewriteChoice[],
+  theoremMatches: TheoremMatch[]
+): ProofRewriteChoice[] => [
+  ...axiomChoices.map(choice => ({
+    key: `axiom:${choice.key}`,
+    label: choice.label,
+    action: { kind: 'axiom' as const, wireId, axiomId: choice.match.axiom.id, optionId: choice.option.id },
+  })),
+  ...theoremMatches.map(match => ({
+    key: `theorem:${match.theorem.id}`,
+    label: `Theorem: ${match.theorem.name}`,
+    action: { kind: 'theorem' as const, wireId, theoremId: match.theorem.id },
+  })),
+];
+
+/**
+ * State behind the side-by-side proof of a theorem: the source and target nets are
+ * rewritten independently with axioms, proved theorems and definition expansion,
+ * and the theorem can be marked proved once both sides are the same net. Every step is
+ * recorded so the proof can be replayed when the workspace is imported.
+ */
+export const useProofWorkspace = ({ atomicNodes, definitions, axioms, theorems, setTheorems }: UseProofWorkspaceArgs) => {
+  const [proofSession, setProofSession] = useState<ProofSession | null>(null);
+  const [pendingProofChoices, setPendingProofChoices] = useState<{ side: ProofSide; choices: ProofRewriteChoice[] } | null>(null);
+  const physicsData = useRef<Record<ProofSide, NodePhysicsData>>({ source: new Map(), target: new Map() });
+
+  const provingTheorem = useMemo(
+    () => (proofSession ? theorems.find(t => t.id === proofSession.theoremId) ?? null : null),
+    [proofSession, theorems]
+  );
+  const proofBoundaryPorts = useMemo(
+    () => (provingTheorem ? restoreBoundaryPorts(provingTheorem.externalPorts, PROOF_BOUNDARY_RADIUS) : []),
+    [provingTheorem]
+  );
+  const isProofComplete = useMemo(
+    () => !!proofSession && areNetsIsomorphic(proofSession.nets.source, proofSession.nets.target, { compareMetadata: true }),
+    [proofSession]
+  );
+
+  const startProof = useCallback((theorem: TheoremDefinition) => {
+    physicsData.current = { source: new Map(), target: new Map() };
+    setPendingProofChoices(null);
+    setProofSession({ theoremId: theorem.id, nets: createProofNets(theorem), steps: [] });
+    console.log("Proof started for theorem:", theorem.name);
+  }, []);
+
+  const closeProof = useCallback(() => {
+    setPendingProofChoices(null);
+    setProofSession(null);
+  }, []);
+
+  // Applies an action to one side and records it as a proof step
+  const applyProofAction = useCallback((side: ProofSide, action: ProofStepAction): boolean => {
+    if (!proofSession) return false;
+    const net = proofSession.nets[side];
+    const substitution = buildProofAction(net, action, { atomicNodes, definitions, axioms, theorems }, physicsData.current[side]);
+    if (!substitution) return false;
+    let nextNet;
+    try {
+      nextNet = applyProofSubstitution(net, substitution);
+    } catch (error) {
+      if (!(error instanceof NetInvariantError)) throw error;
+      alert(`Error: Cannot apply the proof step. ${error.message}`);
+      return false;
+    }
+    setProofSession({
+      ...proofSession,
+      nets: { ...proofSession.nets, [side]: nextNet },
+      steps: [...proofSession.steps, recordProofStep(action, side, substitution)],
+    });
+    substitution.removedNodeIds.forEach(id => physicsData.current[side].delete(id));
+    return true;
+  }, [proofSession, atomicNodes, definitions, axioms, theorems]);
+
+  const applyProofChoice = useCallback((side: ProofSide, choice: ProofRewriteChoice) => {
+    if (applyProofAction(side, choice.action)) console.log(`Proof step on ${side}:`, choice.label);
+  }, [applyProofAction]);
+
+  const applyRuleAtWire = useCallback((side: ProofSide, wireId: string) => {
+    if (!proofSession) return;
+    const { nodes, wires } = proofSession.nets[side];
+    const wire = wires.find(w => w.id === wireId);
+    if (!wire) return;
+    const choices = listProofChoices(
+      wireId,
+      listRewriteChoices(wire, nodes, axioms, atomicNodes),
+      findTheoremMatches(wire, nodes, theorems, atomicNodes, definitions)
+    );
+    if (choices.length === 0) {
+      alert("Error: No axiom or proved theorem applies to this wire.");
+      return;
+    }
+    if (choices.length === 1) {
+      applyProofChoice(side, choices[0]);
+      return;
+    }
+    setPendingProofChoices({ side, choices });
+  }, [proofSession, axioms, theorems, atomicNodes, definitions, applyProofChoice]);
+
+  const chooseProofRewrite = useCallback((key: string) => {
+    if (!pendingProofChoices) return;
+    const choice = pendingProofChoices.choices.find(c => c.key === key);
+    setPendingProofChoices(null);
+    if (choice) applyProofChoice(pendingProofChoices.side, choice);
+  }, [pendingProofChoices, applyProofChoice]);
+
+  const cancelProofChoice = useCallback(() => {
+    setPendingProofChoices(null);
+  }, []);
+
+  // Steps found by the proof search, applied on top of the nets the search started from
+  const appendProofSteps = useCallback((steps: ProofStep[]) => {
+    if (!proofSession) return;
+    const replay = replayProofSteps(proofSession.nets, steps, { atomicNodes, definitions, axioms, theorems });
+    if ('failure' in replay) {
+      alert(`Error: The proof found by the search could not be applied. ${replay.failure}`);
+      return;
+    }
+    setProofSession({ ...proofSession, nets: replay.nets, steps: [...proofSession.steps, ...steps] });
+  }, [proofSession, atomicNodes, definitions, axioms, theorems]);
+
+  const proofSearch = useProofSearch({ proofSession, atomicNodes, definitions, axioms, theorems, onProofFound: appendProofSteps });
+
+  const expandProofDefinition = useCallback((side: ProofSide, instanceId: string) => {
+    if (applyProofAction(side, { kind: 'expand', instanceId })) console.log(`Proof step on ${side}: expanded`, instanceId);
+  }, [applyProofAction]);
+
+  const updateProofPhysicsData = useCallback((side: ProofSide, instanceId: string, position: THREE.Vector3, rotation: THREE.Quaternion) => {
+    physicsData.current[side].set(instanceId, { position, rotation });
+  }, []);
+
+  const markTheoremProved = useCallback(() => {
+    if (!proofSession || !isProofComplete) return;
+    const proof = proofSession.steps;
+    setTheorems(prev => prev.map(t => (t.id === proofSession.theoremId ? { ...t, isProved: true, proof, proofFailure: undefined, staleReason: undefined } : t)));
+    console.log("Theorem proved:", proofSession.theoremId);
+    closeProof();
+  }, [proofSession, isProofComplete, setTheorems, closeProof]);
+
+  return {
+    proofSession,
+    provingTheorem,
+    proofBoundaryPorts,
+    isProofComplete,
+    pendingProofChoices,
+    startProof,
+    closeProof,
+    applyRuleAtWire,
+    chooseProofRewrite,
+    cancelProofChoice,
+    expandProofDefinition,
+    updateProofPhysicsData,
+    markTheoremProved,
+    proofSearch,
+  };
+};
@@ -0,0 +1,101 @@
+import { useState, useCallback, useRef, Dispatch, SetStateAction, MutableRefObject } from 'react';
+import { CanvasNodeInstance, NodePhysicsData, ReductionTrace, TraceEntry, WireConnection } from '../types';
+import { parseReductionTrace, replayTrace } from '../utils/reductionTrace';
+import { captureNodePositions } from '../utils/nodePositions';
+
+interface CanvasState {
+  nodes: CanvasNodeInstance[];
+  wires: WireConnection[];
+}
+
+interface UseReductionTraceArgs {
+  title: string;
+  nodePhysicsData: MutableRefObject<NodePhysicsData>;
+  setCanvasNodes: Dispatch<SetStateAction<CanvasNodeInstance[]>>;
+  setWires: Dispatch<SetStateAction<WireConnection[]>>;
+}
+
+/**
+ * Records applied rewrites and lets the canvas be moved to any step of the recording.
+ * A rewrite continues the current trace only when the canvas is exactly where the trace
+ * left it (compared by state identity); after a manual edit a new trace starts. Rewriting
+ * from an earlier step drops the later entries.
+ */
+export const useReductionTrace = ({ title, nodePhysicsData, setCanvasNodes, setWires }: UseReductionTraceArgs) => {
+  const [trace, setTrace] = useState<ReductionTrace | null>(null);
+  const [traceCursor, setTraceCursor] = useState(0);
+  // Canvas state the trace last produced, by reference
+  const expectedStateRef = useRef<CanvasState | null>(null);
+
+  const recordRewrites = useCallback((before: CanvasState, entries: TraceEntry[], after: CanvasState) => {
+    const expected = expectedStateRef.current;
+    const continuesTrace = !!trace && !!expected && expected.nodes === before.nodes && expected.wires === before.wires;
+    const nextTrace: ReductionTrace = continuesTrace
+      ? { ...trace!, entries: [...trace!.entries.slice(0, traceCursor), ...entries] }
+      : { initialNodes: captureNodePositions(before.nodes, nodePhysicsData.current), initialWires: before.wires, entries };
+    if (!continuesTrace) console.log("Starting a new reduction trace.");
+    setTrace(nextTrace);
+    setTraceCursor(nextTrace.entries.length);
+    expectedStateRef.current = after;
+  }, [trace, traceCursor, nodePhysicsData]);
+
+  const showTraceStep = useCallback((step: number, source: ReductionTrace) => {
+    const state = replayTrace(source, step);
+    const keptIds = new Set(state.nodes.map(n => n.instanceId));
+    [...nodePhysicsData.current.keys()].forEach(id => {
+      if (!keptIds.has(id)) nodePhysicsData.current.delete(id);
+    });
+    setCanvasNodes(state.nodes);
+    setWires(state.wires);
+    setTraceCursor(step);
+    expectedStateRef.current = state;
+  }, [nodePhysicsData, setCanvasNodes, setWires]);
+
+  const scrubTrace = useCallback((step: number) => {
+    if (!trace) return;
+    showTraceStep(Math.max(0, Math.min(step, trace.entries.length)), trace);
+  }, [trace, showTraceStep]);
+
+  const clearTrace = useCallback(() => {
+    setTrace(null);
+    setTraceCursor(0);
+    expectedStateRef.current = null;
+  }, []);
+
+  const exportTrace = useCallback(() => {
+    if (!trace) return;
+    const blob = new Blob([JSON.stringify(trace, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    const filename = title.trim().replace(/\s+/g, '_') || 'untitled';
+    link.download = `${filename}_trace.json`;
+    document.body.appendChild(link); // Required for Firefox
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }, [trace, title]);
+
+  const importTrace = useCallback((file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const imported = parseReductionTrace(String(e.target?.result ?? ''));
+        // Every entry must fit before the canvas changes, so scrubbing never meets a broken one
+        replayTrace(imported, imported.entries.length);
+        setTrace(imported);
+        showTraceStep(0, imported);
+        console.log(`Trace imported with ${imported.entries.length} entries.`);
+      } catch (error) {
+        console.error("Failed to import trace:", error);
+        alert(`Error importing trace: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    };
+    reader.onerror = () => {
+      alert('Error reading trace file.');
+    };
+    reader.readAsText(file);
+  }, [showTraceStep]);
+
+  return { trace, traceCursor, recordRewrites, scrubTrace, clearTrace, exportTrace, importTrace };
+};
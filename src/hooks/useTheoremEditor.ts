@@ -0,0 +1,170 @@
+import { useState, useCallback, Dispatch, SetStateAction, MutableRefObject } from 'react';
+import { AtomicNodeDefinition, BoundaryPort, CanvasNodeInstance, DefinitionDefinition, NodePhysicsData, TheoremDefinition, TheoremEditorSession, WireConnection } from '../types';
+import { findDanglingPorts, inferExternalPorts } from '../utils/boundaryInterface';
+import { findPrincipalWireBetween } from '../utils/activePairs';
+import { captureNodePositions } from '../utils/nodePositions';
+import { hasBoundaryToBoundaryWire, newId, placePairNode } from '../net/netElements';
+
+// Where the source pair is placed inside the boundary while capturing it
+const PAIR_OFFSET_X = 1.6;
+
+interface UseTheoremEditorArgs {
+  atomicNodes: AtomicNodeDefinition[];
+  definitions: DefinitionDefinition[];
+  canvasNodes: CanvasNodeInstance[];
+  wires: WireConnection[];
+  boundaryPorts: BoundaryPort[];
+  isBoundaryActive: boolean;
+  selectedNodeIds: string[];
+  nodePhysicsData: MutableRefObject<NodePhysicsData>;
+  setCanvasNodes: Dispatch<SetStateAction<CanvasNodeInstance[]>>;
+  setWires: Dispatch<SetStateAction<WireConnection[]>>;
+  setBoundaryPorts: Dispatch<SetStateAction<BoundaryPort[]>>;
+  setIsBoundaryActive: Dispatch<SetStateAction<boolean>>;
+  setTheorems: Dispatch<SetStateAction<TheoremDefinition[]>>;
+  clearSelection: () => void;
+  onTheoremSaved?: (theorem: TheoremDefinition) => void;
+}
+
+/**
+ * State machine behind the "Add Theorem" flow: capture a source pair (at least one
+ * definition instance) against the dashed boundary, then draw the target diagram
+ * against the same frozen boundary ports. The user's canvas is stashed for the duration.
+ * New theorems start unproved.
+ */
+export const useTheoremEditor = ({
+  atomicNodes, definitions, canvasNodes, wires, boundaryPorts, isBoundaryActive, selectedNodeIds, nodePhysicsData,
+  setCanvasNodes, setWires, setBoundaryPorts, setIsBoundaryActive, setTheorems, clearSelection, onTheoremSaved,
+}: UseTheoremEditorArgs) => {
+  const [theoremSession, setTheoremSession] = useState<TheoremEditorSession | null>(null);
+
+  const restoreStashedCanvas = useCallback((session: TheoremEditorSession) => {
+    const { stashedCanvas } = session;
+    setCanvasNodes(stashedCanvas.nodes);
+    setWires(stashedCanvas.wires);
+    setBoundaryPorts(stashedCanvas.boundaryPorts);
+    setIsBoundaryActive(stashedCanvas.isBoundaryActive);
+    setTheoremSession(null);
+  }, [setCanvasNodes, setWires, setBoundaryPorts, setIsBoundaryActive]);
+
+  const startTheoremEditor = useCallback(() => {
+    if (theoremSession) {
+      alert("Finish or cancel the current theorem first.");
+      return;
+    }
+    const selected = selectedNodeIds
+      .map(id => canvasNodes.find(n => n.instanceId === id))
+      .filter((n): n is CanvasNodeInstance => !!n);
+    if (selected.length !== 2 || !selected.some(n => n.isDefinitionInstance)) {
+      alert("Error: Select exactly two nodes (Ctrl+click), at least one of them a definition, to add a theorem.");
+      return;
+    }
+    const [first, second] = selected;
+    const activeWire = findPrincipalWireBetween(wires, first, second, atomicNodes, definitions);
+    if (!activeWire) {
+      alert("Error: The selected nodes must be joined principal port to principal port.");
+      return;
+    }
+
+    const leftNode = placePairNode(first, -PAIR_OFFSET_X, true);
+    const rightNode = placePairNode(second, PAIR_OFFSET_X, true);
+    const firstIsSource = activeWire.sourceNodeId === first.instanceId;
+    const pairWire: WireConnection = {
+      id: newId('wire'),
+      sourceNodeId: leftNode.instanceId,
+      sourcePortIndex: firstIsSource ? activeWire.sourcePortIndex : activeWire.targetPortIndex,
+      targetNodeId: rightNode.instanceId,
+      targetPortIndex: firstIsSource ? activeWire.targetPortIndex : activeWire.sourcePortIndex,
+      targetLength: null,
+    };
+
+    setTheoremSession({
+      stage: 'source',
+      leftNodeId: leftNode.instanceId,
+      rightNodeId: rightNode.instanceId,
+      source: null,
+      externalPorts: [],
+      stashedCanvas: {
+        nodes: captureNodePositions(canvasNodes, nodePhysicsData.current),
+        wires,
+        boundaryPorts,
+        isBoundaryActive,
+      },
+    });
+    clearSelection();
+    setCanvasNodes([leftNode, rightNode]);
+    setWires([pairWire]);
+    setBoundaryPorts([]);
+    setIsBoundaryActive(true);
+    console.log("Theorem editor started for pair:", leftNode.definitionId, rightNode.definitionId);
+  }, [theoremSession, selectedNodeIds, canvasNodes, wires, atomicNodes, definitions, boundaryPorts, isBoundaryActive, nodePhysicsData,
+      clearSelection, setCanvasNodes, setWires, setBoundaryPorts, setIsBoundaryActive]);
+
+  const captureTheoremSource = useCallback(() => {
+    if (!theoremSession || theoremSession.stage !== 'source') return;
+    const leftNode = canvasNodes.find(n => n.instanceId === theoremSession.leftNodeId);
+    const rightNode = canvasNodes.find(n => n.instanceId === theoremSession.rightNodeId);
+    if (!leftNode || !rightNode || canvasNodes.length !== 2) {
+      alert("Error: The theorem source may only contain the selected pair.");
+      return;
+    }
+    if (!findPrincipalWireBetween(wires, leftNode, rightNode, atomicNodes, definitions)) {
+      alert("Error: The pair must stay joined principal port to principal port.");
+      return;
+    }
+    if (hasBoundaryToBoundaryWire(wires)) {
+      alert("Error: Boundary ports cannot be connected to each other in the theorem source.");
+      return;
+    }
+    const danglingPorts = findDanglingPorts(canvasNodes, wires, boundaryPorts, atomicNodes, definitions);
+    if (danglingPorts.length > 0) {
+      alert(`Error: Connect every port of the pair to the boundary. Dangling ports found:\n - ${danglingPorts.join('\n - ')}`);
+      return;
+    }
+
+    const [capturedLeft, capturedRight] = captureNodePositions([leftNode, rightNode], nodePhysicsData.current);
+    setTheoremSession({
+      ...theoremSession,
+      stage: 'target',
+      source: { leftNode: capturedLeft, rightNode: capturedRight, wires: [...wires] },
+      externalPorts: inferExternalPorts(boundaryPorts, wires, canvasNodes, atomicNodes, definitions),
+    });
+    setCanvasNodes([]);
+    setWires([]);
+    console.log("Theorem source captured with", boundaryPorts.length, "boundary ports.");
+  }, [theoremSession, canvasNodes, wires, boundaryPorts, atomicNodes, definitions, nodePhysicsData, setCanvasNodes, setWires]);
+
+  // Validates the current canvas as the target diagram and stores the theorem
+  const saveTheorem = useCallback((name: string) => {
+    if (!theoremSession || !theoremSession.source) return;
+    const danglingPorts = findDanglingPorts(canvasNodes, wires, boundaryPorts, atomicNodes, definitions);
+    if (danglingPorts.length > 0) {
+      alert(`Error: The target cannot have dangling ports. Dangling ports found:\n - ${danglingPorts.join('\n - ')}`);
+      return;
+    }
+    const newTheorem: TheoremDefinition = {
+      id: newId('theorem'),
+      name,
+      source: theoremSession.source,
+      target: { nodes: captureNodePositions(canvasNodes, nodePhysicsData.current), wires: [...wires] },
+      externalPorts: theoremSession.externalPorts,
+      isProved: false,
+    };
+    setTheorems(prev => [...prev, newTheorem]);
+    console.log("Theorem created:", newTheorem);
+    restoreStashedCanvas(theoremSession);
+    onTheoremSaved?.(newTheorem);
+  }, [theoremSession, canvasNodes, wires, boundaryPorts, atomicNodes, definitions, nodePhysicsData, setTheorems, restoreStashedCanvas, onTheoremSaved]);
+
+  const cancelTheoremEditor = useCallback(() => {
+    if (theoremSession) restoreStashedCanvas(theoremSession);
+  }, [theoremSession, restoreStashedCanvas]);
+
+  return {
+    theoremSession,
+    startTheoremEditor,
+    captureTheoremSource,
+    saveTheorem,
+    cancelTheoremEditor,
+  };
+};
@@ -0,0 +1,85 @@
+import { useState, useCallback, Dispatch, SetStateAction, MutableRefObject } from 'react';
+import { AtomicNodeDefinition, CanvasNodeInstance, DefinitionDefinition, NodePhysicsData, TheoremDefinition, WireConnection } from '../types';
+import { TheoremMatch, buildTheoremRewrite, findTheoremMatches, getDefinitionPair } from '../utils/theoremApplication';
+import { NetInvariantError, createNet, substitute } from '../net/netModel';
+
+interface UseTheoremRewritingArgs {
+  atomicNodes: AtomicNodeDefinition[];
+  definitions: DefinitionDefinition[];
+  canvasNodes: CanvasNodeInstance[];
+  wires: WireConnection[];
+  theorems: TheoremDefinition[];
+  nodePhysicsData: MutableRefObject<NodePhysicsData>;
+  setCanvasNodes: Dispatch<SetStateAction<CanvasNodeInstance[]>>;
+  setWires: Dispatch<SetStateAction<WireConnection[]>>;
+  setSelectedNodeIds: Dispatch<SetStateAction<string[]>>;
+  recordEdit?: (label: string) => void;
+}
+
+/**
+ * Rewrites principal pairs involving a definition instance with proved theorems.
+ * A single match is applied straight away; several put a choice in front of the user.
+ * Theorem rewrites are not reduction steps, so they are not recorded in the trace.
+ */
+export const useTheoremRewriting = ({
+  atomicNodes, definitions, canvasNodes, wires, theorems, nodePhysicsData, setCanvasNodes, setWires, setSelectedNodeIds, recordEdit,
+}: UseTheoremRewritingArgs) => {
+  const [pendingTheoremMatches, setPendingTheoremMatches] = useState<TheoremMatch[] | null>(null);
+
+  const applyTheorem = useCallback((match: TheoremMatch) => {
+    const substitution = buildTheoremRewrite(wires, match, nodePhysicsData.current);
+    let next;
+    try {
+      next = substitute(createNet(canvasNodes, wires), substitution);
+    } catch (error) {
+      if (!(error instanceof NetInvariantError)) throw error;
+      alert(`Error: Cannot apply theorem ${match.theorem.name}. ${error.message}`);
+      return;
+    }
+    recordEdit?.(`Apply theorem ${match.theorem.name}`);
+    setCanvasNodes(next.nodes);
+    setWires(next.wires);
+    substitution.removedNodeIds.forEach(id => nodePhysicsData.current.delete(id));
+    setSelectedNodeIds(prev => prev.filter(id => !substitution.removedNodeIds.includes(id)));
+    console.log(`Applied theorem "${match.theorem.name}":`, substitution);
+  }, [canvasNodes, wires, nodePhysicsData, setCanvasNodes, setWires, setSelectedNodeIds, recordEdit]);
+
+  // Returns false when the wire does not join a definition instance principal to principal,
+  // so the caller can try the axioms instead
+  const applyTheoremAtWire = useCallback((wireId: string): boolean => {
+    const wire = wires.find(w => w.id === wireId);
+    if (!wire) return false;
+    const pair = getDefinitionPair(wire, canvasNodes, atomicNodes, definitions);
+    if (!pair) return false;
+    const matches = findTheoremMatches(wire, canvasNodes, theorems, atomicNodes, definitions);
+    if (matches.length === 0) {
+      const nodeName = (node: CanvasNodeInstance) =>
+        [...atomicNodes, ...definitions].find(def => def.id === node.definitionId)?.name ?? node.definitionId;
+      alert(`Error: No proved theorem applies to the pair ${nodeName(pair[0])} ⋈ ${nodeName(pair[1])}.`);
+      return true;
+    }
+    if (matches.length === 1) {
+      applyTheorem(matches[0]);
+      return true;
+    }
+    setPendingTheoremMatches(matches);
+    return true;
+  }, [wires, canvasNodes, atomicNodes, definitions, theorems, applyTheorem]);
+
+  const chooseTheorem = useCallback((theoremId: string) => {
+    const match = pendingTheoremMatches?.find(m => m.theorem.id === theoremId);
+    setPendingTheoremMatches(null);
+    if (match) applyTheorem(match);
+  }, [pendingTheoremMatches, applyTheorem]);
+
+  const cancelTheoremChoice = useCallback(() => {
+    setPendingTheoremMatches(null);
+  }, []);
+
+  return {
+    pendingTheoremMatches,
+    applyTheoremAtWire,
+    chooseTheorem,
+    cancelTheoremChoice,
+  };
+};
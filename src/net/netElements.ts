@@ -0,0 +1,35 @@
+import { CanvasNodeInstance, NodeOrBoundaryId, PortIndexOrId, WireConnection } from '../types';
+
+// One end of a wire: a node port, or a boundary port when nodeId is 'BOUNDARY'
+export interface PortRef {
+    nodeId: NodeOrBoundaryId;
+    port: PortIndexOrId;
+}
+
+export const wireEnds = (wire: WireConnection): [PortRef, PortRef] => [
+    { nodeId: wire.sourceNodeId, port: wire.sourcePortIndex },
+    { nodeId: wire.targetNodeId, port: wire.targetPortIndex },
+];
+
+/**
+ * Generates an ID for a new node, wire or library item, e.g. `wire_1712345678901_9f3a2c`.
+ */
+export const newId = (prefix: string) => `${prefix}_${Date.now()}_${Math.random().toString(16).slice(2)}`;
+
+/**
+ * Copies a selected node into a rule diagram, placed on one side of the boundary centre.
+ * @param keepMetadata Copy the node's metadata too; otherwise the copy starts without values.
+ */
+export const placePairNode = (node: CanvasNodeInstance, x: number, keepMetadata = false): CanvasNodeInstance => ({
+    instanceId: newId('inst'),
+    definitionId: node.definitionId,
+    ...(node.isDefinitionInstance && { isDefinitionInstance: true }),
+    x,
+    y: 0,
+    metadataValues: keepMetadata ? { ...node.metadataValues } : {},
+    metadataVisibility: keepMetadata ? { ...node.metadataVisibility } : {},
+});
+
+// A wire straight across the boundary has no node to describe, so rule diagrams reject it
+export const hasBoundaryToBoundaryWire = (wires: WireConnection[]) =>
+    wires.some(w => w.sourceNodeId === 'BOUNDARY' && w.targetNodeId === 'BOUNDARY');
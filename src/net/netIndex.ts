@@ -0,0 +1,235 @@
+import { BoundaryPort, CanvasNodeInstance, NodeOrBoundaryId, PortIndexOrId, WireConnection } from '../types';
+import { PortRef, wireEnds } from './netElements';
+
+// The adjacency tables themselves; only the version at the root of a history holds them
+interface PortTables {
+    wiresById: Map<string, WireConnection>;
+    wireAt: Map<string, WireConnection>;                 // `${nodeId}:${port}` -> the wire on that port
+    portsOf: Map<NodeOrBoundaryId, Set<PortIndexOrId>>; // Node ID -> its ports that carry a wire
+}
+
+// Wires taken out of and put into an index, in that order
+interface WireChange {
+    removedWireIds: string[];
+    addedWires: WireConnection[];
+}
+
+// Node instances taken out of and put into a lookup, in that order
+interface NodeChange {
+    removedNodeIds: string[];
+    addedNodes: CanvasNodeInstance[];
+}
+
+/**
+ * One version of a structure that changes in place. Versions are persistent: deriving one
+ * leaves the earlier one readable. Only the version read last holds the structure; every
+ * other one holds the change that leads to its neighbour towards it, and reading a version
+ * first walks the structure over to it (Baker's rerooting), so moving between two versions
+ * costs the changes between them.
+ */
+interface Version<T, C> {
+    node: { kind: 'root'; data: T } | { kind: 'diff'; change: C; next: Version<T, C> };
+}
+
+// Applies a change in place and returns the change that undoes it
+type ApplyChange<T, C> = (data: T, change: C) => C;
+
+// Moves the structure to a version, turning the versions on the way into changes back towards it
+const reroot = <T, C>(version: Version<T, C>, apply: ApplyChange<T, C>): T => {
+    const path: Version<T, C>[] = [];
+    let root = version;
+    while (root.node.kind === 'diff') {
+        path.push(root);
+        root = root.node.next;
+    }
+    const { data } = root.node;
+    for (let i = path.length - 1; i >= 0; i--) {
+        const next = path[i];
+        const { change } = next.node as { change: C };
+        root.node = { kind: 'diff', change: apply(data, change), next };
+        root = next;
+    }
+    root.node = { kind: 'root', data };
+    return data;
+};
+
+const deriveVersion = <T, C>(version: Version<T, C>, change: C, apply: ApplyChange<T, C>): Version<T, C> => {
+    const data = reroot(version, apply);
+    const derived: Version<T, C> = { node: { kind: 'root', data } };
+    version.node = { kind: 'diff', change: apply(data, change), next: derived };
+    return derived;
+};
+
+/**
+ * One version of the adjacency of a wire list, keyed by (node ID, port), so that port
+ * lookups, neighbour traversal and active-pair checks cost the same on a net of ten wires
+ * as on one of ten thousand. Boundary ports are indexed under the node ID 'BOUNDARY'.
+ * Branching searches move between sibling nets at the cost of the rewrites between them.
+ * Read it through the functions below.
+ */
+export type PortIndex = Version<PortTables, WireChange>;
+
+// One version of the node instances of a node array by ID
+type NodeLookup = Version<Map<string, CanvasNodeInstance>, NodeChange>;
+
+export const portKey = (ref: PortRef) => `${ref.nodeId}:${ref.port}`;
+
+// A port that already carries a wire keeps it, as a linear search would find the earlier wire first
+const indexWire = (tables: PortTables, wire: WireConnection) => {
+    tables.wiresById.set(wire.id, wire);
+    wireEnds(wire).forEach(end => {
+        if (tables.wireAt.has(portKey(end))) return;
+        tables.wireAt.set(portKey(end), wire);
+        const ports = tables.portsOf.get(end.nodeId) ?? new Set<PortIndexOrId>();
+        ports.add(end.port);
+        tables.portsOf.set(end.nodeId, ports);
+    });
+};
+
+const unindexWire = (tables: PortTables, wire: WireConnection) => {
+    tables.wiresById.delete(wire.id);
+    wireEnds(wire).forEach(end => {
+        // A port shared by two wires (a broken net) is indexed under the earlier one only
+        if (tables.wireAt.get(portKey(end)) !== wire) return;
+        tables.wireAt.delete(portKey(end));
+        const ports = tables.portsOf.get(end.nodeId);
+        ports?.delete(end.port);
+        if (ports?.size === 0) tables.portsOf.delete(end.nodeId);
+    });
+};
+
+// Unknown wire IDs are ignored
+const applyWireChange = (tables: PortTables, change: WireChange): WireChange => {
+    const removed = change.removedWireIds.flatMap(id => tables.wiresById.get(id) ?? []);
+    removed.forEach(wire => unindexWire(tables, wire));
+    change.addedWires.forEach(wire => indexWire(tables, wire));
+    return { removedWireIds: change.addedWires.map(wire => wire.id).reverse(), addedWires: removed.reverse() };
+};
+
+// The first of two instances sharing an ID wins, as with a linear search
+const applyNodeChange = (lookup: Map<string, CanvasNodeInstance>, change: NodeChange): NodeChange => {
+    const removed = change.removedNodeIds.flatMap(id => lookup.get(id) ?? []);
+    removed.forEach(node => lookup.delete(node.instanceId));
+    const added = change.addedNodes.filter(node => !lookup.has(node.instanceId));
+    added.forEach(node => lookup.set(node.instanceId, node));
+    return { removedNodeIds: added.map(node => node.instanceId), addedNodes: removed };
+};
+
+export const createPortIndex = (wires: WireConnection[]): PortIndex => {
+    const tables: PortTables = { wiresById: new Map(), wireAt: new Map(), portsOf: new Map() };
+    wires.forEach(wire => indexWire(tables, wire));
+    return { node: { kind: 'root', data: tables } };
+};
+
+// Wire and node arrays are replaced, never mutated, so an index stays valid for the array it was built from
+const portIndexCache = new WeakMap<WireConnection[], PortIndex>();
+const nodeLookupCache = new WeakMap<CanvasNodeInstance[], NodeLookup>();
+const boundaryIdCache = new WeakMap<BoundaryPort[], Set<string>>();
+
+/**
+ * Returns the index of a wire array, building it on first use.
+ */
+export const getPortIndex = (wires: WireConnection[]): PortIndex => {
+    let index = portIndexCache.get(wires);
+    if (!index) {
+        index = createPortIndex(wires);
+        portIndexCache.set(wires, index);
+    }
+    return index;
+};
+
+/**
+ * Derives the index of a wire array from the index of the array it was made from, applying
+ * the change instead of reindexing every wire. The earlier array keeps its own version, so
+ * several arrays may be derived from one. Does nothing when the earlier array was never indexed.
+ * @param removedWireIds The wires of the earlier array that the new one leaves out.
+ * @param addedWires The wires the new array adds.
+ */
+export const carryPortIndex = (from: WireConnection[], to: WireConnection[], removedWireIds: string[], addedWires: WireConnection[]) => {
+    const index = portIndexCache.get(from);
+    if (index) portIndexCache.set(to, deriveVersion(index, { removedWireIds, addedWires }, applyWireChange));
+};
+
+// Reads the tables of an index version
+const tablesOf = (index: PortIndex) => reroot(index, applyWireChange);
+
+export const findWireById = (index: PortIndex, wireId: string): WireConnection | undefined => tablesOf(index).wiresById.get(wireId);
+
+/**
+ * Finds the wire attached to a port.
+ * @returns The wire, or undefined when the port is free.
+ */
+export const findWireAt = (index: PortIndex, ref: PortRef): WireConnection | undefined => tablesOf(index).wireAt.get(portKey(ref));
+
+/**
+ * Lists the ports of a node that carry a wire, numeric ports first in index order, then named ports.
+ */
+export const listWiredPorts = (index: PortIndex, nodeId: NodeOrBoundaryId): PortIndexOrId[] => {
+    return [...(tablesOf(index).portsOf.get(nodeId) ?? [])].sort((a, b) => {
+        if (typeof a === 'number' && typeof b === 'number') return a - b;
+        if (typeof a !== typeof b) return typeof a === 'number' ? -1 : 1;
+        return String(a).localeCompare(String(b));
+    });
+};
+
+/**
+ * Finds what a port is wired to.
+ * @returns The port's wire and its opposite end, or null when the port is free.
+ */
+export const findPartner = (index: PortIndex, ref: PortRef): { wire: WireConnection; other: PortRef } | null => {
+    const wire = findWireAt(index, ref);
+    if (!wire) return null;
+    const [source, target] = wireEnds(wire);
+    // A wire looping from a port back to itself has the port at both ends
+    return source.nodeId === ref.nodeId && source.port === ref.port ? { wire, other: target } : { wire, other: source };
+};
+
+/**
+ * Lists the connected ports of a node with the port each one is wired to, numeric ports
+ * first in index order, then named ports.
+ */
+export const listNeighbours = (index: PortIndex, nodeId: NodeOrBoundaryId): { port: PortIndexOrId; other: PortRef }[] => {
+    return listWiredPorts(index, nodeId).flatMap(port => {
+        const partner = findPartner(index, { nodeId, port });
+        return partner ? [{ port, other: partner.other }] : [];
+    });
+};
+
+const getNodeLookup = (nodes: CanvasNodeInstance[]): NodeLookup => {
+    let lookup = nodeLookupCache.get(nodes);
+    if (!lookup) {
+        const data = new Map<string, CanvasNodeInstance>();
+        for (const node of nodes) if (!data.has(node.instanceId)) data.set(node.instanceId, node);
+        lookup = { node: { kind: 'root', data } };
+        nodeLookupCache.set(nodes, lookup);
+    }
+    return lookup;
+};
+
+/**
+ * Derives the node lookup of a node array from the lookup of the array it was made from,
+ * like carryPortIndex. Does nothing when the earlier array was never looked up.
+ */
+export const carryNodeLookup = (from: CanvasNodeInstance[], to: CanvasNodeInstance[], removedNodeIds: string[], addedNodes: CanvasNodeInstance[]) => {
+    const lookup = nodeLookupCache.get(from);
+    if (lookup) nodeLookupCache.set(to, deriveVersion(lookup, { removedNodeIds, addedNodes }, applyNodeChange));
+};
+
+/**
+ * Looks up a node instance by ID through a map cached for the node array.
+ */
+export const findNode = (nodes: CanvasNodeInstance[], instanceId: NodeOrBoundaryId): CanvasNodeInstance | undefined => {
+    return reroot(getNodeLookup(nodes), applyNodeChange).get(instanceId as string);
+};
+
+/**
+ * Checks for a boundary port by ID through a set cached for the port array.
+ */
+export const hasBoundaryPort = (boundaryPorts: BoundaryPort[], portId: PortIndexOrId): boolean => {
+    let ids = boundaryIdCache.get(boundaryPorts);
+    if (!ids) {
+        ids = new Set(boundaryPorts.map(port => port.id));
+        boundaryIdCache.set(boundaryPorts, ids);
+    }
+    return ids.has(portId as string);
+};
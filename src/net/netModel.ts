@@ -0,0 +1,234 @@
+import { BoundaryPort, CanvasNodeInstance, WireConnection } from '../types';
+import { PortRef, newId, wireEnds } from './netElements';
+import { carryNodeLookup, carryPortIndex, findNode, findWireAt, findWireById, getPortIndex, hasBoundaryPort, listWiredPorts, portKey } from './netIndex';
+
+/**
+ * A net as plain data: node instances, the wires between their ports, and the boundary
+ * ports wires may end on. The operations below never mutate a net; each returns a new one
+ * that still holds the invariants:
+ * - every port carries at most one wire;
+ * - every wire ends on nodes and boundary ports that exist;
+ * - node, wire and boundary port IDs are unique.
+ * Port and node lookups go through the index of the wire array and the lookup of the node
+ * array (see netIndex), which each operation carries over to the net it returns.
+ */
+export interface Net {
+    nodes: CanvasNodeInstance[];
+    wires: WireConnection[];
+    boundaryPorts: BoundaryPort[];
+}
+
+// A local change to a net: a rewrite, a definition expansion or a fold
+export interface SubnetSubstitution {
+    removedNodeIds: string[];
+    removedWireIds: string[];
+    newNodes: CanvasNodeInstance[]; // In the same order as the diagram's nodes
+    newWires: WireConnection[];
+}
+
+export class NetInvariantError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'NetInvariantError';
+    }
+}
+
+const sameRef = (a: PortRef, b: PortRef) => a.nodeId === b.nodeId && a.port === b.port;
+
+const describeRef = (ref: PortRef) => (ref.nodeId === 'BOUNDARY' ? `boundary port ${ref.port}` : `port ${ref.port} of ${ref.nodeId}`);
+
+export const createNet = (
+    nodes: CanvasNodeInstance[] = [],
+    wires: WireConnection[] = [],
+    boundaryPorts: BoundaryPort[] = []
+): Net => ({ nodes, wires, boundaryPorts });
+
+/**
+ * Finds the wire attached to a port.
+ * @returns The wire, or undefined when the port is free.
+ */
+export const findPortWire = (net: Net, ref: PortRef): WireConnection | undefined => findWireAt(getPortIndex(net.wires), ref);
+
+export const isPortOccupied = (net: Net, ref: PortRef): boolean => findPortWire(net, ref) !== undefined;
+
+const hasEndpoint = (net: Net, ref: PortRef): boolean => ref.nodeId === 'BOUNDARY'
+    ? hasBoundaryPort(net.boundaryPorts, ref.port)
+    : findNode(net.nodes, ref.nodeId) !== undefined;
+
+/**
+ * Lists every way a net breaks the invariants.
+ * @returns Human-readable violations; empty when the net is sound.
+ */
+export const findInvariantViolations = (net: Net): string[] => {
+    const violations: string[] = [];
+    const reportDuplicates = (ids: string[], kind: string) => {
+        const seen = new Set<string>();
+        ids.forEach(id => {
+            if (seen.has(id)) violations.push(`Duplicate ${kind} ID ${id}.`);
+            seen.add(id);
+        });
+    };
+    reportDuplicates(net.nodes.map(n => n.instanceId), 'node');
+    reportDuplicates(net.wires.map(w => w.id), 'wire');
+    reportDuplicates(net.boundaryPorts.map(p => p.id), 'boundary port');
+
+    const wireByPort = new Map<string, string>();
+    net.wires.forEach(wire => wireEnds(wire).forEach(end => {
+        if (!hasEndpoint(net, end)) violations.push(`Wire ${wire.id} ends on missing ${describeRef(end)}.`);
+        const key = portKey(end);
+        const other = wireByPort.get(key);
+        if (other !== undefined) violations.push(`Wires ${other} and ${wire.id} share ${describeRef(end)}.`);
+        wireByPort.set(key, wire.id);
+    }));
+    return violations;
+};
+
+/**
+ * Adds a node instance.
+ * @throws NetInvariantError when the instance ID is taken.
+ */
+export const addNode = (net: Net, node: CanvasNodeInstance): Net => {
+    if (findNode(net.nodes, node.instanceId)) throw new NetInvariantError(`Node ${node.instanceId} already exists.`);
+    const nodes = [...net.nodes, node];
+    carryNodeLookup(net.nodes, nodes, [], [node]);
+    return { ...net, nodes };
+};
+
+/**
+ * Removes a node instance together with every wire attached to it.
+ */
+export const removeNode = (net: Net, instanceId: string): Net => {
+    const isAttached = (wire: WireConnection) => wire.sourceNodeId === instanceId || wire.targetNodeId === instanceId;
+    const wires = net.wires.filter(wire => !isAttached(wire));
+    carryPortIndex(net.wires, wires, net.wires.filter(isAttached).map(wire => wire.id), []);
+    const nodes = net.nodes.filter(node => node.instanceId !== instanceId);
+    carryNodeLookup(net.nodes, nodes, [instanceId], []);
+    return { ...net, nodes, wires };
+};
+
+/**
+ * Adds a boundary port.
+ * @throws NetInvariantError when the port ID is taken.
+ */
+export const addBoundaryPort = (net: Net, port: BoundaryPort): Net => {
+    if (hasBoundaryPort(net.boundaryPorts, port.id)) throw new NetInvariantError(`Boundary port ${port.id} already exists.`);
+    return { ...net, boundaryPorts: [...net.boundaryPorts, port] };
+};
+
+/**
+ * Removes a boundary port together with the wire attached to it.
+ */
+export const removeBoundaryPort = (net: Net, portId: string): Net => {
+    const attached = findPortWire(net, { nodeId: 'BOUNDARY', port: portId });
+    return {
+        ...net,
+        boundaryPorts: net.boundaryPorts.filter(port => port.id !== portId),
+        wires: attached ? disconnect(net, attached.id).wires : net.wires,
+    };
+};
+
+/**
+ * Joins two free ports with a new wire.
+ * @param targetLength Rest length for the wire's physics, or null for none.
+ * @throws NetInvariantError when a port is missing or already connected, or both ends are the same port.
+ */
+export const connect = (net: Net, source: PortRef, target: PortRef, targetLength: number | null = null): { net: Net; wire: WireConnection } => {
+    if (sameRef(source, target)) throw new NetInvariantError('Cannot connect a port to itself.');
+    [source, target].forEach(ref => {
+        if (!hasEndpoint(net, ref)) throw new NetInvariantError(`Cannot connect missing ${describeRef(ref)}.`);
+        if (isPortOccupied(net, ref)) throw new NetInvariantError(`Cannot connect ${describeRef(ref)}: it is already connected.`);
+    });
+    const wire: WireConnection = {
+        id: newId('wire'),
+        sourceNodeId: source.nodeId,
+        sourcePortIndex: source.port,
+        targetNodeId: target.nodeId,
+        targetPortIndex: target.port,
+        targetLength,
+    };
+    const wires = [...net.wires, wire];
+    carryPortIndex(net.wires, wires, [], [wire]);
+    return { net: { ...net, wires }, wire };
+};
+
+/**
+ * Removes a wire, leaving both of its ports free.
+ */
+export const disconnect = (net: Net, wireId: string): Net => {
+    const wires = net.wires.filter(wire => wire.id !== wireId);
+    carryPortIndex(net.wires, wires, [wireId], []);
+    return { ...net, wires };
+};
+
+/**
+ * Lists the invariants a substitution would break, looking only at the nodes, wires and
+ * ports it touches. A new wire may end on a listed boundary port or on one a removed wire
+ * frees, so splices into nets without a boundary list (proof sides, rule diagrams) pass.
+ */
+const findSubstitutionViolations = (net: Net, substitution: SubnetSubstitution): string[] => {
+    const violations: string[] = [];
+    const index = getPortIndex(net.wires);
+    const removedNodes = new Set(substitution.removedNodeIds);
+    const removedWires = new Set(substitution.removedWireIds);
+
+    const freedBoundaryPorts = new Set<string>();
+    substitution.removedWireIds.forEach(id => {
+        const wire = findWireById(index, id);
+        if (!wire) violations.push(`Wire ${id} to remove does not exist.`);
+        else wireEnds(wire).forEach(end => end.nodeId === 'BOUNDARY' && freedBoundaryPorts.add(portKey(end)));
+    });
+    substitution.removedNodeIds.forEach(nodeId => {
+        if (!findNode(net.nodes, nodeId)) violations.push(`Node ${nodeId} to remove does not exist.`);
+        listWiredPorts(index, nodeId).forEach(port => {
+            const wire = findWireAt(index, { nodeId, port });
+            if (wire && !removedWires.has(wire.id)) violations.push(`Wire ${wire.id} still ends on removed ${describeRef({ nodeId, port })}.`);
+        });
+    });
+
+    const newNodeIds = new Set<string>();
+    substitution.newNodes.forEach(node => {
+        const isTaken = newNodeIds.has(node.instanceId) || (!removedNodes.has(node.instanceId) && findNode(net.nodes, node.instanceId));
+        if (isTaken) violations.push(`Duplicate node ID ${node.instanceId}.`);
+        newNodeIds.add(node.instanceId);
+    });
+
+    const newWireIds = new Set<string>();
+    const claimedPorts = new Set<string>();
+    substitution.newWires.forEach(wire => {
+        const isTaken = newWireIds.has(wire.id) || (!removedWires.has(wire.id) && findWireById(index, wire.id) !== undefined);
+        if (isTaken) violations.push(`Duplicate wire ID ${wire.id}.`);
+        newWireIds.add(wire.id);
+        wireEnds(wire).forEach(end => {
+            const key = portKey(end);
+            const exists = end.nodeId === 'BOUNDARY'
+                ? freedBoundaryPorts.has(key) || hasEndpoint(net, end)
+                : newNodeIds.has(end.nodeId) || (!removedNodes.has(end.nodeId) && findNode(net.nodes, end.nodeId) !== undefined);
+            if (!exists) violations.push(`Wire ${wire.id} ends on missing ${describeRef(end)}.`);
+            const current = findWireAt(index, end);
+            if (claimedPorts.has(key) || (current && !removedWires.has(current.id))) {
+                violations.push(`Wire ${wire.id} ends on ${describeRef(end)}, which is already connected.`);
+            }
+            claimedPorts.add(key);
+        });
+    });
+    return violations;
+};
+
+/**
+ * Applies a subnet substitution (a rewrite, a definition expansion or a fold), checking
+ * only what it touches, so violations the net already had (say, from an imported file)
+ * are not the substitution's doing. The port index and node lookup of the old arrays, if
+ * built, are carried over to the new ones, so the check costs the size of the change.
+ * @throws NetInvariantError when the substitution breaks an invariant; the input net is left as it was.
+ */
+export const substitute = (net: Net, substitution: SubnetSubstitution): Net => {
+    const violations = findSubstitutionViolations(net, substitution);
+    if (violations.length > 0) throw new NetInvariantError(violations.join(' '));
+    const removedNodes = new Set(substitution.removedNodeIds);
+    const removedWires = new Set(substitution.removedWireIds);
+    const wires = [...net.wires.filter(w => !removedWires.has(w.id)), ...substitution.newWires];
+    carryPortIndex(net.wires, wires, substitution.removedWireIds, substitution.newWires);
+    const nodes = [...net.nodes.filter(n => !removedNodes.has(n.instanceId)), ...substitution.newNodes];
+    carryNodeLookup(net.nodes, nodes, substitution.removedNodeIds, substitution.newNodes);
+    return { ...net, nodes, wires };
+};
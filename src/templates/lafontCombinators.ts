@@ -0,0 +1,215 @@
+import { AtomicNodeDefinition, AxiomDefinition, CanvasNodeInstance, ExternalPort, WireConnection, WorkspaceData } from '../types';
+import { CURRENT_FORMAT_VERSION } from '../utils/workspaceMigrations';
+
+// Fixed IDs so every workspace built from the template agrees on the library
+export const GAMMA_ID = 'lafont_gamma';
+export const DELTA_ID = 'lafont_delta';
+export const EPSILON_ID = 'lafont_epsilon';
+
+// Port 0 is principal; the auxiliary ports follow in order
+export const LAFONT_ATOMIC_NODES: AtomicNodeDefinition[] = [
+    { id: GAMMA_ID, name: 'γ', color: '#e0605e', principalPorts: 1, nonPrincipalPorts: 2, metadataSchema: [] },
+    { id: DELTA_ID, name: 'δ', color: '#4f8fd8', principalPorts: 1, nonPrincipalPorts: 2, metadataSchema: [] },
+    { id: EPSILON_ID, name: 'ε', color: '#7cb861', principalPorts: 1, nonPrincipalPorts: 0, metadataSchema: [] },
+];
+
+const AUX_PORT_COUNT: Record<string, number> = { [GAMMA_ID]: 2, [DELTA_ID]: 2, [EPSILON_ID]: 0 };
+
+const createNode = (instanceId: string, definitionId: string, x: number, y: number): CanvasNodeInstance => ({
+    instanceId,
+    definitionId,
+    x,
+    y,
+    metadataValues: {},
+    metadataVisibility: {},
+});
+
+const createWire = (id: string, sourceNodeId: string, sourcePort: number | string, targetNodeId: string, targetPort: number | string): WireConnection => ({
+    id,
+    sourceNodeId,
+    sourcePortIndex: sourcePort,
+    targetNodeId,
+    targetPortIndex: targetPort,
+    targetLength: null,
+});
+
+// --- Axioms ---
+// Auxiliary port i of the left node meets boundary port l<i>, of the right node r<i>.
+// With the principal ports facing each other, l1 sits top-left and r1 bottom-right.
+const BOUNDARY_ANGLES: Record<string, number> = {
+    l1: (5 * Math.PI) / 6,
+    l2: (-5 * Math.PI) / 6,
+    r1: -Math.PI / 6,
+    r2: Math.PI / 6,
+};
+
+interface ResultBuilder {
+    node: (key: string, typeId: string, x: number, y: number) => void;
+    wire: (from: [string, number | string], to: [string, number | string]) => void;
+}
+
+/**
+ * Builds an axiom between two combinators. The result callback wires against the
+ * boundary ports l1, l2, r1, r2 by passing 'BOUNDARY' as the node key.
+ */
+const createCombinatorAxiom = (
+    id: string,
+    name: string,
+    leftTypeId: string,
+    rightTypeId: string,
+    optionLabel: string,
+    buildResult: (result: ResultBuilder) => void
+): AxiomDefinition => {
+    const portId = (key: string) => `${id}_${key}`;
+    const leftNode = createNode(`${id}_left`, leftTypeId, -1.6, 0);
+    const rightNode = createNode(`${id}_right`, rightTypeId, 1.6, 0);
+    const sourceWires = [createWire(`${id}_active`, leftNode.instanceId, 0, rightNode.instanceId, 0)];
+    const externalPorts: ExternalPort[] = [];
+
+    ([[leftNode, 'l'], [rightNode, 'r']] as const).forEach(([node, side]) => {
+        for (let aux = 1; aux <= AUX_PORT_COUNT[node.definitionId]; aux++) {
+            const key = `${side}${aux}`;
+            sourceWires.push(createWire(`${id}_source_${key}`, node.instanceId, aux, 'BOUNDARY', portId(key)));
+            externalPorts.push({ id: portId(key), angle: BOUNDARY_ANGLES[key], isPrincipal: false });
+        }
+    });
+    externalPorts.sort((a, b) => a.angle - b.angle);
+
+    const nodes: CanvasNodeInstance[] = [];
+    const wires: WireConnection[] = [];
+    const resolve = ([key, port]: [string, number | string]): [string, number | string] =>
+        key === 'BOUNDARY' ? ['BOUNDARY', portId(port as string)] : [`${id}_${key}`, port];
+    buildResult({
+        node: (key, typeId, x, y) => nodes.push(createNode(`${id}_${key}`, typeId, x, y)),
+        wire: (from, to) => wires.push(createWire(`${id}_wire_${wires.length}`, ...resolve(from), ...resolve(to))),
+    });
+
+    return {
+        id,
+        name,
+        source: { leftNode, rightNode, wires: sourceWires },
+        externalPorts,
+        options: [{ id: `${id}_option`, label: optionLabel, guard: '', diagram: { nodes, wires } }],
+    };
+};
+
+// Same-type pairs annihilate: γ crosses its auxiliary ports over, δ keeps them in order
+const createAnnihilation = (id: string, typeId: string, name: string, crossed: boolean) =>
+    createCombinatorAxiom(id, name, typeId, typeId, 'annihilate', result => {
+        result.wire(['BOUNDARY', 'l1'], ['BOUNDARY', crossed ? 'r2' : 'r1']);
+        result.wire(['BOUNDARY', 'l2'], ['BOUNDARY', crossed ? 'r1' : 'r2']);
+    });
+
+// An eraser meeting a binary node erases it and spreads to both auxiliary ports
+const createErasure = (id: string, typeId: string, name: string) =>
+    createCombinatorAxiom(id, name, typeId, EPSILON_ID, 'erase', result => {
+        result.node('eps1', EPSILON_ID, -1.2, 0.8);
+        result.node('eps2', EPSILON_ID, -1.2, -0.8);
+        result.wire(['eps1', 0], ['BOUNDARY', 'l1']);
+        result.wire(['eps2', 0], ['BOUNDARY', 'l2']);
+    });
+
+export const createLafontAxioms = (): AxiomDefinition[] => [
+    createAnnihilation('lafont_gamma_gamma', GAMMA_ID, 'γ-γ annihilation', true),
+    createAnnihilation('lafont_delta_delta', DELTA_ID, 'δ-δ annihilation', false),
+    createCombinatorAxiom('lafont_epsilon_epsilon', 'ε-ε annihilation', EPSILON_ID, EPSILON_ID, 'annihilate', () => {}),
+    // Each node is copied by the other: two δ take γ's place and two γ take δ's place
+    createCombinatorAxiom('lafont_gamma_delta', 'γ-δ commutation', GAMMA_ID, DELTA_ID, 'commute', result => {
+        result.node('delta1', DELTA_ID, -1, 0.9);
+        result.node('delta2', DELTA_ID, -1, -0.9);
+        result.node('gamma1', GAMMA_ID, 1, -0.9);
+        result.node('gamma2', GAMMA_ID, 1, 0.9);
+        result.wire(['delta1', 0], ['BOUNDARY', 'l1']);
+        result.wire(['delta2', 0], ['BOUNDARY', 'l2']);
+        result.wire(['gamma1', 0], ['BOUNDARY', 'r1']);
+        result.wire(['gamma2', 0], ['BOUNDARY', 'r2']);
+        result.wire(['delta1', 1], ['gamma1', 1]);
+        result.wire(['delta1', 2], ['gamma2', 1]);
+        result.wire(['delta2', 1], ['gamma1', 2]);
+        result.wire(['delta2', 2], ['gamma2', 2]);
+    }),
+    createErasure('lafont_gamma_epsilon', GAMMA_ID, 'γ-ε erasure'),
+    createErasure('lafont_delta_epsilon', DELTA_ID, 'δ-ε erasure'),
+];
+
+// --- Example Nets ---
+interface ExampleNet {
+    nodes: CanvasNodeInstance[];
+    wires: WireConnection[];
+}
+
+const createExampleNet = (prefix: string, buildNet: (net: ResultBuilder) => void): ExampleNet => {
+    const nodes: CanvasNodeInstance[] = [];
+    const wires: WireConnection[] = [];
+    buildNet({
+        node: (key, typeId, x, y) => nodes.push(createNode(`${prefix}_${key}`, typeId, x, y)),
+        wire: ([fromKey, fromPort], [toKey, toPort]) =>
+            wires.push(createWire(`${prefix}_wire_${wires.length}`, `${prefix}_${fromKey}`, fromPort, `${prefix}_${toKey}`, toPort)),
+    });
+    return { nodes, wires };
+};
+
+// γ ⋈ γ with erasers on every auxiliary port: the erasers end up facing each other
+const createAnnihilationExample = () => createExampleNet('annihilation', net => {
+    net.node('gamma1', GAMMA_ID, -1.5, 0);
+    net.node('gamma2', GAMMA_ID, 1.5, 0);
+    net.node('eps1', EPSILON_ID, -3.5, 1.5);
+    net.node('eps2', EPSILON_ID, -3.5, -1.5);
+    net.node('eps3', EPSILON_ID, 3.5, -1.5);
+    net.node('eps4', EPSILON_ID, 3.5, 1.5);
+    net.wire(['gamma1', 0], ['gamma2', 0]);
+    net.wire(['gamma1', 1], ['eps1', 0]);
+    net.wire(['gamma1', 2], ['eps2', 0]);
+    net.wire(['gamma2', 1], ['eps3', 0]);
+    net.wire(['gamma2', 2], ['eps4', 0]);
+});
+
+// δ ⋈ γ where γ holds two erasers: δ copies the whole γ tree onto its auxiliary ports
+const createDuplicationExample = () => createExampleNet('duplication', net => {
+    net.node('delta', DELTA_ID, -1.5, 0);
+    net.node('gamma', GAMMA_ID, 1.5, 0);
+    net.node('eps1', EPSILON_ID, 3.5, -1.5);
+    net.node('eps2', EPSILON_ID, 3.5, 1.5);
+    net.wire(['delta', 0], ['gamma', 0]);
+    net.wire(['gamma', 1], ['eps1', 0]);
+    net.wire(['gamma', 2], ['eps2', 0]);
+});
+
+// γ ⋈ δ closed off by erasers: commutation, then erasure until nothing is left
+const createCommutationExample = () => createExampleNet('commutation', net => {
+    net.node('gamma', GAMMA_ID, -1.5, 0);
+    net.node('delta', DELTA_ID, 1.5, 0);
+    net.node('eps1', EPSILON_ID, -3.5, 1.5);
+    net.node('eps2', EPSILON_ID, -3.5, -1.5);
+    net.node('eps3', EPSILON_ID, 3.5, -1.5);
+    net.node('eps4', EPSILON_ID, 3.5, 1.5);
+    net.wire(['gamma', 0], ['delta', 0]);
+    net.wire(['gamma', 1], ['eps1', 0]);
+    net.wire(['gamma', 2], ['eps2', 0]);
+    net.wire(['delta', 1], ['eps3', 0]);
+    net.wire(['delta', 2], ['eps4', 0]);
+});
+
+/**
+ * Builds a workspace with the γ, δ and ε combinators, their six axioms and
+ * optionally an example net on the canvas.
+ */
+export const createLafontWorkspace = (title: string, example?: () => ExampleNet): WorkspaceData => {
+    const net = example ? example() : { nodes: [], wires: [] };
+    return {
+        formatVersion: CURRENT_FORMAT_VERSION,
+        title,
+        atomicNodes: LAFONT_ATOMIC_NODES.map(def => ({ ...def })),
+        canvasNodes: net.nodes,
+        wires: net.wires,
+        definitions: [],
+        axioms: createLafontAxioms(),
+        theorems: [],
+    };
+};
+
+export const LAFONT_EXAMPLES = {
+    annihilation: createAnnihilationExample,
+    duplication: createDuplicationExample,
+    commutation: createCommutationExample,
+};
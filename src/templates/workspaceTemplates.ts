@@ -0,0 +1,36 @@
+import { WorkspaceData } from '../types';
+import { LAFONT_EXAMPLES, createLafontWorkspace } from './lafontCombinators';
+
+export interface WorkspaceTemplate {
+    id: string;
+    name: string;
+    description: string;
+    create: () => WorkspaceData; // Builds a fresh copy each time the template is loaded
+}
+
+export const WORKSPACE_TEMPLATES: WorkspaceTemplate[] = [
+    {
+        id: 'lafont',
+        name: 'Interaction combinators',
+        description: 'γ, δ and ε with the six standard axioms and an empty canvas.',
+        create: () => createLafontWorkspace('Interaction Combinators'),
+    },
+    {
+        id: 'lafont_annihilation',
+        name: 'Interaction combinators: annihilation',
+        description: 'Two γ nodes annihilating, with erasers on their auxiliary ports.',
+        create: () => createLafontWorkspace('Annihilation', LAFONT_EXAMPLES.annihilation),
+    },
+    {
+        id: 'lafont_duplication',
+        name: 'Interaction combinators: duplication',
+        description: 'A δ node copying a small γ tree.',
+        create: () => createLafontWorkspace('Duplication', LAFONT_EXAMPLES.duplication),
+    },
+    {
+        id: 'lafont_commutation',
+        name: 'Interaction combinators: commutation',
+        description: 'γ meeting δ, closed off by erasers, reducing to the empty net.',
+        create: () => createLafontWorkspace('Commutation', LAFONT_EXAMPLES.commutation),
+    },
+];
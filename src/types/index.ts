@@ -17,6 +17,7 @@ export interface CanvasNodeInstance {
   isDefinitionInstance?: boolean; // Flag to differentiate instance types
   metadataValues?: Record<string, string | number | boolean>; // Values for metadata fields defined in AtomicNodeDefinition
   metadataVisibility?: Record<string, boolean>; // Visibility state for metadata fields
+  metadataExpressions?: Record<string, string>; // Rule result nodes only: fields computed from the redex when the rule fires
   // Add metadata values state later
 }
 
@@ -56,12 +57,14 @@ export interface DrawingWireState {
 }
 
 export interface WorkspaceData {
+  formatVersion: number; // See CURRENT_FORMAT_VERSION; older files are migrated on import
   title: string;
   atomicNodes: AtomicNodeDefinition[];
   canvasNodes: CanvasNodeInstance[]; // Add canvas nodes
   wires: WireConnection[]; // Add wires array
   definitions: DefinitionDefinition[]; // Add definitions
-  // Add other state properties here later (axioms, etc.)
+  axioms: AxiomDefinition[];
+  theorems: TheoremDefinition[];
 }
 
 export interface ExternalPort {
@@ -77,4 +80,135 @@ export interface DefinitionDefinition {
     internalNodes: CanvasNodeInstance[]; // Nodes inside the definition
     internalWires: WireConnection[];   // Wires connecting internal nodes/ports
     externalPorts: ExternalPort[];     // Ports connecting to the outside world
-} 
\ No newline at end of file
+    staleReason?: string; // Set when something it depends on changed or was deleted
+}
+
+// --- Axiom Types ---
+// The starting configuration of a rewrite: two nodes joined on principal ports,
+// with every other port wired to the shared boundary.
+export interface ActivePairSource {
+    leftNode: CanvasNodeInstance;
+    rightNode: CanvasNodeInstance;
+    wires: WireConnection[]; // The principal-to-principal wire plus all boundary wires
+}
+
+// A replacement diagram wired against the same boundary ports as its source
+export interface RuleDiagram {
+    nodes: CanvasNodeInstance[];
+    wires: WireConnection[];
+}
+
+export interface AxiomOption {
+    id: string;
+    label: string; // Required, unique within its axiom
+    guard: string; // Boolean expression over the interacting pair; empty means always
+    diagram: RuleDiagram;
+}
+
+export interface AxiomDefinition {
+    id: string;
+    name: string;
+    source: ActivePairSource;
+    externalPorts: ExternalPort[]; // Boundary interface shared by every option, sorted by angle
+    options: AxiomOption[];
+    staleReason?: string; // Set when a node type it uses changed or was deleted
+}
+
+// --- Theorem Types ---
+// A claimed equation between an active pair involving a definition instance and a target
+// diagram wired against the same boundary ports
+export interface TheoremDefinition {
+    id: string;
+    name: string;
+    source: ActivePairSource;
+    target: RuleDiagram;
+    externalPorts: ExternalPort[]; // Boundary interface shared by source and target, sorted by angle
+    isProved: boolean;
+    proof?: ProofStep[]; // Steps that proved it, replayed on import
+    proofFailure?: string; // Why the recorded proof no longer checks
+    staleReason?: string; // Set when something its statement or proof uses changed or was deleted
+}
+
+export type SidebarTab = 'atomic' | 'axioms' | 'definitions' | 'theorems';
+
+// Latest known world transform of each rendered node, keyed by instance ID
+export type NodePhysicsData = Map<string, { position: THREE.Vector3, rotation: THREE.Quaternion }>;
+
+// Canvas contents set aside while an editor temporarily takes over the canvas
+export interface StashedCanvas {
+    nodes: CanvasNodeInstance[];
+    wires: WireConnection[];
+    boundaryPorts: BoundaryPort[];
+    isBoundaryActive: boolean;
+}
+
+export interface AxiomEditorSession {
+    stage: 'source' | 'results'; // Capturing the starting configuration, then authoring result options
+    leftNodeId: string;
+    rightNodeId: string;
+    source: ActivePairSource | null; // Set once the starting configuration is captured
+    externalPorts: ExternalPort[];   // Frozen boundary interface for all result options
+    options: AxiomOption[];
+    stashedCanvas: StashedCanvas;
+}
+
+export interface TheoremEditorSession {
+    stage: 'source' | 'target'; // Capturing the source pair, then drawing the target
+    leftNodeId: string;
+    rightNodeId: string;
+    source: ActivePairSource | null; // Set once the source is captured
+    externalPorts: ExternalPort[];   // Frozen boundary interface for the target
+    stashedCanvas: StashedCanvas;
+}
+
+export interface DefinitionEditorSession {
+    definitionId: string; // The definition whose internal net is on the canvas
+    stashedCanvas: StashedCanvas;
+}
+
+export type ProofSide = 'source' | 'target';
+
+// What a proof step did to one side of the proof
+export type ProofStepAction =
+    | { kind: 'axiom'; wireId: string; axiomId: string; optionId: string }
+    | { kind: 'theorem'; wireId: string; theoremId: string }
+    | { kind: 'expand'; instanceId: string };
+
+// A recorded proof step. The IDs it created are kept so later steps can refer to them on replay.
+export type ProofStep = ProofStepAction & {
+    side: ProofSide;
+    newNodeIds: string[];
+    newWireIds: string[];
+};
+
+// A theorem being proved: both sides are rewritten until they are the same net
+export interface ProofSession {
+    theoremId: string;
+    nets: Record<ProofSide, RuleDiagram>;
+    steps: ProofStep[];
+}
+
+// --- Reduction Types ---
+// Cost of a reduction since the last snapshot
+export interface ReductionStats {
+    interactions: number;
+    peakNodeCount: number;
+    ruleFirings: Record<string, number>; // Keyed by "axiom: option" label
+}
+
+// One applied rewrite. Created instance IDs are the IDs of createdNodes.
+export interface TraceEntry {
+    axiomId: string;
+    optionLabel: string;
+    consumedInstanceIds: string[];
+    createdNodes: CanvasNodeInstance[];
+    removedWireIds: string[];
+    addedWires: WireConnection[];
+}
+
+// A reduction from a starting canvas, replayable entry by entry
+export interface ReductionTrace {
+    initialNodes: CanvasNodeInstance[];
+    initialWires: WireConnection[];
+    entries: TraceEntry[];
+}
@@ -0,0 +1,41 @@
+import { AtomicNodeDefinition, CanvasNodeInstance, DefinitionDefinition, PortIndexOrId, WireConnection } from '../types';
+import { findWireAt, getPortIndex, listNeighbours } from '../net/netIndex';
+
+/**
+ * Checks whether a port of a node instance is principal.
+ * Atomic ports are principal below `principalPorts`; definition ports use their external port flag.
+ */
+export const isPrincipalPort = (
+    node: CanvasNodeInstance,
+    portIndex: PortIndexOrId,
+    atomicNodes: AtomicNodeDefinition[],
+    definitions: DefinitionDefinition[] = []
+): boolean => {
+    if (typeof portIndex !== 'number') return false;
+    if (node.isDefinitionInstance) {
+        const definition = definitions.find(def => def.id === node.definitionId);
+        return definition?.externalPorts[portIndex]?.isPrincipal ?? false;
+    }
+    const atomicDef = atomicNodes.find(def => def.id === node.definitionId);
+    return atomicDef ? portIndex < atomicDef.principalPorts : false;
+};
+
+/**
+ * Finds a wire joining a principal port of one node to a principal port of another.
+ * @returns The connecting wire, or undefined when the nodes do not form an active pair.
+ */
+export const findPrincipalWireBetween = (
+    wires: WireConnection[],
+    first: CanvasNodeInstance,
+    second: CanvasNodeInstance,
+    atomicNodes: AtomicNodeDefinition[],
+    definitions: DefinitionDefinition[] = []
+): WireConnection | undefined => {
+    const index = getPortIndex(wires);
+    const link = listNeighbours(index, first.instanceId).find(({ port, other }) =>
+        other.nodeId === second.instanceId &&
+        isPrincipalPort(first, port, atomicNodes, definitions) &&
+        isPrincipalPort(second, other.port, atomicNodes, definitions)
+    );
+    return link && findWireAt(index, { nodeId: first.instanceId, port: link.port });
+};
@@ -0,0 +1,221 @@
+import { ActivePairSource, AtomicNodeDefinition, AxiomDefinition, AxiomOption, CanvasNodeInstance, NodePhysicsData, RuleDiagram, WireConnection } from '../types';
+import { findNode } from '../net/netIndex';
+import { isPrincipalPort } from './activePairs';
+import { GuardBindings, createRedexBindings, evaluateGuard, evaluateMetadataExpressions } from './guardExpressionEvaluator';
+import { PortRef } from '../net/netElements';
+import { SubnetSubstitution } from '../net/netModel';
+import { substituteSubnet } from './netSubstitution';
+
+// An axiom whose starting configuration matches an active pair on the canvas
+export interface AxiomMatch {
+    axiom: AxiomDefinition;
+    leftInstance: CanvasNodeInstance;  // Canvas node playing the axiom's left node
+    rightInstance: CanvasNodeInstance; // Canvas node playing the axiom's right node
+    options: AxiomOption[];            // Options whose guard holds for this pair
+}
+
+// The canvas nodes playing the left and right node of a starting configuration
+export interface PairInstances {
+    leftInstance: CanvasNodeInstance;
+    rightInstance: CanvasNodeInstance;
+}
+
+// One applicable (axiom, option) pair for a redex
+export interface RewriteChoice {
+    key: string;
+    label: string;
+    match: AxiomMatch;
+    option: AxiomOption;
+}
+
+/**
+ * Finds the two nodes of an active pair joined by a wire.
+ * @returns The pair in wire order, or null when the wire is not principal-to-principal between atomic nodes.
+ */
+export const getActivePair = (
+    wire: WireConnection,
+    nodes: CanvasNodeInstance[],
+    atomicNodes: AtomicNodeDefinition[]
+): [CanvasNodeInstance, CanvasNodeInstance] | null => {
+    const sourceNode = findNode(nodes, wire.sourceNodeId);
+    const targetNode = findNode(nodes, wire.targetNodeId);
+    if (!sourceNode || !targetNode || sourceNode === targetNode) return null;
+    if (sourceNode.isDefinitionInstance || targetNode.isDefinitionInstance) return null;
+    if (!isPrincipalPort(sourceNode, wire.sourcePortIndex, atomicNodes)) return null;
+    if (!isPrincipalPort(targetNode, wire.targetPortIndex, atomicNodes)) return null;
+    return [sourceNode, targetNode];
+};
+
+// The wire of a starting configuration joining its two nodes
+const findSourcePairWire = (source: ActivePairSource): WireConnection | undefined => {
+    const { leftNode, rightNode, wires } = source;
+    return wires.find(w =>
+        (w.sourceNodeId === leftNode.instanceId && w.targetNodeId === rightNode.instanceId) ||
+        (w.sourceNodeId === rightNode.instanceId && w.targetNodeId === leftNode.instanceId)
+    );
+};
+
+// Port of the left and right node used by a starting configuration's principal wire
+export const getPairSourcePorts = (source: ActivePairSource): { leftPort: number; rightPort: number } | null => {
+    const pairWire = findSourcePairWire(source);
+    if (!pairWire) return null;
+    const leftIsSource = pairWire.sourceNodeId === source.leftNode.instanceId;
+    return {
+        leftPort: Number(leftIsSource ? pairWire.sourcePortIndex : pairWire.targetPortIndex),
+        rightPort: Number(leftIsSource ? pairWire.targetPortIndex : pairWire.sourcePortIndex),
+    };
+};
+
+export const getAxiomPairPorts = (axiom: AxiomDefinition) => getPairSourcePorts(axiom.source);
+
+const isSameNodeType = (instance: CanvasNodeInstance, pattern: CanvasNodeInstance) =>
+    instance.definitionId === pattern.definitionId && !!instance.isDefinitionInstance === !!pattern.isDefinitionInstance;
+
+/**
+ * Orients a canvas wire against a starting configuration, trying both directions.
+ * @returns The canvas nodes playing the left and right node, or null when the pair does not fit.
+ */
+export const orientAgainstSource = (
+    source: ActivePairSource,
+    wire: WireConnection,
+    sourceNode: CanvasNodeInstance,
+    targetNode: CanvasNodeInstance
+): [CanvasNodeInstance, CanvasNodeInstance] | null => {
+    const ports = getPairSourcePorts(source);
+    if (!ports) return null;
+    const { leftNode, rightNode } = source;
+    const fits = (left: CanvasNodeInstance, leftPort: number, right: CanvasNodeInstance, rightPort: number) =>
+        isSameNodeType(left, leftNode) && leftPort === ports.leftPort &&
+        isSameNodeType(right, rightNode) && rightPort === ports.rightPort;
+
+    if (fits(sourceNode, Number(wire.sourcePortIndex), targetNode, Number(wire.targetPortIndex))) return [sourceNode, targetNode];
+    if (fits(targetNode, Number(wire.targetPortIndex), sourceNode, Number(wire.sourcePortIndex))) return [targetNode, sourceNode];
+    return null;
+};
+
+/**
+ * Lists every axiom that can rewrite the active pair on a wire, with the options whose guards hold.
+ * @returns One entry per matching axiom; axioms where no guard holds are kept with an empty option list.
+ */
+export const findAxiomMatches = (
+    wire: WireConnection,
+    nodes: CanvasNodeInstance[],
+    axioms: AxiomDefinition[],
+    atomicNodes: AtomicNodeDefinition[]
+): AxiomMatch[] => {
+    const pair = getActivePair(wire, nodes, atomicNodes);
+    if (!pair) return [];
+    const matches: AxiomMatch[] = [];
+    axioms.forEach(axiom => {
+        const oriented = orientAgainstSource(axiom.source, wire, pair[0], pair[1]);
+        if (!oriented) return;
+        const [leftInstance, rightInstance] = oriented;
+        const bindings = createRedexBindings(leftInstance, rightInstance);
+        matches.push({
+            axiom,
+            leftInstance,
+            rightInstance,
+            options: axiom.options.filter(option => evaluateGuard(option.guard, bindings)),
+        });
+    });
+    return matches;
+};
+
+/**
+ * Flattens the axiom matches of a wire into one choice per applicable option.
+ * @returns The choices in library order; empty when no axiom applies.
+ */
+export const listRewriteChoices = (
+    wire: WireConnection,
+    nodes: CanvasNodeInstance[],
+    axioms: AxiomDefinition[],
+    atomicNodes: AtomicNodeDefinition[]
+): RewriteChoice[] => {
+    return findAxiomMatches(wire, nodes, axioms, atomicNodes).flatMap(match => match.options.map(option => ({
+        key: `${match.axiom.id}:${option.id}`,
+        label: `${match.axiom.name}: ${option.label}`,
+        match,
+        option,
+    })));
+};
+
+// Boundary port ID -> the canvas port it stands for, for a pair matched against a starting configuration
+export const bindPairBoundary = (source: ActivePairSource, pair: PairInstances): Map<string, PortRef> => {
+    const { leftNode, rightNode, wires } = source;
+    const instanceFor = new Map([
+        [leftNode.instanceId, pair.leftInstance.instanceId],
+        [rightNode.instanceId, pair.rightInstance.instanceId],
+    ]);
+    const bindings = new Map<string, PortRef>();
+    wires.forEach(wire => {
+        if (wire.sourceNodeId === 'BOUNDARY' && instanceFor.has(wire.targetNodeId)) {
+            bindings.set(wire.sourcePortIndex as string, { nodeId: instanceFor.get(wire.targetNodeId)!, port: wire.targetPortIndex });
+        } else if (wire.targetNodeId === 'BOUNDARY' && instanceFor.has(wire.sourceNodeId)) {
+            bindings.set(wire.targetPortIndex as string, { nodeId: instanceFor.get(wire.sourceNodeId)!, port: wire.sourcePortIndex });
+        }
+    });
+    return bindings;
+};
+
+const getLivePosition = (node: CanvasNodeInstance, physicsData: NodePhysicsData) => {
+    const data = physicsData.get(node.instanceId);
+    return data ? { x: data.position.x, y: data.position.y } : { x: node.x, y: node.y };
+};
+
+/**
+ * Maps a rule's frame onto the redex: the midpoint of the rule's source pair lands on the
+ * midpoint of the redex, and the left-to-right axis is rotated to match.
+ */
+export const createPairPlacement = (source: ActivePairSource, pair: PairInstances, physicsData: NodePhysicsData) => {
+    const { leftNode, rightNode } = source;
+    const ruleMid = { x: (leftNode.x + rightNode.x) / 2, y: (leftNode.y + rightNode.y) / 2 };
+    const ruleAngle = Math.atan2(rightNode.y - leftNode.y, rightNode.x - leftNode.x);
+
+    const left = getLivePosition(pair.leftInstance, physicsData);
+    const right = getLivePosition(pair.rightInstance, physicsData);
+    const redexMid = { x: (left.x + right.x) / 2, y: (left.y + right.y) / 2 };
+    const redexAngle = Math.atan2(right.y - left.y, right.x - left.x);
+
+    const cos = Math.cos(redexAngle - ruleAngle);
+    const sin = Math.sin(redexAngle - ruleAngle);
+    return (node: CanvasNodeInstance) => {
+        const dx = node.x - ruleMid.x;
+        const dy = node.y - ruleMid.y;
+        return { x: redexMid.x + dx * cos - dy * sin, y: redexMid.y + dx * sin + dy * cos };
+    };
+};
+
+/**
+ * Instantiates a result diagram for one redex: computed metadata fields are evaluated
+ * against the pair and take precedence over the static values stored with the rule.
+ */
+export const instantiateResultDiagram = (diagram: RuleDiagram, bindings: GuardBindings): RuleDiagram => ({
+    ...diagram,
+    nodes: diagram.nodes.map(node => {
+        const { metadataExpressions, ...rest } = node;
+        if (!metadataExpressions) return rest;
+        return { ...rest, metadataValues: { ...rest.metadataValues, ...evaluateMetadataExpressions(metadataExpressions, bindings) } };
+    }),
+});
+
+/**
+ * Builds the rewrite of a matched redex by one of the axiom's options.
+ * @param wires The canvas wires.
+ * @param match The matched axiom and redex.
+ * @param option The option to apply.
+ * @param physicsData Latest node positions, used to place the result where the redex is.
+ */
+export const buildAxiomRewrite = (
+    wires: WireConnection[],
+    match: AxiomMatch,
+    option: AxiomOption,
+    physicsData: NodePhysicsData
+): SubnetSubstitution => {
+    return substituteSubnet(
+        wires,
+        [match.leftInstance.instanceId, match.rightInstance.instanceId],
+        bindPairBoundary(match.axiom.source, match),
+        instantiateResultDiagram(option.diagram, createRedexBindings(match.leftInstance, match.rightInstance)),
+        createPairPlacement(match.axiom.source, match, physicsData)
+    );
+};
@@ -0,0 +1,117 @@
+import { AtomicNodeDefinition, BoundaryPort, CanvasNodeInstance, DefinitionDefinition, ExternalPort, NodeOrBoundaryId, PortIndexOrId, WireConnection } from '../types';
+import { findNode, findWireAt, getPortIndex } from '../net/netIndex';
+import { isPrincipalPort } from './activePairs';
+
+/**
+ * Finds the wire attached to a boundary port, if any.
+ * @param wires The wires to search.
+ * @param boundaryPortId The ID of the boundary port.
+ * @returns The connected wire, or undefined when the port is dangling.
+ */
+export const findBoundaryWire = (wires: WireConnection[], boundaryPortId: string): WireConnection | undefined => {
+    return findWireAt(getPortIndex(wires), { nodeId: 'BOUNDARY', port: boundaryPortId });
+};
+
+// Number of ports of a node instance, or null when its definition is unknown
+const countNodePorts = (node: CanvasNodeInstance, atomicNodes: AtomicNodeDefinition[], definitions: DefinitionDefinition[]): number | null => {
+    if (node.isDefinitionInstance) {
+        return definitions.find(def => def.id === node.definitionId)?.externalPorts.length ?? null;
+    }
+    const definition = atomicNodes.find(def => def.id === node.definitionId);
+    return definition ? definition.principalPorts + definition.nonPrincipalPorts : null;
+};
+
+/**
+ * Lists every node port and boundary port that has no wire attached.
+ * Definition instances only contribute node ports when `definitions` is given.
+ * @returns One description per dangling port; empty when everything is connected.
+ */
+export const findDanglingPorts = (
+    nodes: CanvasNodeInstance[],
+    wires: WireConnection[],
+    boundaryPorts: BoundaryPort[],
+    atomicNodes: AtomicNodeDefinition[],
+    definitions: DefinitionDefinition[] = []
+): string[] => {
+    const allPorts = new Map<NodeOrBoundaryId, Set<PortIndexOrId>>();
+    const connectedPorts = new Set<string>(); // Stores "nodeId:portIndexOrId"
+
+    nodes.forEach(node => {
+        const totalPorts = countNodePorts(node, atomicNodes, definitions);
+        if (totalPorts !== null) {
+            const ports = new Set<PortIndexOrId>();
+            for (let i = 0; i < totalPorts; i++) {
+                ports.add(i);
+            }
+            allPorts.set(node.instanceId, ports);
+        }
+    });
+    allPorts.set('BOUNDARY', new Set<PortIndexOrId>(boundaryPorts.map(p => p.id)));
+
+    wires.forEach(wire => {
+        connectedPorts.add(`${wire.sourceNodeId}:${wire.sourcePortIndex}`);
+        connectedPorts.add(`${wire.targetNodeId}:${wire.targetPortIndex}`);
+    });
+
+    const dangling: string[] = [];
+    allPorts.forEach((ports, nodeId) => {
+        ports.forEach(portIndexOrId => {
+            if (!connectedPorts.has(`${nodeId}:${portIndexOrId}`)) {
+                dangling.push(`Node/Boundary: ${nodeId}, Port: ${portIndexOrId}`);
+            }
+        });
+    });
+    return dangling;
+};
+
+/**
+ * Turns boundary ports into external ports, inferring each port's principal status
+ * from the internal node port it is wired to.
+ * @returns The external ports sorted by angle.
+ */
+export const inferExternalPorts = (
+    ports: BoundaryPort[],
+    wires: WireConnection[],
+    nodes: CanvasNodeInstance[],
+    atomicNodes: AtomicNodeDefinition[],
+    definitions: DefinitionDefinition[] = []
+): ExternalPort[] => {
+    const externalPorts: ExternalPort[] = ports.map(boundaryPort => {
+        let isPrincipal = false;
+        const connectedWire = findBoundaryWire(wires, boundaryPort.id);
+
+        if (connectedWire) {
+            const internalNodeId = connectedWire.sourceNodeId === 'BOUNDARY' ? connectedWire.targetNodeId : connectedWire.sourceNodeId;
+            const internalPortIndex = connectedWire.sourceNodeId === 'BOUNDARY' ? connectedWire.targetPortIndex : connectedWire.sourcePortIndex;
+
+            // Boundary-to-boundary wires carry no principal information
+            if (internalNodeId !== 'BOUNDARY') {
+                const internalNodeInstance = findNode(nodes, internalNodeId);
+                if (internalNodeInstance) {
+                    isPrincipal = isPrincipalPort(internalNodeInstance, internalPortIndex, atomicNodes, definitions);
+                }
+            }
+        }
+
+        return {
+            id: boundaryPort.id,
+            angle: boundaryPort.angle,
+            isPrincipal,
+        };
+    });
+    externalPorts.sort((a, b) => a.angle - b.angle);
+    return externalPorts;
+};
+
+/**
+ * Recreates boundary ports for a stored interface, placed on a circle of the given radius.
+ * @returns One boundary port per external port, with the same IDs and angles.
+ */
+export const restoreBoundaryPorts = (externalPorts: ExternalPort[], radius: number): BoundaryPort[] => {
+    return externalPorts.map(port => ({
+        id: port.id,
+        x: Math.cos(port.angle) * radius,
+        y: Math.sin(port.angle) * radius,
+        angle: port.angle,
+    }));
+};
@@ -0,0 +1,142 @@
+import { AtomicNodeDefinition, AxiomDefinition, CanvasNodeInstance, WireConnection } from '../types';
+import { RewriteChoice, listRewriteChoices } from './axiomApplication';
+import { NetGraph, areNetsIsomorphic } from './netEquality';
+import { NetInvariantError } from '../net/netModel';
+import { applyChoiceToNet, normalizeNet } from './netReduction';
+import { AnalysisIssue, PrincipalEnd, describeEnd, findCoveringAxioms, listPrincipalEnds } from './ruleCoverage';
+
+// Interactions allowed when reducing each side of a critical pair
+export const CRITICAL_PAIR_STEP_LIMIT = 200;
+
+const createNode = (instanceId: string, typeId: string): CanvasNodeInstance => ({
+    instanceId,
+    definitionId: typeId,
+    x: 0,
+    y: 0,
+    metadataValues: {},
+    metadataVisibility: {},
+});
+
+const createWire = (id: string, sourceNodeId: string, sourcePort: number | string, targetNodeId: string, targetPort: number | string): WireConnection => ({
+    id,
+    sourceNodeId,
+    sourcePortIndex: sourcePort,
+    targetNodeId,
+    targetPortIndex: targetPort,
+    targetLength: null,
+});
+
+/**
+ * Builds the overlap net: a centre node whose principal ports p and q meet two partners,
+ * with every remaining port wired to its own boundary port.
+ */
+const buildOverlapNet = (
+    centre: PrincipalEnd,
+    otherPort: number,
+    partnerA: PrincipalEnd,
+    partnerB: PrincipalEnd,
+    atomicNodes: AtomicNodeDefinition[]
+): { net: NetGraph; wireA: WireConnection; wireB: WireConnection } => {
+    const nodes = [createNode('cp_centre', centre.typeId), createNode('cp_a', partnerA.typeId), createNode('cp_b', partnerB.typeId)];
+    const wireA = createWire('cp_wire_a', 'cp_centre', centre.port, 'cp_a', partnerA.port);
+    const wireB = createWire('cp_wire_b', 'cp_centre', otherPort, 'cp_b', partnerB.port);
+    const wires = [wireA, wireB];
+    const usedPorts = new Set([`cp_centre:${centre.port}`, `cp_centre:${otherPort}`, `cp_a:${partnerA.port}`, `cp_b:${partnerB.port}`]);
+
+    nodes.forEach(node => {
+        const def = atomicNodes.find(d => d.id === node.definitionId)!;
+        for (let port = 0; port < def.principalPorts + def.nonPrincipalPorts; port++) {
+            if (usedPorts.has(`${node.instanceId}:${port}`)) continue;
+            const boundaryPortId = `cp_free_${node.instanceId}_${port}`;
+            wires.push(createWire(`cp_wire_${boundaryPortId}`, node.instanceId, port, 'BOUNDARY', boundaryPortId));
+        }
+    });
+    return { net: { nodes, wires }, wireA, wireB };
+};
+
+// Partner ends that some axiom lets meet the given end
+const findPartners = (end: PrincipalEnd, ends: PrincipalEnd[], axioms: AxiomDefinition[]) =>
+    ends.filter(other => findCoveringAxioms(end, other, axioms).length > 0);
+
+const compareOverlap = (
+    overlap: ReturnType<typeof buildOverlapNet>,
+    name: string,
+    axioms: AxiomDefinition[],
+    atomicNodes: AtomicNodeDefinition[]
+): AnalysisIssue | null => {
+    const { net, wireA, wireB } = overlap;
+    const choicesA = listRewriteChoices(wireA, net.nodes, axioms, atomicNodes);
+    const choicesB = listRewriteChoices(wireB, net.nodes, axioms, atomicNodes);
+    const normalizeAfter = (choice: RewriteChoice) => normalizeNet(applyChoiceToNet(net, choice), axioms, atomicNodes, CRITICAL_PAIR_STEP_LIMIT);
+    // Each side is normalized once, not once per choice on the other side
+    const resultsB = choicesB.map(normalizeAfter);
+    for (const choiceA of choicesA) {
+        const resultA = normalizeAfter(choiceA);
+        for (const [indexB, choiceB] of choicesB.entries()) {
+            const resultB = resultsB[indexB];
+            const sides = `"${choiceA.label}" first vs "${choiceB.label}" first`;
+            if (!resultA.isNormal || !resultB.isNormal) {
+                return {
+                    kind: 'critical-pair-undetermined',
+                    severity: 'warning',
+                    message: `${name}: ${sides} did not normalize within ${CRITICAL_PAIR_STEP_LIMIT} steps.`,
+                };
+            }
+            if (!areNetsIsomorphic(resultA.net, resultB.net)) {
+                return {
+                    kind: 'critical-pair',
+                    severity: 'error',
+                    message: `${name}: ${sides} reach different normal forms (${resultA.net.nodes.length} vs ${resultB.net.nodes.length} nodes).`,
+                };
+            }
+        }
+    }
+    return null;
+};
+
+// A rule whose rewrite breaks the net leaves the overlap undecided
+const checkOverlap = (
+    overlap: ReturnType<typeof buildOverlapNet>,
+    name: string,
+    axioms: AxiomDefinition[],
+    atomicNodes: AtomicNodeDefinition[]
+): AnalysisIssue | null => {
+    try {
+        return compareOverlap(overlap, name, axioms, atomicNodes);
+    } catch (error) {
+        if (!(error instanceof NetInvariantError)) throw error;
+        return {
+            kind: 'critical-pair-undetermined',
+            severity: 'warning',
+            message: `${name}: a rewrite breaks the net (${error.message})`,
+        };
+    }
+};
+
+/**
+ * Enumerates the critical pairs of nodes with several principal ports: a node meeting
+ * partners on two principal ports at once can be rewritten either way first. Both sides
+ * are normalized and compared up to renaming of nodes. Guards are evaluated with empty
+ * metadata, since the overlap is checked for the rules alone.
+ * @returns One issue per non-joinable (or undecided) overlap.
+ */
+export const analyzeCriticalPairs = (atomicNodes: AtomicNodeDefinition[], axioms: AxiomDefinition[]): AnalysisIssue[] => {
+    const ends = listPrincipalEnds(atomicNodes);
+    const issues: AnalysisIssue[] = [];
+
+    atomicNodes.filter(def => def.principalPorts > 1).forEach(def => {
+        for (let p = 0; p < def.principalPorts; p++) {
+            for (let q = p + 1; q < def.principalPorts; q++) {
+                const centre = { typeId: def.id, port: p };
+                const partnersA = findPartners(centre, ends, axioms);
+                const partnersB = findPartners({ typeId: def.id, port: q }, ends, axioms);
+                partnersA.forEach(partnerA => partnersB.forEach(partnerB => {
+                    const name = `${describeEnd(partnerA, atomicNodes)} ⋈ ${def.name}[${p}], ${def.name}[${q}] ⋈ ${describeEnd(partnerB, atomicNodes)}`;
+                    const issue = checkOverlap(buildOverlapNet(centre, q, partnerA, partnerB, atomicNodes), name, axioms, atomicNodes);
+                    if (issue) issues.push(issue);
+                }));
+            }
+        }
+    });
+    return issues;
+};
@@ -0,0 +1,135 @@
+import * as THREE from 'three';
+import { AtomicNodeDefinition, CanvasNodeInstance, DefinitionDefinition, NodePhysicsData, WireConnection } from '../types';
+import { PortRef } from '../net/netElements';
+import { findNode } from '../net/netIndex';
+import { Net, SubnetSubstitution, createNet, substitute } from '../net/netModel';
+import { substituteSubnet } from './netSubstitution';
+
+/**
+ * Follows definition instances inside a set of nodes down through the library.
+ * @returns The chain of definition names that leads back to an earlier definition, or null when the nesting is finite.
+ */
+export const findNestingCycle = (
+    nodes: CanvasNodeInstance[],
+    definitions: DefinitionDefinition[],
+    ancestorIds: string[] = []
+): string[] | null => {
+    for (const node of nodes) {
+        if (!node.isDefinitionInstance) continue;
+        const definition = definitions.find(d => d.id === node.definitionId);
+        if (!definition) continue;
+        const chain = [...ancestorIds, definition.id];
+        if (ancestorIds.includes(definition.id)) {
+            return chain.slice(ancestorIds.indexOf(definition.id)).map(id => definitions.find(d => d.id === id)?.name ?? id);
+        }
+        const cycle = findNestingCycle(definition.internalNodes, definitions, chain);
+        if (cycle) return cycle;
+    }
+    return null;
+};
+
+/**
+ * Builds the expansion of a definition instance into the definition's internal net.
+ * Each external port stands for the matching port of the instance, so outside wires
+ * are reconnected to the internal ports they lead to. Internal nodes are placed around
+ * the instance's live position and rotation. Nested definition instances are kept as
+ * they are, so this expands one level.
+ * @returns The substitution, or null when the instance or its definition is missing.
+ */
+export const buildDefinitionExpansion = (
+    nodes: CanvasNodeInstance[],
+    wires: WireConnection[],
+    instanceId: string,
+    definitions: DefinitionDefinition[],
+    atomicNodes: AtomicNodeDefinition[],
+    physicsData: NodePhysicsData
+): SubnetSubstitution | null => {
+    const instance = findNode(nodes, instanceId);
+    if (!instance || !instance.isDefinitionInstance) return null;
+    const definition = definitions.find(d => d.id === instance.definitionId);
+    if (!definition) return null;
+
+    const internalNodes = definition.internalNodes.filter(node => {
+        const nodeTypes = node.isDefinitionInstance ? definitions : atomicNodes;
+        const isKnown = nodeTypes.some(def => def.id === node.definitionId);
+        if (!isKnown) console.warn(`Internal node ${node.instanceId} of ${definition.name} has an unknown type. Skipping.`);
+        return isKnown;
+    });
+    const keptIds = new Set<string>(['BOUNDARY', ...internalNodes.map(n => n.instanceId)]);
+    const internalWires = definition.internalWires.filter(w => keptIds.has(w.sourceNodeId) && keptIds.has(w.targetNodeId));
+
+    const bindings = new Map<string, PortRef>();
+    definition.externalPorts.forEach((port, index) => bindings.set(port.id, { nodeId: instanceId, port: index }));
+
+    const physics = physicsData.get(instanceId);
+    const parentPos = physics?.position ?? new THREE.Vector3(instance.x, instance.y, 0);
+    const parentRot = physics?.rotation ?? new THREE.Quaternion();
+    const placeNode = (node: CanvasNodeInstance) => {
+        const worldPos = new THREE.Vector3(node.x, node.y, 0).applyQuaternion(parentRot).add(parentPos);
+        return { x: worldPos.x, y: worldPos.y };
+    };
+
+    return substituteSubnet(wires, [instanceId], bindings, { nodes: internalNodes, wires: internalWires }, placeNode);
+};
+
+/**
+ * Expands a definition instance and then every definition instance the expansion brings
+ * in, until only atomic nodes remain.
+ * @returns One substitution for the whole expansion, or null when the instance cannot be
+ * expanded or the definitions nest cyclically.
+ * @throws NetInvariantError when a nested expansion does not fit the net it is spliced into.
+ */
+export const buildFullDefinitionExpansion = (
+    nodes: CanvasNodeInstance[],
+    wires: WireConnection[],
+    instanceId: string,
+    definitions: DefinitionDefinition[],
+    atomicNodes: AtomicNodeDefinition[],
+    physicsData: NodePhysicsData
+): SubnetSubstitution | null => {
+    const instance = findNode(nodes, instanceId);
+    if (!instance || findNestingCycle([instance], definitions)) return null;
+
+    let current = createNet(nodes, wires);
+    const pending = [instanceId];
+    while (pending.length > 0) {
+        const id = pending.shift()!;
+        const expansion = buildDefinitionExpansion(current.nodes, current.wires, id, definitions, atomicNodes, physicsData);
+        if (!expansion) {
+            if (id === instanceId) return null;
+            continue; // A nested instance of a missing definition stays as it is
+        }
+        current = substitute(current, expansion);
+        pending.push(...expansion.newNodes.filter(n => n.isDefinitionInstance).map(n => n.instanceId));
+    }
+
+    const originalNodeIds = new Set(nodes.map(n => n.instanceId));
+    const originalWireIds = new Set(wires.map(w => w.id));
+    const finalNodeIds = new Set(current.nodes.map(n => n.instanceId));
+    const finalWireIds = new Set(current.wires.map(w => w.id));
+    return {
+        removedNodeIds: nodes.filter(n => !finalNodeIds.has(n.instanceId)).map(n => n.instanceId),
+        removedWireIds: wires.filter(w => !finalWireIds.has(w.id)).map(w => w.id),
+        newNodes: current.nodes.filter(n => !originalNodeIds.has(n.instanceId)),
+        newWires: current.wires.filter(w => !originalWireIds.has(w.id)),
+    };
+};
+
+/**
+ * Expands a definition instance one level, or down to atomic nodes when `fully` is set.
+ * @returns The expanded net, or null when the instance cannot be expanded.
+ * @throws NetInvariantError when the expansion does not fit the wires around the instance.
+ */
+export const expandInstance = (
+    net: Net,
+    instanceId: string,
+    definitions: DefinitionDefinition[],
+    atomicNodes: AtomicNodeDefinition[],
+    physicsData: NodePhysicsData,
+    fully = false
+): Net | null => {
+    const expansion = fully
+        ? buildFullDefinitionExpansion(net.nodes, net.wires, instanceId, definitions, atomicNodes, physicsData)
+        : buildDefinitionExpansion(net.nodes, net.wires, instanceId, definitions, atomicNodes, physicsData);
+    return expansion ? substitute(net, expansion) : null;
+};
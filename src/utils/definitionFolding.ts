@@ -0,0 +1,75 @@
+import * as THREE from 'three';
+import { CanvasNodeInstance, DefinitionDefinition, NodePhysicsData, RuleDiagram, WireConnection } from '../types';
+import { NetGraph, findNetIsomorphism } from './netEquality';
+import { PortRef } from '../net/netElements';
+import { SubnetSubstitution } from '../net/netModel';
+import { substituteSubnet } from './netSubstitution';
+
+// The selected nodes with the wires among them; every wire leaving the selection ends on a boundary port of its own
+const cutOutSelection = (nodes: CanvasNodeInstance[], wires: WireConnection[], selected: Set<string>): NetGraph => ({
+    nodes: nodes.filter(n => selected.has(n.instanceId)),
+    wires: wires.flatMap(wire => {
+        const sourceInside = selected.has(wire.sourceNodeId as string);
+        const targetInside = selected.has(wire.targetNodeId as string);
+        if (sourceInside && targetInside) return [wire];
+        if (!sourceInside && !targetInside) return [];
+        return [sourceInside
+            ? { ...wire, targetNodeId: 'BOUNDARY', targetPortIndex: `cut_${wire.id}` }
+            : { ...wire, sourceNodeId: 'BOUNDARY', sourcePortIndex: `cut_${wire.id}` }];
+    }),
+});
+
+/**
+ * Builds the inverse of a definition expansion: the selected nodes are replaced by one
+ * instance of the definition, wired to the same outside ports. The selection must be
+ * isomorphic to the definition's internal net, with the wires leaving the selection taking
+ * the place of the external ports in some order.
+ * @param physicsData Latest node positions, used to place the instance amid the selection.
+ * @returns The substitution, or null when the selection does not match the definition.
+ */
+export const buildDefinitionFolding = (
+    nodes: CanvasNodeInstance[],
+    wires: WireConnection[],
+    selectedNodeIds: string[],
+    definition: DefinitionDefinition,
+    physicsData: NodePhysicsData
+): SubnetSubstitution | null => {
+    const selected = new Set(selectedNodeIds);
+    const selection = cutOutSelection(nodes, wires, selected);
+    if (selection.nodes.length === 0) return null;
+    const mapping = findNetIsomorphism(
+        { nodes: definition.internalNodes, wires: definition.internalWires },
+        selection,
+        { freeBoundary: true }
+    );
+    if (!mapping) return null;
+
+    // Each external port stands for the selected node port its internal wire lands on
+    const bindings = new Map<string, PortRef>();
+    definition.internalWires.forEach(wire => {
+        if (wire.sourceNodeId === 'BOUNDARY' && wire.targetNodeId !== 'BOUNDARY') {
+            bindings.set(String(wire.sourcePortIndex), { nodeId: mapping.get(wire.targetNodeId as string)!, port: wire.targetPortIndex });
+        } else if (wire.targetNodeId === 'BOUNDARY' && wire.sourceNodeId !== 'BOUNDARY') {
+            bindings.set(String(wire.targetPortIndex), { nodeId: mapping.get(wire.sourceNodeId as string)!, port: wire.sourcePortIndex });
+        }
+    });
+
+    const instance: CanvasNodeInstance = { instanceId: 'folded', definitionId: definition.id, x: 0, y: 0, isDefinitionInstance: true };
+    const diagram: RuleDiagram = {
+        nodes: [instance],
+        wires: definition.externalPorts.map((port, index): WireConnection => ({
+            id: `fold_${port.id}`,
+            sourceNodeId: 'BOUNDARY',
+            sourcePortIndex: port.id,
+            targetNodeId: instance.instanceId,
+            targetPortIndex: index,
+            targetLength: null,
+        })),
+    };
+
+    const centre = new THREE.Vector3();
+    selection.nodes.forEach(node => centre.add(physicsData.get(node.instanceId)?.position ?? new THREE.Vector3(node.x, node.y, 0)));
+    centre.divideScalar(selection.nodes.length);
+
+    return substituteSubnet(wires, selection.nodes.map(n => n.instanceId), bindings, diagram, () => ({ x: centre.x, y: centre.y }));
+};
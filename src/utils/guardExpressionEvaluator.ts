@@ -0,0 +1,145 @@
+import { CanvasNodeInstance } from '../types';
+import { BinaryOperator, GuardExpression, GuardValue, parseGuardExpression } from './guardExpressionParser';
+
+export type MetadataValues = Record<string, string | number | boolean>;
+
+// Metadata visible to a guard, keyed by root name ("left", "right")
+export type GuardBindings = Record<string, MetadataValues>;
+
+/**
+ * Binds the metadata of an interacting pair under `left` and `right`.
+ */
+export const createRedexBindings = (leftNode: CanvasNodeInstance, rightNode: CanvasNodeInstance): GuardBindings => ({
+    left: leftNode.metadataValues ?? {},
+    right: rightNode.metadataValues ?? {},
+});
+
+// Metadata is edited as text, so "3" must behave like 3 in arithmetic and comparisons
+const toNumber = (value: GuardValue): number | null => {
+    if (typeof value === 'number') return value;
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+    return null;
+};
+
+export const isTruthy = (value: GuardValue): boolean => {
+    if (typeof value === 'string') return value !== '' && value !== 'false';
+    return !!value;
+};
+
+const areEqual = (a: GuardValue, b: GuardValue): boolean => {
+    if (a === null || b === null) return (a === null || a === '') && (b === null || b === '');
+    const numA = toNumber(a);
+    const numB = toNumber(b);
+    if (numA !== null && numB !== null) return numA === numB;
+    return String(a) === String(b);
+};
+
+const compare = (operator: '<' | '<=' | '>' | '>=', a: GuardValue, b: GuardValue): boolean => {
+    const numA = toNumber(a);
+    const numB = toNumber(b);
+    const [x, y]: [number | string, number | string] = numA !== null && numB !== null ? [numA, numB] : [String(a ?? ''), String(b ?? '')];
+    switch (operator) {
+        case '<': return x < y;
+        case '<=': return x <= y;
+        case '>': return x > y;
+        case '>=': return x >= y;
+    }
+};
+
+const arithmetic = (operator: '+' | '-' | '*' | '/' | '%', a: GuardValue, b: GuardValue): GuardValue => {
+    const numA = toNumber(a);
+    const numB = toNumber(b);
+    if (numA === null || numB === null) {
+        // '+' falls back to string concatenation; other operators need numbers
+        return operator === '+' ? `${a ?? ''}${b ?? ''}` : null;
+    }
+    switch (operator) {
+        case '+': return numA + numB;
+        case '-': return numA - numB;
+        case '*': return numA * numB;
+        case '/': return numB === 0 ? null : numA / numB;
+        case '%': return numB === 0 ? null : numA % numB;
+    }
+};
+
+const evaluateBinary = (operator: BinaryOperator, left: GuardExpression, right: GuardExpression, bindings: GuardBindings): GuardValue => {
+    // Logical operators short-circuit and always yield booleans
+    if (operator === '&&') return isTruthy(evaluateGuardExpression(left, bindings)) && isTruthy(evaluateGuardExpression(right, bindings));
+    if (operator === '||') return isTruthy(evaluateGuardExpression(left, bindings)) || isTruthy(evaluateGuardExpression(right, bindings));
+
+    const a = evaluateGuardExpression(left, bindings);
+    const b = evaluateGuardExpression(right, bindings);
+    switch (operator) {
+        case '==': return areEqual(a, b);
+        case '!=': return !areEqual(a, b);
+        case '<': case '<=': case '>': case '>=': return compare(operator, a, b);
+        default: return arithmetic(operator, a, b);
+    }
+};
+
+// Object.hasOwn needs ES2022
+const hasOwn = (object: object, key: string) => Object.prototype.hasOwnProperty.call(object, key);
+
+/**
+ * Evaluates a parsed guard expression. Missing metadata fields read as null.
+ * @param expression The parsed expression.
+ * @param bindings Metadata available to the expression.
+ * @returns The resulting value; arithmetic on non-numbers yields null.
+ */
+export const evaluateGuardExpression = (expression: GuardExpression, bindings: GuardBindings): GuardValue => {
+    switch (expression.kind) {
+        case 'literal':
+            return expression.value;
+        case 'name': {
+            const [root, field] = expression.path;
+            // Own properties only, so names like `left.constructor` cannot reach inherited functions
+            if (!hasOwn(bindings, root) || !hasOwn(bindings[root], field)) return null;
+            return bindings[root][field] ?? null;
+        }
+        case 'unary': {
+            const operand = evaluateGuardExpression(expression.operand, bindings);
+            if (expression.operator === '!') return !isTruthy(operand);
+            const num = toNumber(operand);
+            return num === null ? null : -num;
+        }
+        case 'binary':
+            return evaluateBinary(expression.operator, expression.left, expression.right, bindings);
+    }
+};
+
+/**
+ * Decides whether an axiom option's guard holds.
+ * @param source The guard text; an empty guard always holds.
+ * @param bindings Metadata of the interacting pair.
+ * @returns True when the guard evaluates to a truthy value; invalid guards never hold.
+ */
+export const evaluateGuard = (source: string, bindings: GuardBindings): boolean => {
+    if (!source.trim()) return true;
+    try {
+        return isTruthy(evaluateGuardExpression(parseGuardExpression(source), bindings));
+    } catch (error) {
+        console.error(`Guard "${source}" could not be evaluated:`, error);
+        return false;
+    }
+};
+
+/**
+ * Computes metadata fields of a rule's result node from the interacting pair.
+ * @param expressions Field name -> expression text, in the guard language.
+ * @param bindings Metadata of the interacting pair.
+ * @returns The computed values; fields that fail or yield null are left out.
+ */
+export const evaluateMetadataExpressions = (expressions: Record<string, string>, bindings: GuardBindings): MetadataValues => {
+    const values: MetadataValues = {};
+    Object.entries(expressions).forEach(([field, source]) => {
+        if (!source.trim()) return;
+        try {
+            const value = evaluateGuardExpression(parseGuardExpression(source), bindings);
+            if (value !== null) values[field] = value;
+        } catch (error) {
+            console.error(`Metadata expression "${source}" for field "${field}" could not be evaluated:`, error);
+        }
+    });
+    return values;
+};
@@ -0,0 +1,201 @@
+/**
+ * Parser for the guard expression language used by axiom options.
+ *
+ * Guards are a small, side-effect free subset of JavaScript expressions:
+ *   literals      1, 2.5, "text", 'text', true, false, null
+ *   names         left.label, right.level (metadata of the interacting pair)
+ *   arithmetic    + - * / %
+ *   comparison    == != < <= > >=   (=== and !== are accepted as aliases)
+ *   logic         && || !
+ *   grouping      ( ... )
+ * Nothing is ever handed to `eval`; imported files can only describe expressions.
+ */
+
+export type GuardExpression =
+    | { kind: 'literal'; value: GuardValue }
+    | { kind: 'name'; path: string[] }
+    | { kind: 'unary'; operator: '!' | '-'; operand: GuardExpression }
+    | { kind: 'binary'; operator: BinaryOperator; left: GuardExpression; right: GuardExpression };
+
+export type GuardValue = number | string | boolean | null;
+
+export type BinaryOperator = '||' | '&&' | '==' | '!=' | '<' | '<=' | '>' | '>=' | '+' | '-' | '*' | '/' | '%';
+
+// Root names a guard may reference
+export const GUARD_ROOT_NAMES = ['left', 'right'];
+
+export class GuardSyntaxError extends Error {
+    position: number;
+
+    constructor(message: string, position: number) {
+        super(`${message} (at character ${position + 1})`);
+        this.name = 'GuardSyntaxError';
+        this.position = position;
+    }
+}
+
+interface Token {
+    type: 'number' | 'string' | 'identifier' | 'operator' | 'end';
+    text: string;
+    position: number;
+}
+
+const OPERATORS = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '<', '>', '+', '-', '*', '/', '%', '!', '(', ')', '.'];
+
+// Tokens at each precedence level, loosest first
+const BINARY_LEVELS: BinaryOperator[][] = [
+    ['||'],
+    ['&&'],
+    ['==', '!='],
+    ['<', '<=', '>', '>='],
+    ['+', '-'],
+    ['*', '/', '%'],
+];
+
+const readString = (source: string, start: number): { text: string; end: number } => {
+    const quote = source[start];
+    let text = '';
+    let i = start + 1;
+    while (i < source.length && source[i] !== quote) {
+        if (source[i] === '\\' && i + 1 < source.length) i++;
+        text += source[i];
+        i++;
+    }
+    if (i >= source.length) throw new GuardSyntaxError('Unterminated string', start);
+    return { text, end: i + 1 };
+};
+
+const tokenize = (source: string): Token[] => {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < source.length) {
+        const ch = source[i];
+        if (/\s/.test(ch)) {
+            i++;
+        } else if (/[0-9]/.test(ch)) {
+            const match = /^[0-9]+(\.[0-9]+)?/.exec(source.slice(i))!;
+            tokens.push({ type: 'number', text: match[0], position: i });
+            i += match[0].length;
+        } else if (ch === '"' || ch === "'") {
+            const { text, end } = readString(source, i);
+            tokens.push({ type: 'string', text, position: i });
+            i = end;
+        } else if (/[A-Za-z_$]/.test(ch)) {
+            const match = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(source.slice(i))!;
+            tokens.push({ type: 'identifier', text: match[0], position: i });
+            i += match[0].length;
+        } else {
+            const operator = OPERATORS.find(op => source.startsWith(op, i));
+            if (!operator) {
+                const hint = ch === '=' ? " (use '==' to compare)" : '';
+                throw new GuardSyntaxError(`Unexpected character '${ch}'${hint}`, i);
+            }
+            tokens.push({ type: 'operator', text: operator, position: i });
+            i += operator.length;
+        }
+    }
+    tokens.push({ type: 'end', text: '', position: source.length });
+    return tokens;
+};
+
+const normalizeOperator = (text: string): string => (text === '===' ? '==' : text === '!==' ? '!=' : text);
+
+// Recursive-descent parser over the token list
+const createParser = (tokens: Token[]) => {
+    let index = 0;
+    const peek = () => tokens[index];
+    const next = () => tokens[index++];
+
+    const expectOperator = (text: string) => {
+        const token = next();
+        if (token.type !== 'operator' || token.text !== text) {
+            throw new GuardSyntaxError(`Expected '${text}' but found '${token.text || 'end of expression'}'`, token.position);
+        }
+    };
+
+    const parseName = (first: Token): GuardExpression => {
+        if (!GUARD_ROOT_NAMES.includes(first.text)) {
+            throw new GuardSyntaxError(`Unknown name '${first.text}' (expected ${GUARD_ROOT_NAMES.join(' or ')})`, first.position);
+        }
+        const path = [first.text];
+        while (peek().type === 'operator' && peek().text === '.') {
+            next();
+            const field = next();
+            if (field.type !== 'identifier') throw new GuardSyntaxError("Expected a field name after '.'", field.position);
+            path.push(field.text);
+        }
+        if (path.length !== 2) throw new GuardSyntaxError(`Use '${first.text}.<field>' to read metadata`, first.position);
+        return { kind: 'name', path };
+    };
+
+    const parsePrimary = (): GuardExpression => {
+        const token = next();
+        if (token.type === 'number') return { kind: 'literal', value: Number(token.text) };
+        if (token.type === 'string') return { kind: 'literal', value: token.text };
+        if (token.type === 'identifier') {
+            if (token.text === 'true') return { kind: 'literal', value: true };
+            if (token.text === 'false') return { kind: 'literal', value: false };
+            if (token.text === 'null') return { kind: 'literal', value: null };
+            return parseName(token);
+        }
+        if (token.type === 'operator' && token.text === '(') {
+            const inner = parseBinary(0);
+            expectOperator(')');
+            return inner;
+        }
+        throw new GuardSyntaxError(`Unexpected '${token.text || 'end of expression'}'`, token.position);
+    };
+
+    const parseUnary = (): GuardExpression => {
+        const token = peek();
+        if (token.type === 'operator' && (token.text === '!' || token.text === '-')) {
+            next();
+            return { kind: 'unary', operator: token.text as '!' | '-', operand: parseUnary() };
+        }
+        return parsePrimary();
+    };
+
+    const parseBinary = (level: number): GuardExpression => {
+        if (level >= BINARY_LEVELS.length) return parseUnary();
+        let left = parseBinary(level + 1);
+        while (peek().type === 'operator' && (BINARY_LEVELS[level] as string[]).includes(normalizeOperator(peek().text))) {
+            const operator = normalizeOperator(next().text) as BinaryOperator;
+            const right = parseBinary(level + 1);
+            left = { kind: 'binary', operator, left, right };
+        }
+        return left;
+    };
+
+    const parseAll = (): GuardExpression => {
+        const expression = parseBinary(0);
+        const trailing = peek();
+        if (trailing.type !== 'end') throw new GuardSyntaxError(`Unexpected '${trailing.text}'`, trailing.position);
+        return expression;
+    };
+
+    return { parseAll };
+};
+
+/**
+ * Parses a guard expression.
+ * @param source The guard text.
+ * @returns The expression tree.
+ * @throws GuardSyntaxError when the text is not a valid guard.
+ */
+export const parseGuardExpression = (source: string): GuardExpression => {
+    return createParser(tokenize(source)).parseAll();
+};
+
+/**
+ * Checks a guard at authoring time.
+ * @returns The syntax error message, or null when the guard is empty or valid.
+ */
+export const validateGuardExpression = (source: string): string | null => {
+    if (!source.trim()) return null;
+    try {
+        parseGuardExpression(source);
+        return null;
+    } catch (error) {
+        return error instanceof GuardSyntaxError ? error.message : String(error);
+    }
+};
@@ -0,0 +1,104 @@
+import { GuardExpression, GuardValue, parseGuardExpression } from './guardExpressionParser';
+import { GuardBindings, evaluateGuard } from './guardExpressionEvaluator';
+
+// Upper bound on candidate assignments tried before giving up
+const MAX_ASSIGNMENTS = 4096;
+
+// A guard as seen from one redex orientation; mirrored guards read `left` as the right node
+export interface OrientedGuard {
+    source: string;
+    mirrored?: boolean;
+}
+
+const MIRRORED_ROOT: Record<string, string> = { left: 'right', right: 'left' };
+
+const collectExpressionParts = (expression: GuardExpression, mirrored: boolean, names: Set<string>, literals: Set<GuardValue>) => {
+    switch (expression.kind) {
+        case 'literal':
+            literals.add(expression.value);
+            return;
+        case 'name': {
+            const [root, field] = expression.path;
+            names.add(`${mirrored ? MIRRORED_ROOT[root] : root}.${field}`);
+            return;
+        }
+        case 'unary':
+            collectExpressionParts(expression.operand, mirrored, names, literals);
+            return;
+        case 'binary':
+            collectExpressionParts(expression.left, mirrored, names, literals);
+            collectExpressionParts(expression.right, mirrored, names, literals);
+            return;
+    }
+};
+
+// Values worth trying for a field: each literal, its numeric neighbours, then generic ones
+const buildCandidateValues = (literals: Set<GuardValue>): (string | number | boolean | null)[] => {
+    const values = new Set<string | number | boolean | null>();
+    literals.forEach(literal => {
+        values.add(literal);
+        if (typeof literal === 'number') {
+            values.add(literal - 1);
+            values.add(literal + 1);
+        }
+    });
+    [null, '', 0, true, false].forEach(value => values.add(value));
+    return [...values];
+};
+
+const buildBindings = (names: string[], assignment: (string | number | boolean | null)[]): GuardBindings => {
+    const bindings: GuardBindings = { left: {}, right: {} };
+    names.forEach((name, i) => {
+        const [root, field] = name.split('.');
+        const value = assignment[i];
+        if (value !== null) bindings[root][field] = value;
+    });
+    return bindings;
+};
+
+/**
+ * Exchanges the roles of the two interacting nodes in a guard's bindings.
+ */
+export const swapRedexBindings = (bindings: GuardBindings): GuardBindings => ({
+    ...bindings,
+    left: bindings.right ?? {},
+    right: bindings.left ?? {},
+});
+
+/**
+ * Looks for metadata under which every guard holds at once. The search tries the
+ * literals the guards mention and their neighbours, so a null result means no
+ * witness was found, not that the guards are provably exclusive.
+ * @param guards Guards over `left` and `right`; empty guards always hold.
+ * @returns Witness metadata, or null when none was found. Invalid guards never hold.
+ */
+export const findCommonWitness = (guards: OrientedGuard[]): GuardBindings | null => {
+    const names = new Set<string>();
+    const literals = new Set<GuardValue>();
+    for (const guard of guards) {
+        if (!guard.source.trim()) continue;
+        try {
+            collectExpressionParts(parseGuardExpression(guard.source), !!guard.mirrored, names, literals);
+        } catch {
+            return null;
+        }
+    }
+    const nameList = [...names].sort();
+    const candidates = buildCandidateValues(literals);
+    const total = Math.min(MAX_ASSIGNMENTS, Math.pow(candidates.length, nameList.length));
+
+    for (let index = 0; index < total; index++) {
+        // Decode the index as a number in base candidates.length
+        let rest = index;
+        const assignment = nameList.map(() => {
+            const value = candidates[rest % candidates.length];
+            rest = Math.floor(rest / candidates.length);
+            return value;
+        });
+        const bindings = buildBindings(nameList, assignment);
+        const holds = (guard: OrientedGuard) =>
+            evaluateGuard(guard.source, guard.mirrored ? swapRedexBindings(bindings) : bindings);
+        if (guards.every(holds)) return bindings;
+    }
+    return null;
+};
@@ -0,0 +1,201 @@
+import { AtomicNodeDefinition, AxiomDefinition, CanvasNodeInstance, DefinitionDefinition, ExternalPort, PortIndexOrId, TheoremDefinition, WireConnection } from '../types';
+
+export type LibraryItemKind = 'atomic' | 'definition' | 'axiom' | 'theorem';
+
+export interface LibraryItemRef {
+    kind: LibraryItemKind;
+    id: string;
+}
+
+export interface Library {
+    atomicNodes: AtomicNodeDefinition[];
+    definitions: DefinitionDefinition[];
+    axioms: AxiomDefinition[];
+    theorems: TheoremDefinition[];
+}
+
+const refKey = (ref: LibraryItemRef) => `${ref.kind}:${ref.id}`;
+
+const nodeTypeRefs = (nodes: CanvasNodeInstance[]): LibraryItemRef[] =>
+    nodes.map(node => ({ kind: node.isDefinitionInstance ? 'definition' : 'atomic', id: node.definitionId }));
+
+const definitionRefs = (definition: DefinitionDefinition): LibraryItemRef[] => nodeTypeRefs(definition.internalNodes);
+
+const axiomRefs = (axiom: AxiomDefinition): LibraryItemRef[] => nodeTypeRefs([
+    axiom.source.leftNode,
+    axiom.source.rightNode,
+    ...axiom.options.flatMap(option => option.diagram.nodes),
+]);
+
+// Node types in the statement, plus the rules its recorded proof applies
+const theoremRefs = (theorem: TheoremDefinition): LibraryItemRef[] => [
+    ...nodeTypeRefs([theorem.source.leftNode, theorem.source.rightNode, ...theorem.target.nodes]),
+    ...(theorem.proof ?? []).flatMap((step): LibraryItemRef[] => {
+        if (step.kind === 'axiom') return [{ kind: 'axiom', id: step.axiomId }];
+        if (step.kind === 'theorem') return [{ kind: 'theorem', id: step.theoremId }];
+        return [];
+    }),
+];
+
+// Every item that can depend on something, with what it references directly
+const listReferencingItems = (library: Library): { ref: LibraryItemRef; references: LibraryItemRef[] }[] => [
+    ...library.definitions.map(d => ({ ref: { kind: 'definition' as const, id: d.id }, references: definitionRefs(d) })),
+    ...library.axioms.map(a => ({ ref: { kind: 'axiom' as const, id: a.id }, references: axiomRefs(a) })),
+    ...library.theorems.map(t => ({ ref: { kind: 'theorem' as const, id: t.id }, references: theoremRefs(t) })),
+];
+
+/**
+ * Finds every library item that depends on an item, directly or through other items.
+ * @returns The dependents in library order (definitions, axioms, theorems), without the item itself.
+ */
+export const findDependents = (target: LibraryItemRef, library: Library): LibraryItemRef[] => {
+    const affected = new Set([refKey(target)]);
+    const items = listReferencingItems(library);
+    const dependents = new Set<string>();
+    let changed = true;
+    while (changed) {
+        changed = false;
+        items.forEach(({ ref, references }) => {
+            const key = refKey(ref);
+            if (affected.has(key) || !references.some(r => affected.has(refKey(r)))) return;
+            affected.add(key);
+            dependents.add(key);
+            changed = true;
+        });
+    }
+    return items.map(item => item.ref).filter(ref => dependents.has(refKey(ref)));
+};
+
+/**
+ * Looks up the display name of a library item.
+ */
+export const getLibraryItemName = (ref: LibraryItemRef, library: Library): string => {
+    const items: { id: string; name: string }[] = {
+        atomic: library.atomicNodes,
+        definition: library.definitions,
+        axiom: library.axioms,
+        theorem: library.theorems,
+    }[ref.kind];
+    return items.find(item => item.id === ref.id)?.name ?? ref.id;
+};
+
+/**
+ * Removes items from the library.
+ */
+export const removeLibraryItems = (library: Library, refs: LibraryItemRef[]): Library => {
+    const removed = new Set(refs.map(refKey));
+    const keep = (kind: LibraryItemKind) => (item: { id: string }) => !removed.has(refKey({ kind, id: item.id }));
+    return {
+        atomicNodes: library.atomicNodes.filter(keep('atomic')),
+        definitions: library.definitions.filter(keep('definition')),
+        axioms: library.axioms.filter(keep('axiom')),
+        theorems: library.theorems.filter(keep('theorem')),
+    };
+};
+
+/**
+ * Flags items as stale. Stale theorems also lose their proved status, since the
+ * statement or the rules their proof used have changed.
+ */
+export const markLibraryItemsStale = (library: Library, refs: LibraryItemRef[], reason: string): Library => {
+    const stale = new Set(refs.map(refKey));
+    const isStale = (kind: LibraryItemKind, id: string) => stale.has(refKey({ kind, id }));
+    return {
+        atomicNodes: library.atomicNodes,
+        definitions: library.definitions.map(d => (isStale('definition', d.id) ? { ...d, staleReason: reason } : d)),
+        axioms: library.axioms.map(a => (isStale('axiom', a.id) ? { ...a, staleReason: reason } : a)),
+        theorems: library.theorems.map(t => (isStale('theorem', t.id) ? { ...t, staleReason: reason, isProved: false } : t)),
+    };
+};
+
+/**
+ * Removes canvas instances whose node type is no longer in the library, with their wires,
+ * and wires on definition instance ports the definition no longer has.
+ */
+export const pruneMissingInstances = (
+    nodes: CanvasNodeInstance[],
+    wires: WireConnection[],
+    library: Library
+): { nodes: CanvasNodeInstance[]; wires: WireConnection[]; removedNodeIds: string[] } => {
+    const typeIds = new Set([...library.atomicNodes, ...library.definitions].map(def => def.id));
+    const removedNodeIds = nodes.filter(node => !typeIds.has(node.definitionId)).map(node => node.instanceId);
+    const removed = new Set(removedNodeIds);
+    const portCounts = new Map(nodes
+        .filter(node => node.isDefinitionInstance && !removed.has(node.instanceId))
+        .map(node => [node.instanceId, library.definitions.find(d => d.id === node.definitionId)!.externalPorts.length]));
+    const fits = (nodeId: string, port: PortIndexOrId) => !portCounts.has(nodeId) || Number(port) < portCounts.get(nodeId)!;
+    return {
+        nodes: nodes.filter(node => !removed.has(node.instanceId)),
+        wires: wires.filter(wire =>
+            !removed.has(wire.sourceNodeId as string) && !removed.has(wire.targetNodeId as string) &&
+            fits(wire.sourceNodeId as string, wire.sourcePortIndex) && fits(wire.targetNodeId as string, wire.targetPortIndex)),
+        removedNodeIds,
+    };
+};
+
+/**
+ * Prunes the internal net of every definition the way pruneMissingInstances prunes the canvas,
+ * so nested instances still fit after a node type is deleted or a definition loses ports.
+ * Definitions with nothing to prune are returned as they were.
+ */
+export const pruneDefinitionInternals = (library: Library): Library => ({
+    ...library,
+    definitions: library.definitions.map(definition => {
+        const pruned = pruneMissingInstances(definition.internalNodes, definition.internalWires, library);
+        if (pruned.removedNodeIds.length === 0 && pruned.wires.length === definition.internalWires.length) return definition;
+        console.log(`Pruned ${pruned.removedNodeIds.length} nested instances and ${definition.internalWires.length - pruned.wires.length} wires inside "${definition.name}".`);
+        return { ...definition, internalNodes: pruned.nodes, internalWires: pruned.wires };
+    }),
+});
+
+/**
+ * Compares two versions of a definition's interface port by port. A port has changed when
+ * it was removed or added, another port now sits at its index, or its principal status differs.
+ * @returns The indices of the changed ports; empty when instances still fit.
+ */
+export const findChangedPorts = (before: ExternalPort[], after: ExternalPort[]): number[] => {
+    const changed: number[] = [];
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+        const old = before[i];
+        const next = after[i];
+        if (!old || !next || old.id !== next.id || old.isPrincipal !== next.isPrincipal) changed.push(i);
+    }
+    return changed;
+};
+
+// Instance ID -> changed ports of that instance which carry a wire
+const findMisfitPorts = (
+    nodes: CanvasNodeInstance[],
+    wires: WireConnection[],
+    definitionId: string,
+    changedPorts: number[]
+): Map<string, number[]> => {
+    const instanceIds = new Set(nodes.filter(n => n.isDefinitionInstance && n.definitionId === definitionId).map(n => n.instanceId));
+    const misfits = new Map<string, Set<number>>();
+    wires.forEach(wire => [[wire.sourceNodeId, wire.sourcePortIndex], [wire.targetNodeId, wire.targetPortIndex]].forEach(([nodeId, port]) => {
+        if (!instanceIds.has(nodeId as string) || !changedPorts.includes(Number(port))) return;
+        misfits.set(nodeId as string, (misfits.get(nodeId as string) ?? new Set<number>()).add(Number(port)));
+    }));
+    return new Map([...misfits].map(([id, ports]) => [id, [...ports].sort((a, b) => a - b)]));
+};
+
+/**
+ * Lists the canvas instances and dependent definitions with wires on changed ports of a definition.
+ * @returns One description per affected canvas instance or definition.
+ */
+export const describeMisfitWires = (
+    definitionId: string,
+    changedPorts: number[],
+    canvas: { nodes: CanvasNodeInstance[]; wires: WireConnection[] },
+    library: Library
+): string[] => {
+    const canvasMisfits = [...findMisfitPorts(canvas.nodes, canvas.wires, definitionId, changedPorts)]
+        .map(([instanceId, ports]) => `Canvas instance ${instanceId}: port(s) ${ports.join(', ')}`);
+    const definitionMisfits = library.definitions.flatMap(definition => {
+        const misfits = findMisfitPorts(definition.internalNodes, definition.internalWires, definitionId, changedPorts);
+        if (misfits.size === 0) return [];
+        const ports = [...new Set([...misfits.values()].flat())].sort((a, b) => a - b);
+        return [`Definition ${definition.name}: ${misfits.size} instance(s), port(s) ${ports.join(', ')}`];
+    });
+    return [...canvasMisfits, ...definitionMisfits];
+};
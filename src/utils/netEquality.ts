@@ -0,0 +1,312 @@
+import { BoundaryPort, CanvasNodeInstance, WireConnection } from '../types';
+import { PortRef, wireEnds } from '../net/netElements';
+
+export interface NetGraph {
+    nodes: CanvasNodeInstance[];
+    wires: WireConnection[];
+    boundaryPorts?: BoundaryPort[]; // Compared by ID when both nets list them
+}
+
+// Port key "nodeId:port" -> the opposite end of its wire
+type PortPartners = Map<string, PortRef>;
+
+const buildPortPartners = (wires: WireConnection[]): PortPartners => {
+    const partners: PortPartners = new Map();
+    wires.forEach(wire => {
+        const [source, target] = wireEnds(wire);
+        partners.set(`${source.nodeId}:${source.port}`, target);
+        partners.set(`${target.nodeId}:${target.port}`, source);
+    });
+    return partners;
+};
+
+// Ports of each node that carry a wire, sorted
+const buildNodePorts = (wires: WireConnection[]): Map<string, number[]> => {
+    const ports = new Map<string, Set<number>>();
+    wires.forEach(wire => wireEnds(wire).forEach(end => {
+        if (end.nodeId === 'BOUNDARY') return;
+        const set = ports.get(end.nodeId as string) ?? new Set<number>();
+        set.add(Number(end.port));
+        ports.set(end.nodeId as string, set);
+    }));
+    const sorted = new Map<string, number[]>();
+    ports.forEach((set, nodeId) => sorted.set(nodeId, [...set].sort((a, b) => a - b)));
+    return sorted;
+};
+
+const sameMetadata = (a: CanvasNodeInstance, b: CanvasNodeInstance): boolean => {
+    const valuesA = a.metadataValues ?? {};
+    const valuesB = b.metadataValues ?? {};
+    const keys = new Set([...Object.keys(valuesA), ...Object.keys(valuesB)]);
+    return [...keys].every(key => String(valuesA[key] ?? '') === String(valuesB[key] ?? ''));
+};
+
+// Whether a port of a node is principal, resolved against the net's own library
+export type PrincipalTest = (node: CanvasNodeInstance, portIndex: number) => boolean;
+
+export interface NetMatchOptions {
+    compareMetadata?: boolean; // Defaults to true
+    principalTests?: { a: PrincipalTest; b: PrincipalTest }; // Needed when the nets use different libraries
+    describeNode?: (node: CanvasNodeInstance) => string; // Labels used in comparison reports
+    freeBoundary?: boolean; // Boundary port IDs may correspond under any assignment
+}
+
+interface MatchContext {
+    nodesA: Map<string, CanvasNodeInstance>;
+    nodesB: Map<string, CanvasNodeInstance>;
+    partnersA: PortPartners;
+    partnersB: PortPartners;
+    portsA: Map<string, number[]>;
+    portsB: Map<string, number[]>;
+    compareMetadata: boolean;
+    principalTests?: { a: PrincipalTest; b: PrincipalTest };
+    freeBoundary: boolean;
+}
+
+const createMatchContext = (a: NetGraph, b: NetGraph, options: NetMatchOptions): MatchContext => ({
+    nodesA: new Map(a.nodes.map(n => [n.instanceId, n])),
+    nodesB: new Map(b.nodes.map(n => [n.instanceId, n])),
+    partnersA: buildPortPartners(a.wires),
+    partnersB: buildPortPartners(b.wires),
+    portsA: buildNodePorts(a.wires),
+    portsB: buildNodePorts(b.wires),
+    compareMetadata: options.compareMetadata ?? true,
+    principalTests: options.principalTests,
+    freeBoundary: options.freeBoundary ?? false,
+});
+
+const nodesCompatible = (ctx: MatchContext, idA: string, idB: string): boolean => {
+    const a = ctx.nodesA.get(idA);
+    const b = ctx.nodesB.get(idB);
+    if (!a || !b || a.definitionId !== b.definitionId) return false;
+    if (!!a.isDefinitionInstance !== !!b.isDefinitionInstance) return false;
+    if (ctx.compareMetadata && !sameMetadata(a, b)) return false;
+    const portsA = ctx.portsA.get(idA) ?? [];
+    const portsB = ctx.portsB.get(idB) ?? [];
+    if (portsA.length !== portsB.length || !portsA.every((p, i) => p === portsB[i])) return false;
+    const tests = ctx.principalTests;
+    return !tests || portsA.every(port => tests.a(a, port) === tests.b(b, port));
+};
+
+/**
+ * Extends a node mapping from one seed pair, following wires port by port.
+ * Once a pair is fixed the rest of its connected component is forced, so no search is needed.
+ * @returns The extended mapping, or null when the components differ.
+ */
+const propagateMapping = (
+    ctx: MatchContext,
+    mapping: Map<string, string>,
+    used: Set<string>,
+    seedA: string,
+    seedB: string
+): { mapping: Map<string, string>; used: Set<string> } | null => {
+    const nextMapping = new Map(mapping);
+    const nextUsed = new Set(used);
+    const queue: [string, string][] = [[seedA, seedB]];
+    nextMapping.set(seedA, seedB);
+    nextUsed.add(seedB);
+
+    while (queue.length > 0) {
+        const [idA, idB] = queue.shift()!;
+        if (!nodesCompatible(ctx, idA, idB)) return null;
+        for (const port of ctx.portsA.get(idA) ?? []) {
+            const partnerA = ctx.partnersA.get(`${idA}:${port}`)!;
+            const partnerB = ctx.partnersB.get(`${idB}:${port}`);
+            if (!partnerB) return null;
+            if (partnerA.nodeId === 'BOUNDARY' || partnerB.nodeId === 'BOUNDARY') {
+                if (partnerA.nodeId !== partnerB.nodeId) return null;
+                if (!ctx.freeBoundary && String(partnerA.port) !== String(partnerB.port)) return null;
+                continue;
+            }
+            if (String(partnerA.port) !== String(partnerB.port)) return null;
+            const otherA = partnerA.nodeId as string;
+            const otherB = partnerB.nodeId as string;
+            const mapped = nextMapping.get(otherA);
+            if (mapped !== undefined) {
+                if (mapped !== otherB) return null;
+            } else {
+                if (nextUsed.has(otherB)) return null;
+                nextMapping.set(otherA, otherB);
+                nextUsed.add(otherB);
+                queue.push([otherA, otherB]);
+            }
+        }
+    }
+    return { mapping: nextMapping, used: nextUsed };
+};
+
+// Boundary-to-boundary wires as sorted "portA|portB" keys
+const boundaryLinks = (wires: WireConnection[]): string[] => wires
+    .filter(w => w.sourceNodeId === 'BOUNDARY' && w.targetNodeId === 'BOUNDARY')
+    .map(w => [String(w.sourcePortIndex), String(w.targetPortIndex)].sort().join('|'))
+    .sort();
+
+// Boundary port IDs present in one net's port list but not the other's
+const boundaryPortDifference = (a: NetGraph, b: NetGraph): { onlyA: string[]; onlyB: string[] } => {
+    if (!a.boundaryPorts || !b.boundaryPorts) return { onlyA: [], onlyB: [] };
+    const idsA = new Set(a.boundaryPorts.map(p => p.id));
+    const idsB = new Set(b.boundaryPorts.map(p => p.id));
+    return {
+        onlyA: [...idsA].filter(id => !idsB.has(id)),
+        onlyB: [...idsB].filter(id => !idsA.has(id)),
+    };
+};
+
+/**
+ * Finds a structure-preserving mapping between two nets. Node identity, layout, wire
+ * direction and wire lengths are ignored; node types, port numbers, principal status,
+ * metadata and boundary port IDs must correspond. With `freeBoundary`, boundary ports only
+ * need to sit on corresponding node ports, and wires running straight between boundary
+ * ports only need to be equal in number.
+ * @returns Net A instance ID -> net B instance ID, or null when the nets differ.
+ */
+export const findNetIsomorphism = (a: NetGraph, b: NetGraph, options: NetMatchOptions = {}): Map<string, string> | null => {
+    if (a.nodes.length !== b.nodes.length || a.wires.length !== b.wires.length) return null;
+    const linksA = boundaryLinks(a.wires);
+    const linksB = boundaryLinks(b.wires);
+    if (options.freeBoundary ? linksA.length !== linksB.length : linksA.join(',') !== linksB.join(',')) return null;
+    const portDifference = options.freeBoundary ? { onlyA: [], onlyB: [] } : boundaryPortDifference(a, b);
+    if (portDifference.onlyA.length > 0 || portDifference.onlyB.length > 0) return null;
+
+    const ctx = createMatchContext(a, b, options);
+    let state = { mapping: new Map<string, string>(), used: new Set<string>() };
+
+    // Components touching the boundary are anchored by the boundary port IDs; free boundary
+    // ports anchor nothing, so those components are matched like closed ones below
+    const anchors: PortPartners = ctx.freeBoundary ? new Map() : ctx.partnersA;
+    for (const [key, partnerA] of anchors) {
+        if (!key.startsWith('BOUNDARY:') || partnerA.nodeId === 'BOUNDARY') continue;
+        const partnerB = ctx.partnersB.get(key);
+        if (!partnerB || partnerB.nodeId === 'BOUNDARY' || String(partnerA.port) !== String(partnerB.port)) return null;
+        const mapped = state.mapping.get(partnerA.nodeId as string);
+        if (mapped !== undefined) {
+            if (mapped !== partnerB.nodeId) return null;
+            continue;
+        }
+        const next = propagateMapping(ctx, state.mapping, state.used, partnerA.nodeId as string, partnerB.nodeId as string);
+        if (!next) return null;
+        state = next;
+    }
+
+    // Closed components: any isomorphic partner component will do
+    for (const node of a.nodes) {
+        if (state.mapping.has(node.instanceId)) continue;
+        let next: typeof state | null = null;
+        for (const candidate of b.nodes) {
+            if (state.used.has(candidate.instanceId)) continue;
+            next = propagateMapping(ctx, state.mapping, state.used, node.instanceId, candidate.instanceId);
+            if (next) break;
+        }
+        if (!next) return null;
+        state = next;
+    }
+    return state.mapping;
+};
+
+/**
+ * Checks whether two nets are the same up to renaming of node instances.
+ */
+export const areNetsIsomorphic = (a: NetGraph, b: NetGraph, options: NetMatchOptions = {}): boolean => {
+    return findNetIsomorphism(a, b, options) !== null;
+};
+
+// Connected components of a net, ignoring wires through the boundary
+const findComponents = (net: NetGraph): string[][] => {
+    const neighbours = new Map<string, string[]>(net.nodes.map(n => [n.instanceId, []]));
+    net.wires.forEach(wire => {
+        if (wire.sourceNodeId === 'BOUNDARY' || wire.targetNodeId === 'BOUNDARY') return;
+        neighbours.get(wire.sourceNodeId as string)?.push(wire.targetNodeId as string);
+        neighbours.get(wire.targetNodeId as string)?.push(wire.sourceNodeId as string);
+    });
+    const seen = new Set<string>();
+    const components: string[][] = [];
+    net.nodes.forEach(node => {
+        if (seen.has(node.instanceId)) return;
+        const component: string[] = [];
+        const stack = [node.instanceId];
+        seen.add(node.instanceId);
+        while (stack.length > 0) {
+            const id = stack.pop()!;
+            component.push(id);
+            (neighbours.get(id) ?? []).forEach(next => {
+                if (seen.has(next)) return;
+                seen.add(next);
+                stack.push(next);
+            });
+        }
+        components.push(component);
+    });
+    return components;
+};
+
+const countLabels = (nodes: CanvasNodeInstance[], describe: (node: CanvasNodeInstance) => string): Map<string, number> => {
+    const counts = new Map<string, number>();
+    nodes.forEach(node => {
+        const label = describe(node);
+        counts.set(label, (counts.get(label) ?? 0) + 1);
+    });
+    return counts;
+};
+
+export interface NetComparison {
+    isEqual: boolean;
+    differences: string[]; // Human-readable, empty when the nets are equal
+    mismatchedNodeIds: string[]; // Nodes of net A without a counterpart in net B
+    unmatchedCountB: number; // Nodes of net B left without a counterpart in net A
+}
+
+/**
+ * Compares two nets like findNetIsomorphism, but keeps going after the first difference
+ * so the result can explain it. Connected components are matched one by one; the nodes of
+ * every component of net A with no isomorphic partner in net B are reported as mismatched.
+ */
+export const compareNets = (a: NetGraph, b: NetGraph, options: NetMatchOptions = {}): NetComparison => {
+    const describe = options.describeNode ?? ((node: CanvasNodeInstance) => node.definitionId);
+    const differences: string[] = [];
+
+    if (a.nodes.length !== b.nodes.length) differences.push(`Node count differs: ${a.nodes.length} vs ${b.nodes.length}.`);
+    if (a.wires.length !== b.wires.length) differences.push(`Wire count differs: ${a.wires.length} vs ${b.wires.length}.`);
+    const countsA = countLabels(a.nodes, describe);
+    const countsB = countLabels(b.nodes, describe);
+    new Set([...countsA.keys(), ...countsB.keys()]).forEach(label => {
+        const countA = countsA.get(label) ?? 0;
+        const countB = countsB.get(label) ?? 0;
+        if (countA !== countB) differences.push(`${label}: ${countA} vs ${countB}.`);
+    });
+    const portDifference = boundaryPortDifference(a, b);
+    portDifference.onlyA.forEach(id => differences.push(`Boundary port ${id} is missing from the other net.`));
+    portDifference.onlyB.forEach(id => differences.push(`Boundary port ${id} is missing from this net.`));
+    if (boundaryLinks(a.wires).join(',') !== boundaryLinks(b.wires).join(',')) {
+        differences.push('Wires running straight between boundary ports differ.');
+    }
+
+    const ctx = createMatchContext(a, b, options);
+    const componentsB = findComponents(b);
+    const openB = new Set(componentsB.map((_, index) => index));
+    const mismatchedNodeIds: string[] = [];
+    let state = { mapping: new Map<string, string>(), used: new Set<string>() };
+
+    findComponents(a).forEach(componentA => {
+        for (const index of openB) {
+            const componentB = componentsB[index];
+            if (componentB.length !== componentA.length) continue;
+            for (const candidate of componentB) {
+                const next = propagateMapping(ctx, state.mapping, state.used, componentA[0], candidate);
+                if (!next) continue;
+                state = next;
+                openB.delete(index);
+                return;
+            }
+        }
+        mismatchedNodeIds.push(...componentA);
+    });
+
+    const unmatchedCountB = [...openB].reduce((sum, index) => sum + componentsB[index].length, 0);
+    if (mismatchedNodeIds.length > 0) {
+        differences.push(`${mismatchedNodeIds.length} node(s) in this net have no matching counterpart.`);
+    }
+    if (unmatchedCountB > 0) {
+        differences.push(`${unmatchedCountB} node(s) in the other net have no matching counterpart.`);
+    }
+    return { isEqual: differences.length === 0, differences, mismatchedNodeIds, unmatchedCountB };
+};
@@ -0,0 +1,69 @@
+import { CanvasNodeInstance } from '../types';
+import { NetGraph } from './netEquality';
+import { wireEnds } from '../net/netElements';
+
+// 32-bit FNV-1a, as 8 hex digits
+const hashString = (text: string): string => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// An empty value counts as a missing one, as in the metadata comparison of netEquality
+const initialLabel = (node: CanvasNodeInstance): string => {
+    const metadata = Object.entries(node.metadataValues ?? {})
+        .map(([key, value]) => [key, String(value ?? '')])
+        .filter(([, value]) => value !== '')
+        .map(([key, value]) => `${key}=${value}`)
+        .sort()
+        .join(',');
+    return hashString(`${node.isDefinitionInstance ? 'D' : 'A'}:${node.definitionId}:${metadata}`);
+};
+
+/**
+ * Hashes a net up to renaming of instances, layout and wire direction, by refining node
+ * labels with their neighbourhoods (Weisfeiler-Lehman). Boundary ports keep their IDs.
+ * Isomorphic nets always hash the same; different nets usually do not, so callers that
+ * need certainty confirm equal hashes with findNetIsomorphism.
+ */
+export const canonicalNetHash = (net: NetGraph): string => {
+    // Node ID -> [own port, far end ("B:<port id>" or "<node id>:<port>")]
+    const links = new Map<string, [string, string][]>(net.nodes.map(n => [n.instanceId, []]));
+    const boundaryLinks: string[] = [];
+    net.wires.forEach(wire => {
+        const [source, target] = wireEnds(wire);
+        if (source.nodeId === 'BOUNDARY' && target.nodeId === 'BOUNDARY') {
+            boundaryLinks.push([String(source.port), String(target.port)].sort().join('|'));
+            return;
+        }
+        [[source, target], [target, source]].forEach(([end, other]) => {
+            if (end.nodeId === 'BOUNDARY') return;
+            const far = other.nodeId === 'BOUNDARY' ? `B:${other.port}` : `${other.nodeId}:${other.port}`;
+            links.get(end.nodeId as string)?.push([String(end.port), far]);
+        });
+    });
+
+    let labels = new Map(net.nodes.map(n => [n.instanceId, initialLabel(n)]));
+    // Each round sees one wire further; the node count bounds the rounds needed
+    for (let round = 0; round < net.nodes.length; round++) {
+        const next = new Map<string, string>();
+        labels.forEach((label, nodeId) => {
+            const neighbourhood = (links.get(nodeId) ?? []).map(([port, far]) => {
+                if (far.startsWith('B:')) return `${port}>${far}`;
+                const separator = far.lastIndexOf(':');
+                return `${port}>${labels.get(far.slice(0, separator))}:${far.slice(separator + 1)}`;
+            }).sort();
+            next.set(nodeId, hashString(`${label}[${neighbourhood.join(',')}]`));
+        });
+        const classCount = new Set(next.values()).size;
+        const stable = classCount === new Set(labels.values()).size;
+        labels = next;
+        if (stable) break;
+    }
+
+    const nodeLabels = [...labels.values()].sort().join(',');
+    return `${net.nodes.length}/${net.wires.length}/${hashString(`${nodeLabels}#${boundaryLinks.sort().join(',')}`)}`;
+};
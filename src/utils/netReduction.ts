@@ -0,0 +1,51 @@
+import { AtomicNodeDefinition, AxiomDefinition, NodePhysicsData } from '../types';
+import { RewriteChoice, buildAxiomRewrite } from './axiomApplication';
+import { NetGraph } from './netEquality';
+import { PortRef } from '../net/netElements';
+import { createNet, substitute } from '../net/netModel';
+import { carryRedexes, findRedexes } from './redexSearch';
+import { selectRedexes } from './reductionStrategies';
+
+// Layout is irrelevant off-canvas; results are placed relative to stored positions
+const NO_PHYSICS: NodePhysicsData = new Map();
+
+/**
+ * Applies one rewrite to a net held outside the canvas.
+ * @throws NetInvariantError when the rewrite breaks an invariant of the net.
+ */
+export const applyChoiceToNet = (net: NetGraph, choice: RewriteChoice): NetGraph => {
+    const substitution = buildAxiomRewrite(net.wires, choice.match, choice.option, NO_PHYSICS);
+    const { nodes, wires } = substitute(createNet(net.nodes, net.wires), substitution);
+    carryRedexes(net, { nodes, wires }, substitution);
+    return { nodes, wires };
+};
+
+export interface NormalizationResult {
+    net: NetGraph;
+    steps: number;
+    isNormal: boolean; // False when the step limit stopped the reduction
+}
+
+/**
+ * Reduces a net leftmost-outermost, taking the first applicable option of each redex.
+ * @param root Optional root port for the outermost order.
+ * @param maxSteps Upper bound on interactions.
+ * @throws NetInvariantError when a rewrite breaks an invariant of the net.
+ */
+export const normalizeNet = (
+    net: NetGraph,
+    axioms: AxiomDefinition[],
+    atomicNodes: AtomicNodeDefinition[],
+    maxSteps: number,
+    root: PortRef | null = null
+): NormalizationResult => {
+    let current = net;
+    for (let steps = 0; steps < maxSteps; steps++) {
+        const { redexes } = findRedexes(current.nodes, current.wires, axioms, atomicNodes);
+        const [redex] = selectRedexes('outermost', redexes, current.nodes, current.wires, root, Math.random);
+        if (!redex) return { net: current, steps, isNormal: true };
+        current = applyChoiceToNet(current, redex.choices[0]);
+    }
+    const isNormal = findRedexes(current.nodes, current.wires, axioms, atomicNodes).redexes.length === 0;
+    return { net: current, steps: maxSteps, isNormal };
+};
@@ -0,0 +1,147 @@
+import { CanvasNodeInstance, RuleDiagram, WireConnection } from '../types';
+import { PortRef, newId, wireEnds } from '../net/netElements';
+import { PortIndex, findPartner, getPortIndex, listWiredPorts, portKey } from '../net/netIndex';
+import { SubnetSubstitution } from '../net/netModel';
+
+/**
+ * Finds what a port is wired to.
+ * @returns The opposite end of the port's wire, or null when the port is dangling.
+ */
+export const findConnectedPort = (wires: WireConnection[], ref: PortRef): { wire: WireConnection; other: PortRef } | null => {
+    return findPartner(getPortIndex(wires), ref);
+};
+
+// Links of the splice graph. Boundary ports ("B:") have an inner link into the
+// replacement diagram and an outer link into the surrounding net; real ports have one.
+type SpliceLinks = Map<string, string[]>;
+
+const addLink = (links: SpliceLinks, a: string, b: string) => {
+    links.set(a, [...(links.get(a) ?? []), b]);
+    links.set(b, [...(links.get(b) ?? []), a]);
+};
+
+const linkOuterSide = (
+    links: SpliceLinks,
+    index: PortIndex,
+    boundaryBindings: Map<string, PortRef>,
+    removedNodeIds: Set<string>,
+    removedWireIds: Set<string>
+) => {
+    const boundaryByRemovedPort = new Map<string, string>();
+    boundaryBindings.forEach((ref, boundaryPortId) => boundaryByRemovedPort.set(portKey(ref), boundaryPortId));
+
+    boundaryBindings.forEach((ref, boundaryPortId) => {
+        const connection = findPartner(index, ref);
+        if (!connection) return; // Port was dangling; whatever the diagram joins to it stays dangling
+        removedWireIds.add(connection.wire.id);
+        const otherKey = portKey(connection.other);
+        const loopsBack = removedNodeIds.has(connection.other.nodeId as string);
+        const otherBoundary = boundaryByRemovedPort.get(otherKey);
+        if (loopsBack && otherBoundary !== undefined) {
+            // Outer wire joins two removed ports: link the two boundary ports once
+            if (boundaryPortId < otherBoundary) addLink(links, `B:${boundaryPortId}`, `B:${otherBoundary}`);
+        } else if (!loopsBack) {
+            addLink(links, `B:${boundaryPortId}`, `O:${otherKey}`);
+        }
+    });
+};
+
+const linkInnerSide = (links: SpliceLinks, diagram: RuleDiagram, instanceIdMap: Map<string, string>) => {
+    const innerKey = (ref: PortRef) => ref.nodeId === 'BOUNDARY'
+        ? `B:${ref.port}`
+        : `N:${instanceIdMap.get(ref.nodeId as string)}:${ref.port}`;
+    diagram.wires.forEach(wire => {
+        const [source, target] = wireEnds(wire);
+        addLink(links, innerKey(source), innerKey(target));
+    });
+};
+
+const parseRealPort = (key: string): PortRef => {
+    const body = key.slice(2);
+    const separator = body.lastIndexOf(':');
+    const port = body.slice(separator + 1);
+    return { nodeId: body.slice(0, separator), port: /^\d+$/.test(port) ? Number(port) : port };
+};
+
+// Follows a chain from a real port through boundary ports to the real port at its far end
+const followChain = (links: SpliceLinks, start: string): string | null => {
+    let previous = start;
+    let current = links.get(start)?.[0];
+    while (current && current.startsWith('B:')) {
+        const next: string | undefined = (links.get(current) ?? []).find(k => k !== previous) ??
+            ((links.get(current) ?? []).length > 1 ? previous : undefined);
+        previous = current;
+        current = next;
+    }
+    return current ?? null;
+};
+
+const buildSplicedWires = (links: SpliceLinks): WireConnection[] => {
+    const newWires: WireConnection[] = [];
+    const visited = new Set<string>();
+    links.forEach((_, key) => {
+        if (key.startsWith('B:') || visited.has(key)) return;
+        visited.add(key);
+        const end = followChain(links, key);
+        if (!end || visited.has(end)) return;
+        visited.add(end);
+        const source = parseRealPort(key);
+        const target = parseRealPort(end);
+        newWires.push({
+            id: newId('wire'),
+            sourceNodeId: source.nodeId,
+            sourcePortIndex: source.port,
+            targetNodeId: target.nodeId,
+            targetPortIndex: target.port,
+            targetLength: null,
+        });
+    });
+    return newWires;
+};
+
+/**
+ * Replaces a group of nodes by a diagram wired against boundary ports.
+ * Each boundary port of the diagram stands for one port of a removed node; whatever
+ * that port was wired to outside is reconnected to whatever the diagram joins to the
+ * boundary port. Chains through several boundary ports are followed to the end.
+ * @param wires The current wires of the net.
+ * @param removedNodeIds The nodes being replaced.
+ * @param boundaryBindings Boundary port ID -> the removed node port it stands for.
+ * @param diagram The replacement diagram.
+ * @param placeNode Positions a diagram node in the net.
+ * @returns The nodes and wires to remove and add.
+ */
+export const substituteSubnet = (
+    wires: WireConnection[],
+    removedNodeIds: string[],
+    boundaryBindings: Map<string, PortRef>,
+    diagram: RuleDiagram,
+    placeNode: (node: CanvasNodeInstance) => { x: number; y: number }
+): SubnetSubstitution => {
+    const index = getPortIndex(wires);
+    const removedNodes = new Set(removedNodeIds);
+    // Wires among the removed nodes, found through their ports rather than a scan of the net
+    const removedWireIds = new Set<string>();
+    removedNodeIds.forEach(nodeId => listWiredPorts(index, nodeId).forEach(port => {
+        const connection = findPartner(index, { nodeId, port });
+        if (connection && removedNodes.has(connection.other.nodeId as string)) removedWireIds.add(connection.wire.id);
+    }));
+
+    const instanceIdMap = new Map<string, string>();
+    const newNodes = diagram.nodes.map(node => {
+        const instanceId = newId('inst');
+        instanceIdMap.set(node.instanceId, instanceId);
+        return { ...node, instanceId, ...placeNode(node) };
+    });
+
+    const links: SpliceLinks = new Map();
+    linkOuterSide(links, index, boundaryBindings, removedNodes, removedWireIds);
+    linkInnerSide(links, diagram, instanceIdMap);
+
+    return {
+        removedNodeIds,
+        removedWireIds: [...removedWireIds],
+        newNodes,
+        newWires: buildSplicedWires(links),
+    };
+};
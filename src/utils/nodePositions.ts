@@ -0,0 +1,15 @@
+import { CanvasNodeInstance, NodePhysicsData } from '../types';
+
+/**
+ * Copies nodes with their x/y replaced by the latest simulated positions,
+ * so a snapshot of the canvas keeps the layout the user sees.
+ * @param nodes The node instances to snapshot.
+ * @param physicsData Latest physics transforms keyed by instance ID.
+ * @returns New node instances; nodes without physics data keep their stored position.
+ */
+export const captureNodePositions = (nodes: CanvasNodeInstance[], physicsData: NodePhysicsData): CanvasNodeInstance[] => {
+    return nodes.map(node => {
+        const data = physicsData.get(node.instanceId);
+        return data ? { ...node, x: data.position.x, y: data.position.y } : node;
+    });
+};
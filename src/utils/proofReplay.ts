@@ -0,0 +1,171 @@
+import { AtomicNodeDefinition, AxiomDefinition, DefinitionDefinition, NodePhysicsData, ProofSide, ProofStep, ProofStepAction, RuleDiagram, TheoremDefinition } from '../types';
+import { buildAxiomRewrite, listRewriteChoices } from './axiomApplication';
+import { buildTheoremRewrite, findTheoremMatches } from './theoremApplication';
+import { buildDefinitionExpansion } from './definitionExpansion';
+import { NetInvariantError, SubnetSubstitution, createNet, substitute } from '../net/netModel';
+import { areNetsIsomorphic } from './netEquality';
+
+// The rules a proof step may use
+export interface ProofRules {
+    atomicNodes: AtomicNodeDefinition[];
+    definitions: DefinitionDefinition[];
+    axioms: AxiomDefinition[];
+    theorems: TheoremDefinition[]; // Only proved theorems are applied
+}
+
+/**
+ * The two nets a proof of a theorem starts from.
+ */
+export const createProofNets = (theorem: TheoremDefinition): Record<ProofSide, RuleDiagram> => ({
+    source: { nodes: [theorem.source.leftNode, theorem.source.rightNode], wires: theorem.source.wires },
+    target: theorem.target,
+});
+
+/**
+ * Builds the rewrite a proof step action performs on a net.
+ * @returns The substitution, or null when the action does not apply to the net.
+ */
+export const buildProofAction = (
+    net: RuleDiagram,
+    action: ProofStepAction,
+    rules: ProofRules,
+    physicsData: NodePhysicsData
+): SubnetSubstitution | null => {
+    if (action.kind === 'expand') {
+        return buildDefinitionExpansion(net.nodes, net.wires, action.instanceId, rules.definitions, rules.atomicNodes, physicsData);
+    }
+    const wire = net.wires.find(w => w.id === action.wireId);
+    if (!wire) return null;
+    if (action.kind === 'axiom') {
+        const choice = listRewriteChoices(wire, net.nodes, rules.axioms, rules.atomicNodes)
+            .find(c => c.match.axiom.id === action.axiomId && c.option.id === action.optionId);
+        return choice ? buildAxiomRewrite(net.wires, choice.match, choice.option, physicsData) : null;
+    }
+    const match = findTheoremMatches(wire, net.nodes, rules.theorems, rules.atomicNodes, rules.definitions)
+        .find(m => m.theorem.id === action.theoremId);
+    return match ? buildTheoremRewrite(net.wires, match, physicsData) : null;
+};
+
+/**
+ * Applies a substitution to one side of a proof.
+ * @throws NetInvariantError when the substitution breaks an invariant of the net.
+ */
+export const applyProofSubstitution = (net: RuleDiagram, substitution: SubnetSubstitution): RuleDiagram => {
+    const { nodes, wires } = substitute(createNet(net.nodes, net.wires), substitution);
+    return { nodes, wires };
+};
+
+/**
+ * Records an applied action as a proof step, keeping the IDs its substitution created.
+ */
+export const recordProofStep = (action: ProofStepAction, side: ProofSide, substitution: SubnetSubstitution): ProofStep => ({
+    ...action,
+    side,
+    newNodeIds: substitution.newNodes.map(node => node.instanceId),
+    newWireIds: substitution.newWires.map(wire => wire.id),
+});
+
+/**
+ * Gives a replayed substitution the node and wire IDs recorded with the step.
+ * @returns The renamed substitution, or null when the step now creates a different number of nodes or wires.
+ */
+const reuseRecordedIds = (substitution: SubnetSubstitution, step: ProofStep): SubnetSubstitution | null => {
+    if (substitution.newNodes.length !== step.newNodeIds.length || substitution.newWires.length !== step.newWireIds.length) return null;
+    const nodeIds = new Map(substitution.newNodes.map((node, index) => [node.instanceId, step.newNodeIds[index]]));
+    const rename = (id: string) => nodeIds.get(id) ?? id;
+    return {
+        ...substitution,
+        newNodes: substitution.newNodes.map((node, index) => ({ ...node, instanceId: step.newNodeIds[index] })),
+        newWires: substitution.newWires.map((wire, index) => ({
+            ...wire,
+            id: step.newWireIds[index],
+            sourceNodeId: rename(wire.sourceNodeId as string),
+            targetNodeId: rename(wire.targetNodeId as string),
+        })),
+    };
+};
+
+const describeAction = (action: ProofStepAction, rules: ProofRules): string => {
+    switch (action.kind) {
+        case 'axiom': return `axiom ${rules.axioms.find(a => a.id === action.axiomId)?.name ?? action.axiomId}`;
+        case 'theorem': return `theorem ${rules.theorems.find(t => t.id === action.theoremId)?.name ?? action.theoremId}`;
+        case 'expand': return `expansion of ${action.instanceId}`;
+    }
+};
+
+/**
+ * Applies recorded steps to a pair of proof nets, reusing the recorded node and wire IDs.
+ * @returns The nets after the last step, or why a step could not be replayed.
+ */
+export const replayProofSteps = (
+    start: Record<ProofSide, RuleDiagram>,
+    steps: ProofStep[],
+    rules: ProofRules
+): { nets: Record<ProofSide, RuleDiagram> } | { failure: string } => {
+    const nets = { ...start };
+    for (const [index, step] of steps.entries()) {
+        const net = nets[step.side];
+        const substitution = buildProofAction(net, step, rules, new Map());
+        if (!substitution) return { failure: `Step ${index + 1} (${describeAction(step, rules)}) no longer applies.` };
+        const replayed = reuseRecordedIds(substitution, step);
+        if (!replayed) return { failure: `Step ${index + 1} (${describeAction(step, rules)}) now has a different result.` };
+        try {
+            nets[step.side] = applyProofSubstitution(net, replayed);
+        } catch (error) {
+            if (!(error instanceof NetInvariantError)) throw error;
+            return { failure: `Step ${index + 1} (${describeAction(step, rules)}) breaks the net: ${error.message}` };
+        }
+    }
+    return { nets };
+};
+
+/**
+ * Replays the recorded proof of a theorem from its source and target.
+ * @returns Why the proof fails, or null when every step applies and both sides end up the same net.
+ */
+export const replayProof = (theorem: TheoremDefinition, rules: ProofRules): string | null => {
+    if (!theorem.proof) return 'No proof is recorded.';
+    const replay = replayProofSteps(createProofNets(theorem), theorem.proof, rules);
+    if ('failure' in replay) return replay.failure;
+    const { nets } = replay;
+    if (!areNetsIsomorphic(nets.source, nets.target, { compareMetadata: true })) {
+        return 'After the recorded steps the two sides no longer match.';
+    }
+    return null;
+};
+
+/**
+ * Re-checks every theorem that claims to be proved. A proof may only use theorems whose
+ * own proofs check, so verified theorems are collected until no further proof goes through;
+ * circular proofs never verify.
+ * @returns The theorems, with failed ones marked unproved and given a proofFailure.
+ */
+export const verifyTheoremProofs = (
+    theorems: TheoremDefinition[],
+    rules: Omit<ProofRules, 'theorems'>
+): TheoremDefinition[] => {
+    const claimed = theorems.filter(theorem => theorem.isProved);
+    const verified = new Map<string, TheoremDefinition>();
+    const failures = new Map<string, string>();
+
+    let progressed = true;
+    while (progressed) {
+        progressed = false;
+        for (const theorem of claimed) {
+            if (verified.has(theorem.id)) continue;
+            const failure = replayProof(theorem, { ...rules, theorems: [...verified.values()] });
+            if (failure) {
+                failures.set(theorem.id, failure);
+            } else {
+                verified.set(theorem.id, theorem);
+                progressed = true;
+            }
+        }
+    }
+
+    return theorems.map(theorem => {
+        if (!theorem.isProved) return theorem;
+        if (verified.has(theorem.id)) return { ...theorem, proofFailure: undefined };
+        return { ...theorem, isProved: false, proofFailure: failures.get(theorem.id) };
+    });
+};
@@ -0,0 +1,103 @@
+import { ProofSide, ProofStep, ProofStepAction, RuleDiagram } from '../types';
+import { listRewriteChoices } from './axiomApplication';
+import { findTheoremMatches } from './theoremApplication';
+import { areNetsIsomorphic } from './netEquality';
+import { canonicalNetHash } from './netHash';
+import { NetInvariantError } from '../net/netModel';
+import { ProofRules, applyProofSubstitution, buildProofAction, recordProofStep } from './proofReplay';
+
+export interface ProofSearchLimits {
+    maxDepth: number; // Most steps added to the proof
+    maxNodes: number; // Largest net either side may grow to
+    maxStates: number; // Distinct states explored before giving up
+}
+
+export const DEFAULT_PROOF_SEARCH_LIMITS: ProofSearchLimits = { maxDepth: 8, maxNodes: 40, maxStates: 5000 };
+
+export type ProofSearchResult =
+    | { kind: 'found'; steps: ProofStep[]; explored: number }
+    | { kind: 'exhausted'; explored: number } // No proof within the depth and node bounds
+    | { kind: 'state-limit'; explored: number };
+
+type ProofNets = Record<ProofSide, RuleDiagram>;
+
+interface SearchState {
+    nets: ProofNets;
+    steps: ProofStep[];
+}
+
+const SIDES: ProofSide[] = ['source', 'target'];
+
+// Every action that applies somewhere on a net
+const listActions = (net: RuleDiagram, rules: ProofRules): ProofStepAction[] => {
+    const actions: ProofStepAction[] = [];
+    net.wires.forEach(wire => {
+        listRewriteChoices(wire, net.nodes, rules.axioms, rules.atomicNodes).forEach(choice => actions.push(
+            { kind: 'axiom', wireId: wire.id, axiomId: choice.match.axiom.id, optionId: choice.option.id }
+        ));
+        findTheoremMatches(wire, net.nodes, rules.theorems, rules.atomicNodes, rules.definitions).forEach(match => actions.push(
+            { kind: 'theorem', wireId: wire.id, theoremId: match.theorem.id }
+        ));
+    });
+    net.nodes.forEach(node => {
+        if (node.isDefinitionInstance) actions.push({ kind: 'expand', instanceId: node.instanceId });
+    });
+    return actions;
+};
+
+const sameNet = (a: RuleDiagram, b: RuleDiagram) => areNetsIsomorphic(a, b, { compareMetadata: true });
+
+/**
+ * Breadth-first search for steps that make both sides of a proof the same net, so the
+ * shortest proof within the bounds is found first. States are deduplicated by the
+ * canonical hash of both sides; equal hashes are confirmed by isomorphism.
+ * @param start The nets to search from, usually the current state of the proof.
+ */
+export const searchProof = (start: ProofNets, rules: ProofRules, limits: ProofSearchLimits): ProofSearchResult => {
+    const seen = new Map<string, ProofNets[]>();
+    // Records the state and reports whether both sides are the same net; null when it was seen before
+    const visit = (nets: ProofNets): { isSolved: boolean } | null => {
+        const sourceHash = canonicalNetHash(nets.source);
+        const targetHash = canonicalNetHash(nets.target);
+        const key = `${sourceHash}|${targetHash}`;
+        const bucket = seen.get(key) ?? [];
+        if (bucket.some(other => SIDES.every(side => sameNet(nets[side], other[side])))) return null;
+        seen.set(key, [...bucket, nets]);
+        return { isSolved: sourceHash === targetHash && sameNet(nets.source, nets.target) };
+    };
+    if (visit(start)?.isSolved) return { kind: 'found', steps: [], explored: 1 };
+
+    let frontier: SearchState[] = [{ nets: start, steps: [] }];
+    let explored = 1;
+    for (let depth = 0; depth < limits.maxDepth && frontier.length > 0; depth++) {
+        const nextFrontier: SearchState[] = [];
+        for (const state of frontier) {
+            for (const side of SIDES) {
+                const net = state.nets[side];
+                for (const action of listActions(net, rules)) {
+                    const substitution = buildProofAction(net, action, rules, new Map());
+                    if (!substitution) continue;
+                    let nextNet: RuleDiagram;
+                    try {
+                        nextNet = applyProofSubstitution(net, substitution);
+                    } catch (error) {
+                        // A rule that breaks the net is no step of a proof
+                        if (!(error instanceof NetInvariantError)) throw error;
+                        continue;
+                    }
+                    if (nextNet.nodes.length > limits.maxNodes) continue;
+                    const nets = { ...state.nets, [side]: nextNet };
+                    const visited = visit(nets);
+                    if (!visited) continue;
+                    const steps = [...state.steps, recordProofStep(action, side, substitution)];
+                    if (visited.isSolved) return { kind: 'found', steps, explored };
+                    explored++;
+                    if (explored >= limits.maxStates) return { kind: 'state-limit', explored };
+                    nextFrontier.push({ nets, steps });
+                }
+            }
+        }
+        frontier = nextFrontier;
+    }
+    return { kind: 'exhausted', explored };
+};
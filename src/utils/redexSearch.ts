@@ -0,0 +1,74 @@
+import { AtomicNodeDefinition, AxiomDefinition, CanvasNodeInstance, WireConnection } from '../types';
+import { SubnetSubstitution } from '../net/netModel';
+import { RewriteChoice, getActivePair, listRewriteChoices } from './axiomApplication';
+
+// An active pair that at least one axiom option can rewrite
+export interface Redex {
+    wire: WireConnection;
+    choices: RewriteChoice[];
+}
+
+// The active pairs of a net by wire ID, in wire order
+interface RedexScan {
+    nodes: CanvasNodeInstance[];
+    axioms: AxiomDefinition[];
+    atomicNodes: AtomicNodeDefinition[];
+    redexes: Map<string, Redex>;
+    stuckWireIds: Set<string>; // Active pairs no axiom option applies to
+}
+
+// A pair's redex status depends only on its wire and the two nodes, so a scan stays valid
+// for its wire array as long as the nodes and rules are the same
+const scanCache = new WeakMap<WireConnection[], RedexScan>();
+
+const scanWire = (scan: RedexScan, wire: WireConnection) => {
+    if (!getActivePair(wire, scan.nodes, scan.atomicNodes)) return;
+    const choices = listRewriteChoices(wire, scan.nodes, scan.axioms, scan.atomicNodes);
+    if (choices.length > 0) {
+        scan.redexes.set(wire.id, { wire, choices });
+    } else {
+        scan.stuckWireIds.add(wire.id);
+    }
+};
+
+/**
+ * Scans the net for active pairs. The scan is cached for the wire array and carried over
+ * rewrites (see carryRedexes), so a reduction rescans only the wires each step adds.
+ * @returns The reducible pairs in wire order, and the number of active pairs no axiom option applies to.
+ */
+export const findRedexes = (
+    nodes: CanvasNodeInstance[],
+    wires: WireConnection[],
+    axioms: AxiomDefinition[],
+    atomicNodes: AtomicNodeDefinition[]
+): { redexes: Redex[]; stuckPairs: number } => {
+    let scan = scanCache.get(wires);
+    if (!scan || scan.nodes !== nodes || scan.axioms !== axioms || scan.atomicNodes !== atomicNodes) {
+        const fresh: RedexScan = { nodes, axioms, atomicNodes, redexes: new Map(), stuckWireIds: new Set() };
+        wires.forEach(wire => scanWire(fresh, wire));
+        scanCache.set(wires, fresh);
+        scan = fresh;
+    }
+    return { redexes: [...scan.redexes.values()], stuckPairs: scan.stuckWireIds.size };
+};
+
+/**
+ * Hands the redex scan of a net over to the net a substitution made from it: the removed
+ * wires drop out and only the new ones are scanned. Does nothing when the earlier net was
+ * never scanned.
+ */
+export const carryRedexes = (
+    before: { nodes: CanvasNodeInstance[]; wires: WireConnection[] },
+    after: { nodes: CanvasNodeInstance[]; wires: WireConnection[] },
+    substitution: SubnetSubstitution
+) => {
+    const scan = scanCache.get(before.wires);
+    if (!scan || scan.nodes !== before.nodes) return;
+    const carried: RedexScan = { ...scan, nodes: after.nodes, redexes: new Map(scan.redexes), stuckWireIds: new Set(scan.stuckWireIds) };
+    substitution.removedWireIds.forEach(id => {
+        carried.redexes.delete(id);
+        carried.stuckWireIds.delete(id);
+    });
+    substitution.newWires.forEach(wire => scanWire(carried, wire));
+    scanCache.set(after.wires, carried);
+};
@@ -0,0 +1,118 @@
+import { CanvasNodeInstance, WireConnection } from '../types';
+import { getPortIndex, listNeighbours } from '../net/netIndex';
+import { PortRef } from '../net/netElements';
+import { findConnectedPort } from './netSubstitution';
+import { Redex } from './redexSearch';
+
+export type ReductionStrategy = 'outermost' | 'innermost' | 'parallel' | 'random';
+
+export const REDUCTION_STRATEGY_LABELS: Record<ReductionStrategy, string> = {
+    outermost: 'Leftmost-outermost',
+    innermost: 'Innermost',
+    parallel: 'Parallel',
+    random: 'Random',
+};
+
+// Position of a node in the traversal from the root
+interface NodeVisit {
+    order: number; // Preorder index
+    depth: number; // Number of wires from the root
+}
+
+/**
+ * Walks the net depth-first from the root, visiting ports in index order so lower
+ * ports count as "further left". Nodes the root cannot reach are walked afterwards
+ * in canvas order.
+ * @param root The root port; null starts directly with the canvas order.
+ */
+export const traverseFromRoot = (
+    nodes: CanvasNodeInstance[],
+    wires: WireConnection[],
+    root: PortRef | null
+): Map<string, NodeVisit> => {
+    const index = getPortIndex(wires);
+    const visits = new Map<string, NodeVisit>();
+
+    const walk = (startId: string) => {
+        const stack: { nodeId: string; depth: number }[] = [{ nodeId: startId, depth: 0 }];
+        while (stack.length > 0) {
+            const { nodeId, depth } = stack.pop()!;
+            if (visits.has(nodeId)) continue;
+            visits.set(nodeId, { order: visits.size, depth });
+            const next = listNeighbours(index, nodeId)
+                .map(({ other }) => other.nodeId as string)
+                .filter(id => id !== 'BOUNDARY' && !visits.has(id));
+            for (let i = next.length - 1; i >= 0; i--) stack.push({ nodeId: next[i], depth: depth + 1 });
+        }
+    };
+
+    const rootNode = root && (root.nodeId === 'BOUNDARY' ? findConnectedPort(wires, root)?.other.nodeId : root.nodeId);
+    if (rootNode && rootNode !== 'BOUNDARY') walk(rootNode);
+    nodes.forEach(node => walk(node.instanceId));
+    return visits;
+};
+
+const redexNodeIds = (redex: Redex): [string, string] => [redex.wire.sourceNodeId as string, redex.wire.targetNodeId as string];
+
+// Outermost position of a redex: its shallower node, then the earlier one
+const rankRedex = (redex: Redex, visits: Map<string, NodeVisit>) => {
+    const [a, b] = redexNodeIds(redex).map(id => visits.get(id) ?? { order: Infinity, depth: Infinity });
+    return { depth: Math.min(a.depth, b.depth), order: Math.min(a.order, b.order) };
+};
+
+const sortRedexes = (redexes: Redex[], visits: Map<string, NodeVisit>, innermost: boolean): Redex[] => {
+    return [...redexes].sort((x, y) => {
+        const rx = rankRedex(x, visits);
+        const ry = rankRedex(y, visits);
+        if (rx.depth !== ry.depth) return innermost ? ry.depth - rx.depth : rx.depth - ry.depth;
+        return rx.order - ry.order;
+    });
+};
+
+// Greedy maximal set of redexes that share no node, preferring outer ones
+const selectDisjoint = (ordered: Redex[]): Redex[] => {
+    const used = new Set<string>();
+    return ordered.filter(redex => {
+        const ids = redexNodeIds(redex);
+        if (ids.some(id => used.has(id))) return false;
+        ids.forEach(id => used.add(id));
+        return true;
+    });
+};
+
+/**
+ * Creates a deterministic pseudo-random generator (mulberry32).
+ * @returns A function yielding numbers in [0, 1).
+ */
+export const createSeededRandom = (seed: number): (() => number) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+/**
+ * Picks the redexes to fire in one reduction tick.
+ * @param strategy How to choose among the available redexes.
+ * @param redexes Every reducible pair of the net.
+ * @param root Port the traversal-based strategies measure from.
+ * @param random Generator used by the random strategy.
+ * @returns One redex, or for the parallel strategy every disjoint redex; empty when none are available.
+ */
+export const selectRedexes = (
+    strategy: ReductionStrategy,
+    redexes: Redex[],
+    nodes: CanvasNodeInstance[],
+    wires: WireConnection[],
+    root: PortRef | null,
+    random: () => number
+): Redex[] => {
+    if (redexes.length === 0) return [];
+    if (strategy === 'random') return [redexes[Math.floor(random() * redexes.length)]];
+    const ordered = sortRedexes(redexes, traverseFromRoot(nodes, wires, root), strategy === 'innermost');
+    return strategy === 'parallel' ? selectDisjoint(ordered) : [ordered[0]];
+};
@@ -0,0 +1,63 @@
+import { CanvasNodeInstance, ReductionTrace, TraceEntry, WireConnection } from '../types';
+import { RewriteChoice } from './axiomApplication';
+import { SubnetSubstitution, createNet, substitute } from '../net/netModel';
+
+/**
+ * Describes an applied rewrite as a trace entry.
+ */
+export const createTraceEntry = (choice: RewriteChoice, substitution: SubnetSubstitution): TraceEntry => ({
+    axiomId: choice.match.axiom.id,
+    optionLabel: choice.option.label,
+    consumedInstanceIds: substitution.removedNodeIds,
+    createdNodes: substitution.newNodes,
+    removedWireIds: substitution.removedWireIds,
+    addedWires: substitution.newWires,
+});
+
+const entryAsSubstitution = (entry: TraceEntry): SubnetSubstitution => ({
+    removedNodeIds: entry.consumedInstanceIds,
+    removedWireIds: entry.removedWireIds,
+    newNodes: entry.createdNodes,
+    newWires: entry.addedWires,
+});
+
+/**
+ * Rebuilds the canvas after a number of trace entries.
+ * @param trace The trace to replay.
+ * @param step How many entries to apply; 0 gives the starting canvas.
+ * @throws NetInvariantError when an entry does not fit the canvas it is replayed on, as in an edited trace file.
+ */
+export const replayTrace = (trace: ReductionTrace, step: number): { nodes: CanvasNodeInstance[]; wires: WireConnection[] } => {
+    const { nodes, wires } = trace.entries.slice(0, step).reduce(
+        (state, entry) => substitute(state, entryAsSubstitution(entry)),
+        createNet(trace.initialNodes, trace.initialWires)
+    );
+    return { nodes, wires };
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isTraceEntry = (value: unknown): value is TraceEntry => {
+    const entry = value as TraceEntry;
+    return !!entry && typeof entry.axiomId === 'string' && typeof entry.optionLabel === 'string' &&
+        isStringArray(entry.consumedInstanceIds) && Array.isArray(entry.createdNodes) &&
+        isStringArray(entry.removedWireIds) && Array.isArray(entry.addedWires);
+};
+
+/**
+ * Reads a trace exported as JSON.
+ * @returns The trace.
+ * @throws Error when the text is not a reduction trace.
+ */
+export const parseReductionTrace = (text: string): ReductionTrace => {
+    const data = JSON.parse(text);
+    if (!data || !Array.isArray(data.initialNodes) || !Array.isArray(data.initialWires) || !Array.isArray(data.entries)) {
+        throw new Error('File is not a reduction trace (expected initialNodes, initialWires and entries).');
+    }
+    const badIndex = (data.entries as unknown[]).findIndex(entry => !isTraceEntry(entry));
+    if (badIndex !== -1) {
+        throw new Error(`Trace entry ${badIndex + 1} is malformed.`);
+    }
+    return data as ReductionTrace;
+};
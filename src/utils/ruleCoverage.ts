@@ -0,0 +1,150 @@
+import { AtomicNodeDefinition, AxiomDefinition, CanvasNodeInstance, WireConnection } from '../types';
+import { getAxiomPairPorts, orientAgainstSource } from './axiomApplication';
+import { findCommonWitness } from './guardSatisfiability';
+import { GuardBindings } from './guardExpressionEvaluator';
+
+export type AnalysisIssueKind = 'missing' | 'overlap' | 'asymmetric' | 'critical-pair' | 'critical-pair-undetermined';
+
+export interface AnalysisIssue {
+    kind: AnalysisIssueKind;
+    severity: 'error' | 'warning';
+    message: string;
+}
+
+// A principal port of an atomic node type
+export interface PrincipalEnd {
+    typeId: string;
+    port: number;
+}
+
+// An axiom that rewrites a configuration, and whether it sees it with left and right exchanged
+export interface CoveringAxiom {
+    axiom: AxiomDefinition;
+    mirrored: boolean;
+}
+
+const sameEnd = (a: PrincipalEnd, b: PrincipalEnd) => a.typeId === b.typeId && a.port === b.port;
+
+export const listPrincipalEnds = (atomicNodes: AtomicNodeDefinition[]): PrincipalEnd[] =>
+    atomicNodes.flatMap(def => Array.from({ length: def.principalPorts }, (_, port) => ({ typeId: def.id, port })));
+
+/**
+ * Names a principal end for reports; the port is only shown for nodes with several principal ports.
+ */
+export const describeEnd = (end: PrincipalEnd, atomicNodes: AtomicNodeDefinition[]): string => {
+    const def = atomicNodes.find(d => d.id === end.typeId);
+    const name = def?.name ?? end.typeId;
+    return def && def.principalPorts > 1 ? `${name}[${end.port}]` : name;
+};
+
+const getAxiomEnds = (axiom: AxiomDefinition): [PrincipalEnd, PrincipalEnd] | null => {
+    const ports = getAxiomPairPorts(axiom);
+    if (!ports) return null;
+    return [
+        { typeId: axiom.source.leftNode.definitionId, port: ports.leftPort },
+        { typeId: axiom.source.rightNode.definitionId, port: ports.rightPort },
+    ];
+};
+
+/**
+ * Lists the axioms that rewrite two principal ends meeting, in either orientation.
+ */
+export const findCoveringAxioms = (first: PrincipalEnd, second: PrincipalEnd, axioms: AxiomDefinition[]): CoveringAxiom[] => {
+    const covering: CoveringAxiom[] = [];
+    axioms.forEach(axiom => {
+        const ends = getAxiomEnds(axiom);
+        if (!ends) return;
+        if (sameEnd(ends[0], first) && sameEnd(ends[1], second)) covering.push({ axiom, mirrored: false });
+        else if (sameEnd(ends[0], second) && sameEnd(ends[1], first)) covering.push({ axiom, mirrored: true });
+    });
+    return covering;
+};
+
+// Whether some covering axiom still fits when the pair meets as `first` ⋈ `second`, on a wire running that way
+const fitsOriented = (first: PrincipalEnd, second: PrincipalEnd, covering: CoveringAxiom[]): boolean => {
+    const placeNode = (end: PrincipalEnd, instanceId: string): CanvasNodeInstance => ({
+        instanceId, definitionId: end.typeId, x: 0, y: 0, metadataValues: {}, metadataVisibility: {},
+    });
+    const firstNode = placeNode(first, 'coverage_first');
+    const secondNode = placeNode(second, 'coverage_second');
+    const wire: WireConnection = {
+        id: 'coverage_wire',
+        sourceNodeId: firstNode.instanceId,
+        sourcePortIndex: first.port,
+        targetNodeId: secondNode.instanceId,
+        targetPortIndex: second.port,
+        targetLength: null,
+    };
+    return covering.some(({ axiom }) => orientAgainstSource(axiom.source, wire, firstNode, secondNode) !== null);
+};
+
+const describeWitness = (witness: GuardBindings): string => {
+    const fields = Object.entries(witness).flatMap(([root, values]) =>
+        Object.entries(values).map(([field, value]) => `${root}.${field} = ${JSON.stringify(value)}`));
+    return fields.length > 0 ? fields.join(', ') : 'any metadata';
+};
+
+// Finds option guards of two different axioms that can hold together
+const findOverlapIssue = (pairName: string, covering: CoveringAxiom[]): AnalysisIssue | null => {
+    for (let i = 0; i < covering.length; i++) {
+        for (let j = i + 1; j < covering.length; j++) {
+            for (const optionA of covering[i].axiom.options) {
+                for (const optionB of covering[j].axiom.options) {
+                    const witness = findCommonWitness([
+                        { source: optionA.guard, mirrored: covering[i].mirrored },
+                        { source: optionB.guard, mirrored: covering[j].mirrored },
+                    ]);
+                    if (witness) {
+                        return {
+                            kind: 'overlap',
+                            severity: 'error',
+                            message: `${pairName}: axioms "${covering[i].axiom.name}" (${optionA.label}) and ` +
+                                `"${covering[j].axiom.name}" (${optionB.label}) both apply when ${describeWitness(witness)}.`,
+                        };
+                    }
+                }
+            }
+        }
+    }
+    return null;
+};
+
+/**
+ * Checks every way two principal ports can meet against the axiom library:
+ * configurations without an axiom, configurations where guards of different axioms
+ * can hold together, and A ⋈ B defined in one orientation that cannot be applied in the other.
+ * @returns The issues found, errors first.
+ */
+export const analyzeRuleCoverage = (atomicNodes: AtomicNodeDefinition[], axioms: AxiomDefinition[]): AnalysisIssue[] => {
+    const ends = listPrincipalEnds(atomicNodes);
+    const issues: AnalysisIssue[] = [];
+
+    ends.forEach((first, i) => {
+        ends.slice(i).forEach(second => {
+            const pairName = `${describeEnd(first, atomicNodes)} ⋈ ${describeEnd(second, atomicNodes)}`;
+            const covering = findCoveringAxioms(first, second, axioms);
+            if (covering.length === 0) {
+                issues.push({ kind: 'missing', severity: 'error', message: `${pairName}: no axiom.` });
+                return;
+            }
+            const overlap = findOverlapIssue(pairName, covering);
+            if (overlap) issues.push(overlap);
+
+            const isSelfPair = sameEnd(first, second);
+            const hasForward = covering.some(c => !c.mirrored);
+            const hasBackward = covering.some(c => c.mirrored);
+            // Rules are applied in either orientation, so a one-sided definition only matters if mirroring fails
+            const [defined, missing] = hasForward ? [first, second] : [second, first];
+            if (!isSelfPair && hasForward !== hasBackward && !fitsOriented(missing, defined, covering)) {
+                const definedName = `${describeEnd(defined, atomicNodes)} ⋈ ${describeEnd(missing, atomicNodes)}`;
+                const missingName = `${describeEnd(missing, atomicNodes)} ⋈ ${describeEnd(defined, atomicNodes)}`;
+                issues.push({
+                    kind: 'asymmetric',
+                    severity: 'warning',
+                    message: `${definedName} is defined but ${missingName} is not, and the axiom does not apply mirrored.`,
+                });
+            }
+        });
+    });
+    return issues.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+};
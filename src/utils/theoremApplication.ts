@@ -0,0 +1,77 @@
+import { AtomicNodeDefinition, CanvasNodeInstance, DefinitionDefinition, NodePhysicsData, TheoremDefinition, WireConnection } from '../types';
+import { findNode } from '../net/netIndex';
+import { isPrincipalPort } from './activePairs';
+import { PairInstances, bindPairBoundary, createPairPlacement, orientAgainstSource } from './axiomApplication';
+import { SubnetSubstitution } from '../net/netModel';
+import { substituteSubnet } from './netSubstitution';
+
+// A proved theorem whose source matches a principal pair on the canvas
+export interface TheoremMatch extends PairInstances {
+    theorem: TheoremDefinition;
+}
+
+/**
+ * Finds the two nodes joined principal port to principal port by a wire, where at
+ * least one of them is a definition instance.
+ * @returns The pair in wire order, or null when the wire cannot carry a theorem.
+ */
+export const getDefinitionPair = (
+    wire: WireConnection,
+    nodes: CanvasNodeInstance[],
+    atomicNodes: AtomicNodeDefinition[],
+    definitions: DefinitionDefinition[]
+): [CanvasNodeInstance, CanvasNodeInstance] | null => {
+    const sourceNode = findNode(nodes, wire.sourceNodeId);
+    const targetNode = findNode(nodes, wire.targetNodeId);
+    if (!sourceNode || !targetNode || sourceNode === targetNode) return null;
+    if (!sourceNode.isDefinitionInstance && !targetNode.isDefinitionInstance) return null;
+    if (!isPrincipalPort(sourceNode, wire.sourcePortIndex, atomicNodes, definitions)) return null;
+    if (!isPrincipalPort(targetNode, wire.targetPortIndex, atomicNodes, definitions)) return null;
+    return [sourceNode, targetNode];
+};
+
+// Every metadata value stored on the theorem's node must be present on the canvas node
+const hasMatchingMetadata = (instance: CanvasNodeInstance, pattern: CanvasNodeInstance) =>
+    Object.entries(pattern.metadataValues ?? {}).every(([field, value]) => instance.metadataValues?.[field] === value);
+
+/**
+ * Lists the proved theorems whose source is the pair on a wire, in library order.
+ */
+export const findTheoremMatches = (
+    wire: WireConnection,
+    nodes: CanvasNodeInstance[],
+    theorems: TheoremDefinition[],
+    atomicNodes: AtomicNodeDefinition[],
+    definitions: DefinitionDefinition[]
+): TheoremMatch[] => {
+    const pair = getDefinitionPair(wire, nodes, atomicNodes, definitions);
+    if (!pair) return [];
+    const matches: TheoremMatch[] = [];
+    theorems.filter(theorem => theorem.isProved).forEach(theorem => {
+        const oriented = orientAgainstSource(theorem.source, wire, pair[0], pair[1]);
+        if (!oriented) return;
+        const [leftInstance, rightInstance] = oriented;
+        if (!hasMatchingMetadata(leftInstance, theorem.source.leftNode) || !hasMatchingMetadata(rightInstance, theorem.source.rightNode)) return;
+        matches.push({ theorem, leftInstance, rightInstance });
+    });
+    return matches;
+};
+
+/**
+ * Builds the rewrite replacing a matched source by the theorem's target.
+ * @param physicsData Latest node positions, used to place the target where the pair is.
+ */
+export const buildTheoremRewrite = (
+    wires: WireConnection[],
+    match: TheoremMatch,
+    physicsData: NodePhysicsData
+): SubnetSubstitution => {
+    const { source, target } = match.theorem;
+    return substituteSubnet(
+        wires,
+        [match.leftInstance.instanceId, match.rightInstance.instanceId],
+        bindPairBoundary(source, match),
+        target,
+        createPairPlacement(source, match, physicsData)
+    );
+};
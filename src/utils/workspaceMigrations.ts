@@ -0,0 +1,61 @@
+/**
+ * Version written into exported workspaces. Bump it together with a new entry in
+ * WORKSPACE_MIGRATIONS whenever the shape of WorkspaceData changes.
+ */
+export const CURRENT_FORMAT_VERSION = 2;
+
+// Files exported before the format carried a version
+const UNVERSIONED_FORMAT = 1;
+
+export class WorkspaceFormatError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'WorkspaceFormatError';
+    }
+}
+
+type RawWorkspace = Record<string, unknown>;
+
+// Upgrades a workspace from one format version to the next
+interface WorkspaceMigration {
+    from: number;
+    migrate: (data: RawWorkspace) => RawWorkspace;
+}
+
+// One entry per version, oldest first. Migrations only reshape data; validation runs afterwards.
+const WORKSPACE_MIGRATIONS: WorkspaceMigration[] = [
+    {
+        // Unversioned files may predate axioms and theorems
+        from: 1,
+        migrate: data => ({ ...data, axioms: data.axioms ?? [], theorems: data.theorems ?? [] }),
+    },
+];
+
+/**
+ * Upgrades parsed workspace JSON to the current format by running every migration from
+ * the file's version on. Files without a version are treated as the oldest format.
+ * @returns The upgraded data, still to be validated, and the version the file was written in.
+ * @throws WorkspaceFormatError when the file is not a workspace object or its version is
+ * invalid or newer than this app understands.
+ */
+export const migrateWorkspace = (data: unknown): { data: RawWorkspace; fromVersion: number } => {
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+        throw new WorkspaceFormatError('The file does not hold a workspace object.');
+    }
+    const raw = data as RawWorkspace;
+    const fromVersion = raw.formatVersion ?? UNVERSIONED_FORMAT;
+    if (typeof fromVersion !== 'number' || !Number.isInteger(fromVersion) || fromVersion < UNVERSIONED_FORMAT) {
+        throw new WorkspaceFormatError(`The file has an invalid format version: ${JSON.stringify(raw.formatVersion)}.`);
+    }
+    if (fromVersion > CURRENT_FORMAT_VERSION) {
+        throw new WorkspaceFormatError(`The file was saved in format version ${fromVersion}, which is newer than this app reads (up to ${CURRENT_FORMAT_VERSION}).`);
+    }
+
+    let current = raw;
+    for (let version = fromVersion; version < CURRENT_FORMAT_VERSION; version++) {
+        const migration = WORKSPACE_MIGRATIONS.find(m => m.from === version);
+        if (!migration) throw new Error(`No workspace migration from format version ${version}.`);
+        current = { ...migration.migrate(current), formatVersion: version + 1 };
+    }
+    return { data: current, fromVersion };
+};
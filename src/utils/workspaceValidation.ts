@@ -0,0 +1,490 @@
+import {
+    ActivePairSource, AtomicNodeDefinition, AxiomDefinition, AxiomOption, CanvasNodeInstance, DefinitionDefinition,
+    ExternalPort, ProofStep, RuleDiagram, TheoremDefinition, WireConnection, WorkspaceData,
+} from '../types';
+import { CURRENT_FORMAT_VERSION } from './workspaceMigrations';
+
+// Something wrong with an imported workspace, and what the repair does about it
+export interface WorkspaceProblem {
+    location: string; // The item the problem was found in, e.g. `definition "Adder"` or `canvas`
+    message: string;
+}
+
+export interface WorkspaceValidation {
+    problems: WorkspaceProblem[];
+    repaired: WorkspaceData; // The file with every broken part dropped or fixed; equal to the file when there are no problems
+}
+
+type Report = (message: string) => void;
+type RawRecord = Record<string, unknown>;
+
+const DEFAULT_COLOR = '#888888';
+
+// --- Schema checks ---
+
+const isRecord = (value: unknown): value is RawRecord => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const quote = (name: unknown, fallback: string) => (isNonEmptyString(name) ? `"${name}"` : fallback);
+
+// Keeps the entries of a record whose values pass the check; null when the field is not a record
+const readValueMap = <T>(value: unknown, isValue: (item: unknown) => item is T): Record<string, T> | null => {
+    if (!isRecord(value)) return null;
+    return Object.fromEntries(Object.entries(value).filter(([, item]) => isValue(item))) as Record<string, T>;
+};
+
+const isMetadataValue = (value: unknown): value is string | number | boolean =>
+    typeof value === 'string' || typeof value === 'boolean' || isFiniteNumber(value);
+
+/**
+ * Reads a list field. A missing field reads as empty; anything else that is not an array is reported.
+ */
+const readList = (value: unknown, field: string, report: Report): unknown[] => {
+    if (value === undefined) return [];
+    if (!Array.isArray(value)) {
+        report(`${field} is not a list and was ignored.`);
+        return [];
+    }
+    return value;
+};
+
+// Reads each entry of a list, dropping unreadable entries and later entries with a repeated ID
+const readUniqueItems = <T>(
+    items: unknown[],
+    read: (raw: unknown, index: number) => T | null,
+    idOf: (item: T) => string,
+    kind: string,
+    report: Report
+): T[] => {
+    const seen = new Set<string>();
+    return items.flatMap((raw, index) => {
+        const item = read(raw, index);
+        if (!item) return [];
+        if (seen.has(idOf(item))) {
+            report(`Duplicate ${kind} ID ${idOf(item)} was dropped.`);
+            return [];
+        }
+        seen.add(idOf(item));
+        return [item];
+    });
+};
+
+const readAtomicNode = (raw: unknown, index: number, report: Report): AtomicNodeDefinition | null => {
+    if (!isRecord(raw) || !isNonEmptyString(raw.id) || !isNonEmptyString(raw.name)) {
+        report(`Atomic node ${index + 1} has no ID or name and was dropped.`);
+        return null;
+    }
+    if (!isCount(raw.principalPorts) || !isCount(raw.nonPrincipalPorts)) {
+        report(`Atomic node "${raw.name}" has invalid port counts and was dropped.`);
+        return null;
+    }
+    if (raw.metadataSchema !== undefined && !isStringArray(raw.metadataSchema)) {
+        report(`Atomic node "${raw.name}" has an invalid metadata schema; it was cleared.`);
+    }
+    if (typeof raw.color !== 'string') report(`Atomic node "${raw.name}" has no color; it was set to ${DEFAULT_COLOR}.`);
+    return {
+        id: raw.id,
+        name: raw.name,
+        color: typeof raw.color === 'string' ? raw.color : DEFAULT_COLOR,
+        principalPorts: raw.principalPorts,
+        nonPrincipalPorts: raw.nonPrincipalPorts,
+        metadataSchema: isStringArray(raw.metadataSchema) ? raw.metadataSchema : [],
+    };
+};
+
+const readNode = (raw: unknown, index: number, report: Report): CanvasNodeInstance | null => {
+    if (!isRecord(raw) || !isNonEmptyString(raw.instanceId) || !isNonEmptyString(raw.definitionId)) {
+        report(`Node ${index + 1} has no instance ID or type and was dropped.`);
+        return null;
+    }
+    const node: CanvasNodeInstance = {
+        instanceId: raw.instanceId,
+        definitionId: raw.definitionId,
+        x: isFiniteNumber(raw.x) ? raw.x : 0,
+        y: isFiniteNumber(raw.y) ? raw.y : 0,
+    };
+    if (!isFiniteNumber(raw.x) || !isFiniteNumber(raw.y)) report(`Node ${raw.instanceId} has an invalid position; it was moved to the origin.`);
+    if (raw.isDefinitionInstance !== undefined) {
+        if (typeof raw.isDefinitionInstance === 'boolean') node.isDefinitionInstance = raw.isDefinitionInstance;
+        else report(`Node ${raw.instanceId} has an invalid definition instance flag; it was read as atomic.`);
+    }
+
+    const optionalMaps: [keyof CanvasNodeInstance, (item: unknown) => boolean][] = [
+        ['metadataValues', isMetadataValue],
+        ['metadataVisibility', item => typeof item === 'boolean'],
+        ['metadataExpressions', item => typeof item === 'string'],
+    ];
+    optionalMaps.forEach(([field, isValue]) => {
+        if (raw[field] === undefined) return;
+        const values = readValueMap(raw[field], (item): item is unknown => isValue(item));
+        if (!values || Object.keys(values).length !== Object.keys(raw[field] as RawRecord).length) {
+            report(`Node ${raw.instanceId} has invalid ${field}; the invalid entries were dropped.`);
+        }
+        if (values) Object.assign(node, { [field]: values });
+    });
+    return node;
+};
+
+const isPortValue = (value: unknown) => isCount(value) || isNonEmptyString(value);
+
+const readWire = (raw: unknown, index: number, report: Report): WireConnection | null => {
+    if (!isRecord(raw) || !isNonEmptyString(raw.id)) {
+        report(`Wire ${index + 1} has no ID and was dropped.`);
+        return null;
+    }
+    if (!isNonEmptyString(raw.sourceNodeId) || !isNonEmptyString(raw.targetNodeId) ||
+        !isPortValue(raw.sourcePortIndex) || !isPortValue(raw.targetPortIndex)) {
+        report(`Wire ${raw.id} has invalid ends and was dropped.`);
+        return null;
+    }
+    const hasLength = raw.targetLength === undefined || raw.targetLength === null || isFiniteNumber(raw.targetLength);
+    if (!hasLength) report(`Wire ${raw.id} has an invalid length; it was cleared.`);
+    return {
+        id: raw.id,
+        sourceNodeId: raw.sourceNodeId,
+        sourcePortIndex: raw.sourcePortIndex as number | string,
+        targetNodeId: raw.targetNodeId,
+        targetPortIndex: raw.targetPortIndex as number | string,
+        targetLength: hasLength ? (raw.targetLength as number | null | undefined) ?? null : null,
+    };
+};
+
+const readNodes = (value: unknown, field: string, report: Report) =>
+    readUniqueItems(readList(value, field, report), (raw, index) => readNode(raw, index, report), n => n.instanceId, 'node', report);
+
+const readWires = (value: unknown, field: string, report: Report) =>
+    readUniqueItems(readList(value, field, report), (raw, index) => readWire(raw, index, report), w => w.id, 'wire', report);
+
+// Sorting keeps every connection, so unlike other repairs it does not make an item stale
+const SORTED_PORTS_MESSAGE = 'External ports were out of angle order; they were sorted and wires on instances renumbered to match.';
+
+/**
+ * Reads external ports and puts them in angle order, which port layout relies on.
+ * @returns The ports, each surviving port's position in the file -> its position now, and
+ * whether sorting moved any of them. The caller reports the sorting.
+ */
+const readExternalPorts = (value: unknown, report: Report): { ports: ExternalPort[]; indexMap: Map<number, number>; wasSorted: boolean } => {
+    const entries = readUniqueItems(readList(value, 'externalPorts', report), (raw, index) => {
+        if (!isRecord(raw) || !isNonEmptyString(raw.id) || !isFiniteNumber(raw.angle)) {
+            report(`External port ${index + 1} has no ID or angle and was dropped.`);
+            return null;
+        }
+        if (typeof raw.isPrincipal !== 'boolean') report(`External port ${raw.id} has no principal flag; it was read as non-principal.`);
+        return { index, port: { id: raw.id, angle: raw.angle, isPrincipal: raw.isPrincipal === true } };
+    }, entry => entry.port.id, 'external port', report);
+    const sorted = [...entries].sort((a, b) => a.port.angle - b.port.angle);
+    return {
+        ports: sorted.map(entry => entry.port),
+        indexMap: new Map(sorted.map((entry, position) => [entry.index, position])),
+        wasSorted: sorted.some((entry, position) => entry !== entries[position]),
+    };
+};
+
+// --- Referential checks ---
+
+interface NetContext {
+    atomicNodes: Map<string, AtomicNodeDefinition>;
+    definitions: Map<string, DefinitionDefinition>;
+    portMaps: Map<string, Map<number, number>>; // Definition ID -> port position in the file -> position after sorting
+}
+
+const describeNode = (node: CanvasNodeInstance, ctx: NetContext) => {
+    const type = node.isDefinitionInstance ? ctx.definitions.get(node.definitionId) : ctx.atomicNodes.get(node.definitionId);
+    return type ? `${type.name} ${node.instanceId}` : node.instanceId;
+};
+
+const countPorts = (node: CanvasNodeInstance, ctx: NetContext): number | null => {
+    if (node.isDefinitionInstance) return ctx.definitions.get(node.definitionId)?.externalPorts.length ?? null;
+    const atomic = ctx.atomicNodes.get(node.definitionId);
+    return atomic ? atomic.principalPorts + atomic.nonPrincipalPorts : null;
+};
+
+/**
+ * Drops nodes of unknown types and wires that end on missing nodes, missing boundary ports,
+ * ports beyond a node's port count, or ports another wire already uses. Wires on definition
+ * instances are renumbered after their definition's ports were sorted.
+ * @param boundaryPortIds The boundary ports wires may end on.
+ */
+const checkNet = (
+    nodes: CanvasNodeInstance[],
+    wires: WireConnection[],
+    boundaryPortIds: Set<string>,
+    ctx: NetContext,
+    report: Report
+): RuleDiagram => {
+    const keptNodes = nodes.filter(node => {
+        if (countPorts(node, ctx) !== null) return true;
+        report(`Node ${node.instanceId} uses missing ${node.isDefinitionInstance ? 'definition' : 'atomic node'} ${node.definitionId} and was dropped.`);
+        return false;
+    });
+    const nodesById = new Map(keptNodes.map(node => [node.instanceId, node]));
+
+    // The end as it is after renumbering, or a reason it cannot be kept
+    const resolveEnd = (nodeId: string, port: number | string): { port: number | string } | { problem: string } => {
+        if (nodeId === 'BOUNDARY') {
+            return typeof port === 'string' && boundaryPortIds.has(port) ? { port } : { problem: `missing boundary port ${port}` };
+        }
+        const node = nodesById.get(nodeId);
+        if (!node) return { problem: `missing node ${nodeId}` };
+        if (typeof port !== 'number') return { problem: `named port ${port} of ${describeNode(node, ctx)}` };
+        const renumbered = node.isDefinitionInstance ? ctx.portMaps.get(node.definitionId)?.get(port) : port;
+        if (renumbered === undefined || renumbered >= countPorts(node, ctx)!) {
+            return { problem: `port ${port} of ${describeNode(node, ctx)} (it has ${countPorts(node, ctx)} ports)` };
+        }
+        return { port: renumbered };
+    };
+
+    const usedPorts = new Set<string>();
+    const keptWires = wires.flatMap(wire => {
+        const source = resolveEnd(wire.sourceNodeId, wire.sourcePortIndex);
+        const target = resolveEnd(wire.targetNodeId, wire.targetPortIndex);
+        const problem = 'problem' in source ? source.problem : 'problem' in target ? target.problem : null;
+        if (problem) {
+            report(`Wire ${wire.id} ends on ${problem} and was dropped.`);
+            return [];
+        }
+        const keys = [`${wire.sourceNodeId}:${(source as { port: number | string }).port}`, `${wire.targetNodeId}:${(target as { port: number | string }).port}`];
+        if (keys[0] === keys[1] || keys.some(key => usedPorts.has(key))) {
+            report(`Wire ${wire.id} shares a port with another wire and was dropped.`);
+            return [];
+        }
+        keys.forEach(key => usedPorts.add(key));
+        return [{
+            ...wire,
+            sourcePortIndex: (source as { port: number | string }).port,
+            targetPortIndex: (target as { port: number | string }).port,
+        }];
+    });
+    return { nodes: keptNodes, wires: keptWires };
+};
+
+// Collects the problems of one item, so the caller can tell whether it needed repairs
+const createItemReport = (problems: WorkspaceProblem[], location: string) => {
+    const start = problems.length;
+    const report: Report = message => problems.push({ location, message });
+    return { report, wasRepaired: () => problems.length > start };
+};
+
+const REPAIRED_REASON = 'Repaired on import; see the import report.';
+
+const readStaleReason = (raw: RawRecord, repaired: boolean): string | undefined =>
+    repaired ? REPAIRED_REASON : typeof raw.staleReason === 'string' ? raw.staleReason : undefined;
+
+// --- Library items ---
+
+// A definition's fields before its internal net is checked against the rest of the library
+interface DefinitionDraft {
+    raw: RawRecord;
+    definition: DefinitionDefinition;
+    indexMap: Map<number, number>;
+    repaired: boolean;
+}
+
+// Whether an instance of the target definition is nested anywhere inside the nodes
+const containsDefinition = (nodes: CanvasNodeInstance[], targetId: string, library: DefinitionDefinition[], visited = new Set<string>()): boolean =>
+    nodes.some(node => {
+        if (!node.isDefinitionInstance) return false;
+        if (node.definitionId === targetId) return true;
+        const nested = library.find(def => def.id === node.definitionId);
+        if (!nested || visited.has(nested.id)) return false;
+        visited.add(nested.id);
+        return containsDefinition(nested.internalNodes, targetId, library, visited);
+    });
+
+const readDefinitionDraft = (raw: unknown, index: number, problems: WorkspaceProblem[]): DefinitionDraft | null => {
+    const { report, wasRepaired } = createItemReport(problems, isRecord(raw) ? `definition ${quote(raw.name, `${index + 1}`)}` : `definition ${index + 1}`);
+    if (!isRecord(raw) || !isNonEmptyString(raw.id) || !isNonEmptyString(raw.name)) {
+        report('Definition has no ID or name and was dropped.');
+        return null;
+    }
+    if (typeof raw.color !== 'string') report(`Definition has no color; it was set to ${DEFAULT_COLOR}.`);
+    const { ports, indexMap, wasSorted } = readExternalPorts(raw.externalPorts, report);
+    const definition: DefinitionDefinition = {
+        id: raw.id,
+        name: raw.name,
+        color: typeof raw.color === 'string' ? raw.color : DEFAULT_COLOR,
+        internalNodes: readNodes(raw.internalNodes, 'internalNodes', report),
+        internalWires: readWires(raw.internalWires, 'internalWires', report),
+        externalPorts: ports,
+    };
+    const repaired = wasRepaired();
+    if (wasSorted) report(SORTED_PORTS_MESSAGE);
+    return { raw, definition, indexMap, repaired };
+};
+
+const readPairSource = (raw: unknown, externalPortIds: Set<string>, ctx: NetContext, report: Report): ActivePairSource | null => {
+    if (!isRecord(raw)) {
+        report('Starting configuration is missing; the item was dropped.');
+        return null;
+    }
+    const pair = [readNode(raw.leftNode, 0, report), readNode(raw.rightNode, 1, report)].filter((n): n is CanvasNodeInstance => n !== null);
+    const net = checkNet(pair, readWires(raw.wires, 'source wires', report), externalPortIds, ctx, report);
+    if (net.nodes.length !== 2 || pair[0].instanceId === pair[1].instanceId) {
+        report('Starting configuration does not have two valid nodes; the item was dropped.');
+        return null;
+    }
+    return { leftNode: net.nodes[0], rightNode: net.nodes[1], wires: net.wires };
+};
+
+const readDiagram = (raw: unknown, externalPortIds: Set<string>, ctx: NetContext, report: Report): RuleDiagram => {
+    const diagram = isRecord(raw) ? raw : {};
+    if (!isRecord(raw)) report('Diagram is missing; it was read as empty.');
+    return checkNet(readNodes(diagram.nodes, 'diagram nodes', report), readWires(diagram.wires, 'diagram wires', report), externalPortIds, ctx, report);
+};
+
+const readAxiom = (raw: unknown, index: number, ctx: NetContext, problems: WorkspaceProblem[]): AxiomDefinition | null => {
+    const { report, wasRepaired } = createItemReport(problems, isRecord(raw) ? `axiom ${quote(raw.name, `${index + 1}`)}` : `axiom ${index + 1}`);
+    if (!isRecord(raw) || !isNonEmptyString(raw.id) || !isNonEmptyString(raw.name)) {
+        report('Axiom has no ID or name and was dropped.');
+        return null;
+    }
+    const { ports, wasSorted } = readExternalPorts(raw.externalPorts, report);
+    const portIds = new Set(ports.map(port => port.id));
+    // Axioms rewrite atomic pairs only
+    const source = readPairSource(raw.source, portIds, { ...ctx, definitions: new Map() }, report);
+    if (!source) return null;
+
+    const options = readUniqueItems(readList(raw.options, 'options', report), (rawOption, optionIndex): AxiomOption | null => {
+        if (!isRecord(rawOption) || !isNonEmptyString(rawOption.id) || !isNonEmptyString(rawOption.label)) {
+            report(`Option ${optionIndex + 1} has no ID or label and was dropped.`);
+            return null;
+        }
+        if (rawOption.guard !== undefined && typeof rawOption.guard !== 'string') report(`Option "${rawOption.label}" has an invalid guard; it now always applies.`);
+        return {
+            id: rawOption.id,
+            label: rawOption.label,
+            guard: typeof rawOption.guard === 'string' ? rawOption.guard : '',
+            diagram: readDiagram(rawOption.diagram, portIds, ctx, message => report(`Option "${rawOption.label}": ${message}`)),
+        };
+    }, option => option.id, 'option', report);
+
+    const repaired = wasRepaired();
+    if (wasSorted) report(SORTED_PORTS_MESSAGE);
+    return {
+        id: raw.id,
+        name: raw.name,
+        source,
+        externalPorts: ports,
+        options,
+        staleReason: readStaleReason(raw, repaired),
+    };
+};
+
+const PROOF_ACTION_FIELDS: Record<string, string[]> = {
+    axiom: ['wireId', 'axiomId', 'optionId'],
+    theorem: ['wireId', 'theoremId'],
+    expand: ['instanceId'],
+};
+
+const isProofStep = (value: unknown): value is ProofStep => {
+    if (!isRecord(value) || typeof value.kind !== 'string' || !PROOF_ACTION_FIELDS[value.kind]) return false;
+    return PROOF_ACTION_FIELDS[value.kind].every(field => isNonEmptyString(value[field])) &&
+        (value.side === 'source' || value.side === 'target') &&
+        isStringArray(value.newNodeIds) && isStringArray(value.newWireIds);
+};
+
+const readTheorem = (raw: unknown, index: number, ctx: NetContext, problems: WorkspaceProblem[]): TheoremDefinition | null => {
+    const { report, wasRepaired } = createItemReport(problems, isRecord(raw) ? `theorem ${quote(raw.name, `${index + 1}`)}` : `theorem ${index + 1}`);
+    if (!isRecord(raw) || !isNonEmptyString(raw.id) || !isNonEmptyString(raw.name)) {
+        report('Theorem has no ID or name and was dropped.');
+        return null;
+    }
+    const { ports, wasSorted } = readExternalPorts(raw.externalPorts, report);
+    const portIds = new Set(ports.map(port => port.id));
+    const source = readPairSource(raw.source, portIds, ctx, report);
+    if (!source) return null;
+    const target = readDiagram(raw.target, portIds, ctx, report);
+
+    const theorem: TheoremDefinition = { id: raw.id, name: raw.name, source, target, externalPorts: ports, isProved: raw.isProved === true };
+    if (raw.proof !== undefined) {
+        if (Array.isArray(raw.proof) && raw.proof.every(isProofStep)) {
+            theorem.proof = raw.proof;
+        } else {
+            report('Recorded proof is malformed and was dropped.');
+        }
+    }
+    // A proof whose statement was repaired no longer proves what was claimed
+    const repaired = wasRepaired();
+    if (repaired) theorem.isProved = false;
+    if (typeof raw.proofFailure === 'string') theorem.proofFailure = raw.proofFailure;
+    theorem.staleReason = readStaleReason(raw, repaired);
+    if (wasSorted) report(SORTED_PORTS_MESSAGE);
+    return theorem;
+};
+
+// --- Whole workspace ---
+
+/**
+ * Checks parsed workspace JSON against the workspace schema and for referential integrity:
+ * wires must end on existing nodes and boundary ports, within each node's port count, one
+ * wire per port; nodes must use existing node types; definitions must not contain themselves
+ * and keep their external ports in angle order. Broken parts are dropped or fixed, and
+ * library items that needed repairs are marked stale.
+ * @param data The parsed file, migrated to the current format.
+ * @returns Every problem found, and the repaired workspace.
+ */
+export const validateWorkspace = (data: unknown): WorkspaceValidation => {
+    const problems: WorkspaceProblem[] = [];
+    if (!isRecord(data)) {
+        problems.push({ location: 'file', message: 'The file does not hold a workspace object; nothing can be loaded.' });
+        return { problems, repaired: { formatVersion: CURRENT_FORMAT_VERSION, title: 'Untitled', atomicNodes: [], canvasNodes: [], wires: [], definitions: [], axioms: [], theorems: [] } };
+    }
+    const { report: reportFile } = createItemReport(problems, 'workspace');
+    if (typeof data.title !== 'string') reportFile('Title is missing; it was set to "Untitled".');
+
+    const atomicNodes = readUniqueItems(readList(data.atomicNodes, 'atomicNodes', reportFile), (raw, index) => {
+        const { report } = createItemReport(problems, isRecord(raw) ? `atomic node ${quote(raw.name, `${index + 1}`)}` : `atomic node ${index + 1}`);
+        return readAtomicNode(raw, index, report);
+    }, node => node.id, 'atomic node', reportFile);
+
+    // Definitions first drop anything that nests cyclically, then check their nets against what is left
+    const drafts: DefinitionDraft[] = [];
+    const readDrafts = readUniqueItems(readList(data.definitions, 'definitions', reportFile),
+        (raw, index) => readDefinitionDraft(raw, index, problems), draft => draft.definition.id, 'definition', reportFile);
+    readDrafts.forEach((draft, index) => {
+        const library = [...drafts, ...readDrafts.slice(index)].map(d => d.definition);
+        if (containsDefinition(draft.definition.internalNodes, draft.definition.id, library)) {
+            problems.push({ location: `definition "${draft.definition.name}"`, message: 'It contains itself through nested instances and was dropped.' });
+        } else {
+            drafts.push(draft);
+        }
+    });
+    const ctx: NetContext = {
+        atomicNodes: new Map(atomicNodes.map(node => [node.id, node])),
+        definitions: new Map(drafts.map(draft => [draft.definition.id, draft.definition])),
+        portMaps: new Map(drafts.map(draft => [draft.definition.id, draft.indexMap])),
+    };
+    const definitions = drafts.map(({ raw, definition, repaired }) => {
+        const { report, wasRepaired } = createItemReport(problems, `definition "${definition.name}"`);
+        const net = checkNet(definition.internalNodes, definition.internalWires, new Set(definition.externalPorts.map(p => p.id)), ctx, report);
+        return { ...definition, internalNodes: net.nodes, internalWires: net.wires, staleReason: readStaleReason(raw, repaired || wasRepaired()) };
+    });
+    const checkedCtx = { ...ctx, definitions: new Map(definitions.map(def => [def.id, def])) };
+
+    const { report: reportCanvas } = createItemReport(problems, 'canvas');
+    // The boundary is not saved; as when it is hidden, wires to its ports go without a report
+    const canvasWires = readWires(data.wires, 'wires', reportCanvas).filter(w => w.sourceNodeId !== 'BOUNDARY' && w.targetNodeId !== 'BOUNDARY');
+    const canvas = checkNet(readNodes(data.canvasNodes, 'canvasNodes', reportCanvas), canvasWires, new Set(), checkedCtx, reportCanvas);
+
+    const axioms = readUniqueItems(readList(data.axioms, 'axioms', reportFile),
+        (raw, index) => readAxiom(raw, index, checkedCtx, problems), axiom => axiom.id, 'axiom', reportFile);
+    const theorems = readUniqueItems(readList(data.theorems, 'theorems', reportFile),
+        (raw, index) => readTheorem(raw, index, checkedCtx, problems), theorem => theorem.id, 'theorem', reportFile);
+
+    return {
+        problems,
+        repaired: {
+            formatVersion: CURRENT_FORMAT_VERSION,
+            title: typeof data.title === 'string' ? data.title : 'Untitled',
+            atomicNodes,
+            canvasNodes: canvas.nodes,
+            wires: canvas.wires,
+            definitions,
+            axioms,
+            theorems,
+        },
+    };
+};
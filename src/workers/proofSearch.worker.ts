@@ -0,0 +1,16 @@
+import { ProofSide, RuleDiagram } from '../types';
+import { ProofRules } from '../utils/proofReplay';
+import { ProofSearchLimits, ProofSearchResult, searchProof } from '../utils/proofSearch';
+
+export interface ProofSearchRequest {
+  nets: Record<ProofSide, RuleDiagram>;
+  rules: ProofRules;
+  limits: ProofSearchLimits;
+}
+
+// Runs one search per message so the canvas stays responsive; the page terminates the worker to stop early
+self.onmessage = (event: MessageEvent<ProofSearchRequest>) => {
+  const { nets, rules, limits } = event.data;
+  const result: ProofSearchResult = searchProof(nets, rules, limits);
+  self.postMessage(result);
+};